@@ -142,8 +142,7 @@ function getOrCreateProjectContext(localesDir: string): PerProjectContext | null
   let availableLanguages: string[] = []
   
   try {
-    const files = fs.readdirSync(localesDir).filter(f => isLocaleFileName(f))
-    availableLanguages = files.map(f => f.replace(/\.json$/, ''))
+    availableLanguages = listLocaleLanguages(localesDir)
     
     if (availableLanguages.includes('en')) {
       baseLanguage = 'en'
@@ -188,15 +187,17 @@ function loadLocaleForProject(ctx: PerProjectContext, lang: string): Record<stri
   const variants = tryVariants(lang)
   debugLog(`loadLocaleForProject: loading ${lang} from ${ctx.localesDir}, trying variants: ${variants.join(', ')}`)
   
-  for (const variant of variants) {
-    const filePath = path.join(ctx.localesDir, `${variant}.json`)
+  const candidates = variants.flatMap((variant) => [
+    ...LOCALE_FILE_EXTENSIONS.map((ext) => path.join(ctx.localesDir, `${variant}${ext}`)),
+    path.join(ctx.localesDir, variant)
+  ])
+  for (const filePath of candidates) {
     debugLog(`loadLocaleForProject: trying ${filePath}`)
     try {
-      if (fs.existsSync(filePath)) {
+      if (fs.existsSync(filePath) && (!isDirectory(filePath) || isLocaleLanguageDir(filePath))) {
         debugLog(`loadLocaleForProject: file exists, reading...`)
-        const content = fs.readFileSync(filePath, 'utf-8')
-        // Strip BOM for Windows compatibility
-        const data = JSON.parse(stripBOM(content))
+        // Strips the BOM for Windows compatibility; language folders merge their namespace files
+        const data = readLocaleData(filePath)
         ctx.localeData[lang] = data
         debugLog(`loadLocaleForProject: successfully loaded ${filePath}, keys: ${Object.keys(data).slice(0, 5).join(', ')}...`)
         return data
@@ -246,7 +247,38 @@ function getTranslationForProject(ctx: PerProjectContext, keyPath: string, prefe
  */
 function getValueByPathLoose(obj: any, keyPath: string): any {
   if (!obj) return undefined
-  const parts = keyPath.split('.').filter(Boolean)
+  for (const candidate of getKeyPathCandidates(obj, keyPath)) {
+    const value = getSingleValueByPathLoose(obj, candidate)
+    if (value !== undefined) return value
+  }
+  return undefined
+}
+
+/**
+ * Path parts of a dotted key inside locale data. Below a gettext catalog the rest of the key is one
+ * msgid: it is source text, so its dots are not separators.
+ */
+function splitLocaleKeyPath(obj: any, keyPath: string): string[] {
+  const parts: string[] = []
+  let node = obj
+  let rest = keyPath
+  while (rest) {
+    if (node && gettextLocaleData.has(node)) {
+      parts.push(rest)
+      break
+    }
+    const dot = rest.indexOf('.')
+    const part = dot === -1 ? rest : rest.slice(0, dot)
+    rest = dot === -1 ? '' : rest.slice(dot + 1)
+    if (!part) continue
+    parts.push(part)
+    node = node && typeof node === 'object' ? node[part] : undefined
+  }
+  return parts
+}
+
+function getSingleValueByPathLoose(obj: any, keyPath: string): any {
+  const parts = splitLocaleKeyPath(obj, keyPath)
   let node = obj
   for (let i = 0; i < parts.length; i++) {
     const part = parts[i]
@@ -269,12 +301,48 @@ function getValueByPathLoose(obj: any, keyPath: string): any {
   return typeof node === 'string' ? node : undefined
 }
 
+/**
+ * Resolve the concrete path of a key inside a locale object, applying the same
+ * numeric-leaf fallback as getValueByPathLoose. Returns null when the key cannot be resolved.
+ */
+function resolveKeyPathLoose(obj: any, keyPath: string): string[] | null {
+  if (!obj) return null
+  for (const candidate of getKeyPathCandidates(obj, keyPath)) {
+    const resolved = resolveSingleKeyPathLoose(obj, candidate)
+    if (resolved) return resolved
+  }
+  return null
+}
+
+function resolveSingleKeyPathLoose(obj: any, keyPath: string): string[] | null {
+  const parts = splitLocaleKeyPath(obj, keyPath)
+  const resolved: string[] = []
+  let node = obj
+  for (let i = 0; i < parts.length; i++) {
+    const part = parts[i]
+    if (node && typeof node === 'object' && part in node) {
+      node = node[part]
+      resolved.push(part)
+      continue
+    }
+    const isLast = i === parts.length - 1
+    const isRequestingSpecific4Digit = /^\d{4}$/.test(part)
+    if (isLast && node && typeof node === 'object' && !isRequestingSpecific4Digit) {
+      const four = Object.keys(node).find((k) => /^\d{4}$/.test(k) && typeof node[k] === 'string')
+      if (four) return [...resolved, four]
+    }
+    return null
+  }
+  return typeof node === 'string' ? resolved : null
+}
+
 /**
  * Clear all project context caches
  */
 function clearAllProjectContextCaches(): void {
   projectContextCache.clear()
   localesFolderCache.clear()
+  localeFileContentCache.clear()
 }
 
 /**
@@ -296,2144 +364,7145 @@ function getProjectContextForFile(filePath: string, workspaceRoot?: string): Per
 }
 
 // ============================================================================
-// SYNC TRACKING UTILITIES
-// Mirrors the CLI's sync tracking for detecting base language changes
+// LOCALE FILE FORMATS
+// Locale files may be JSON (also JSONC / JSON5), YAML, JS/TS modules or gettext catalogs (en.json, en.yml, en.ts, en.po);
+// reads and writes go through here
 // ============================================================================
 
-const SYNC_FILE_NAME = '.stringer-sync.json'
+// Extensions recognized as locale files, in lookup order when several exist for one language
+const LOCALE_FILE_EXTENSIONS = ['.json', '.jsonc', '.json5', '.yml', '.yaml', '.ts', '.js', '.po']
+const LOCALE_FILE_GLOB = `*.{${LOCALE_FILE_EXTENSIONS.map((ext) => ext.slice(1)).join(',')}}`
 
-interface SyncData {
-  schemaVersion: number
-  baseLanguage: string
-  lastSync: string
-  keys: Record<string, string>
+function getLocaleFileExtension(fileName: string): string | null {
+  const lower = fileName.toLowerCase()
+  return LOCALE_FILE_EXTENSIONS.find((ext) => lower.endsWith(ext)) || null
 }
 
-interface SyncStatus {
-  inSync: boolean
-  modifiedKeys: string[]
-  newKeys: string[]
-  removedKeys: string[]
+/**
+ * Language code of a locale filename (en.json -> en, pt-BR.yml -> pt-BR)
+ */
+function stripLocaleFileExtension(fileName: string): string {
+  const ext = getLocaleFileExtension(fileName)
+  return ext ? fileName.slice(0, -ext.length) : fileName
+}
+
+function isYamlLocaleFile(filePath: string): boolean {
+  return /\.ya?ml$/i.test(filePath)
 }
 
 /**
- * Generate a fast hash using djb2 algorithm (same as CLI)
+ * Script files only count as locale files when they export an object literal,
+ * so folders of source files named like languages (db.ts, ui.js) are not mistaken for locales
  */
-function generateKeyHash(value: string): string {
-  if (typeof value !== 'string') {
-    value = JSON.stringify(value)
+function isLocaleFileContent(filePath: string): boolean {
+  if (!isModuleLocaleFile(filePath)) return true
+  let mtimeMs: number
+  try {
+    mtimeMs = fs.statSync(filePath).mtimeMs
+  } catch {
+    return false
   }
-  let hash = 5381
-  for (let i = 0; i < value.length; i++) {
-    hash = (hash * 33) ^ value.charCodeAt(i)
+  const cached = localeFileContentCache.get(filePath)
+  if (cached && cached.mtimeMs === mtimeMs) return cached.result
+  const text = readFileIfExists(filePath)
+  let result = false
+  if (text !== undefined) {
+    try {
+      parseModuleLocale(text)
+      result = true
+    } catch {}
   }
-  const unsignedHash = hash >>> 0
-  return unsignedHash.toString(16).padStart(8, '0')
+  localeFileContentCache.set(filePath, { mtimeMs, result })
+  return result
+}
+
+// Script file path -> whether it held a locale object at that modification time (see isLocaleFileContent)
+const localeFileContentCache = new Map<string, { mtimeMs: number; result: boolean }>()
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
 }
 
 /**
- * Flatten nested object into dot-notated paths with values
+ * Rails-style YAML files wrap everything in the language code (`en:` at the root).
+ * Returns that root key when present so keys resolve without it.
  */
-function flattenLocale(
-  obj: Record<string, any>,
-  parentKey = ''
-): Array<{ key: string; value: string }> {
-  const result: Array<{ key: string; value: string }> = []
-  for (const [key, value] of Object.entries(obj)) {
-    const currentKey = parentKey ? `${parentKey}.${key}` : key
-    if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
-      result.push(...flattenLocale(value, currentKey))
-    } else {
-      const stringValue = typeof value === 'string' ? value : JSON.stringify(value)
-      result.push({ key: currentKey, value: stringValue })
-    }
-  }
-  return result
+function getYamlRootWrapper(filePath: string, data: Record<string, any>): string | null {
+  const keys = Object.keys(data)
+  if (keys.length !== 1 || !isPlainObject(data[keys[0]])) return null
+  const norm = (s: string) => s.toLowerCase().replace(/_/g, '-')
+  return norm(keys[0]) === norm(stripLocaleFileExtension(path.basename(filePath))) ? keys[0] : null
 }
 
 /**
- * Flatten and hash all keys in a locale object
+ * Whether locale data uses flat dot-notation keys ({ "components.header.0242": "Welcome" })
+ * instead of nested objects
  */
-function flattenAndHashLocale(localeObj: Record<string, any>): Record<string, string> {
-  const flattened = flattenLocale(localeObj)
-  const hashes: Record<string, string> = {}
-  for (const { key, value } of flattened) {
-    hashes[key] = generateKeyHash(value)
-  }
-  return hashes
+function isFlatLocaleData(data: any): boolean {
+  if (!isPlainObject(data)) return false
+  const keys = Object.keys(data)
+  return keys.some((k) => k.includes('.')) && keys.every((k) => !isPlainObject(data[k]))
 }
 
 /**
- * Load sync file from locales directory
+ * Nest flat dot-notation keys so lookups and edits treat both styles alike.
+ * Returns null when keys clash (e.g. "a" next to "a.b") and cannot be nested.
  */
-function loadSyncFile(localesDir: string): SyncData | null {
-  const syncFilePath = path.join(localesDir, SYNC_FILE_NAME)
-  try {
-    if (!fs.existsSync(syncFilePath)) {
-      return null
+function expandFlatLocaleData(data: Record<string, any>): Record<string, any> | null {
+  const nested: Record<string, any> = {}
+  for (const [key, value] of Object.entries(data)) {
+    const parts = key.split('.')
+    if (parts.some((p) => !p)) return null
+    let node = nested
+    for (const part of parts.slice(0, -1)) {
+      if (node[part] === undefined) node[part] = {}
+      else if (!isPlainObject(node[part])) return null
+      node = node[part]
     }
-    const content = fs.readFileSync(syncFilePath, 'utf-8')
-    // Strip BOM for Windows compatibility
-    return JSON.parse(stripBOM(content)) as SyncData
-  } catch {
-    return null
+    const leaf = parts[parts.length - 1]
+    if (leaf in node) return null
+    node[leaf] = value
+  }
+  return nested
+}
+
+function toFlatLocaleData(data: Record<string, any>, prefix = '', out: Record<string, any> = {}): Record<string, any> {
+  for (const [key, value] of Object.entries(data)) {
+    const fullKey = prefix ? `${prefix}.${key}` : key
+    if (isPlainObject(value)) toFlatLocaleData(value, fullKey, out)
+    else out[fullKey] = value
   }
+  return out
 }
 
+// ---------- JSON, JSONC and JSON5 ----------
+type JsonDialect = 'json' | 'jsonc' | 'json5'
+
 /**
- * Detect changes between current and stored hashes
+ * How tolerant to be with a JSON locale file: .jsonc allows comments and trailing commas, .json5 also
+ * single quotes, unquoted keys and JSON5 numbers. Plain .json stays strict unless the project opts in
+ * with `stringerHelper.allowJsonComments`, since most bundlers load it with JSON.parse.
  */
-function detectSyncChanges(
-  currentHashes: Record<string, string>,
-  storedHashes: Record<string, string>
-): SyncStatus {
-  const modifiedKeys: string[] = []
-  const newKeys: string[] = []
-  const removedKeys: string[] = []
-
-  const currentKeySet = new Set(Object.keys(currentHashes))
-  const storedKeySet = new Set(Object.keys(storedHashes))
+function getJsonDialect(filePath: string): JsonDialect {
+  if (/\.json5$/i.test(filePath)) return 'json5'
+  if (/\.jsonc$/i.test(filePath)) return 'jsonc'
+  return vscode.workspace.getConfiguration('stringerHelper').get<boolean>('allowJsonComments', false) ? 'jsonc' : 'json'
+}
 
-  for (const key of currentKeySet) {
-    if (storedKeySet.has(key)) {
-      if (currentHashes[key] !== storedHashes[key]) {
-        modifiedKeys.push(key)
+/**
+ * Parse JSON locale content in the given dialect. Errors end in "at offset N" so they can be shown
+ * at the exact line and column (see getLocaleParseErrorOffset).
+ */
+function parseJsonLocale(text: string, dialect: JsonDialect): any {
+  try {
+    return JSON.parse(text)
+  } catch {}
+  const tolerant = dialect !== 'json'
+  const json5 = dialect === 'json5'
+  const numberRx = json5
+    ? /[+-]?(?:Infinity|NaN|0[xX][0-9a-fA-F]+|(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)|true|false|null/y
+    : /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null/y
+  const identifierRx = /[A-Za-z_$][\w$]*/y
+  const escapes: Record<string, string> = { '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t' }
+  let i = 0
+
+  const fail = (message: string, at = i): never => {
+    throw new Error(`${message} at offset ${at}`)
+  }
+  const unexpected = (): never => fail(i >= text.length ? 'Unexpected end of file' : `Unexpected character '${text[i]}'`)
+  const skip = () => {
+    while (i < text.length) {
+      const ch = text[i]
+      if (ch === ' ' || ch === '\t' || ch === '\n' || ch === '\r' || (json5 && /\s/.test(ch))) {
+        i++
+      } else if (ch === '/' && (text[i + 1] === '/' || text[i + 1] === '*')) {
+        if (!tolerant) fail('Comments are not allowed in JSON')
+        const end = text[i + 1] === '/' ? text.indexOf('\n', i) : text.indexOf('*/', i + 2)
+        if (end === -1 && text[i + 1] === '*') fail('Unterminated comment')
+        i = end === -1 ? text.length : text[i + 1] === '/' ? end : end + 2
+      } else {
+        break
       }
-    } else {
-      newKeys.push(key)
     }
   }
-
-  for (const key of storedKeySet) {
-    if (!currentKeySet.has(key)) {
-      removedKeys.push(key)
+  const readString = (): string => {
+    const quote = text[i]
+    const start = i
+    let out = ''
+    i++
+    while (i < text.length && text[i] !== quote) {
+      const ch = text[i]
+      if (ch === '\\') {
+        const esc = text[i + 1]
+        if (esc === 'u') {
+          const hex = text.slice(i + 2, i + 6)
+          if (!/^[0-9a-fA-F]{4}$/.test(hex)) fail('Invalid unicode escape')
+          out += String.fromCharCode(parseInt(hex, 16))
+          i += 6
+        } else if (esc in escapes || (json5 && esc === "'")) {
+          out += escapes[esc] ?? esc
+          i += 2
+        } else if (json5 && (esc === '\n' || esc === '\r')) {
+          i += esc === '\r' && text[i + 2] === '\n' ? 3 : 2 // line continuation
+        } else {
+          fail('Invalid escape sequence')
+        }
+        continue
+      }
+      if (ch === '\n' || ch === '\r') fail('Unterminated string', start)
+      if (!json5 && ch < ' ') fail('Control characters must be escaped in JSON strings')
+      out += ch
+      i++
     }
+    if (i >= text.length) fail('Unterminated string', start)
+    i++
+    return out
+  }
+  const parseValue = (): any => {
+    skip()
+    const ch = text[i]
+    if (ch === '{') return parseObject()
+    if (ch === '[') return parseArray()
+    if (ch === '"' || (json5 && ch === "'")) return readString()
+    numberRx.lastIndex = i
+    const literal = numberRx.exec(text)
+    if (!literal) return unexpected()
+    i += literal[0].length
+    if (/[\w$]/.test(text[i] || '')) unexpected()
+    const word = literal[0]
+    return word === 'true' ? true : word === 'false' ? false : word === 'null' ? null : Number(word)
+  }
+  const parseObject = (): Record<string, any> => {
+    const obj: Record<string, any> = {}
+    const open = i
+    i++
+    skip()
+    while (text[i] !== '}') {
+      if (i >= text.length) fail('Unterminated object', open)
+      identifierRx.lastIndex = i
+      const identifier = json5 ? identifierRx.exec(text) : null
+      let key: string
+      if (text[i] === '"' || (json5 && text[i] === "'")) {
+        key = readString()
+      } else if (identifier) {
+        key = identifier[0]
+        i += key.length
+      } else {
+        return fail('Expected a property name in double quotes')
+      }
+      skip()
+      if (text[i] !== ':') fail("Expected ':' after the property name")
+      i++
+      const value = parseValue()
+      if (key === '__proto__') Object.defineProperty(obj, key, { value, enumerable: true, writable: true, configurable: true })
+      else obj[key] = value
+      skip()
+      if (text[i] === ',') {
+        const comma = i
+        i++
+        skip()
+        if (text[i] === '}' && !tolerant) fail('Trailing commas are not allowed in JSON', comma)
+      } else if (text[i] !== '}') {
+        fail(i >= text.length ? 'Unterminated object' : "Expected ',' or '}'", i >= text.length ? open : i)
+      }
+    }
+    i++
+    return obj
+  }
+  const parseArray = (): any[] => {
+    const arr: any[] = []
+    const open = i
+    i++
+    skip()
+    while (text[i] !== ']') {
+      if (i >= text.length) fail('Unterminated array', open)
+      arr.push(parseValue())
+      skip()
+      if (text[i] === ',') {
+        const comma = i
+        i++
+        skip()
+        if (text[i] === ']' && !tolerant) fail('Trailing commas are not allowed in JSON', comma)
+      } else if (text[i] !== ']') {
+        fail(i >= text.length ? 'Unterminated array' : "Expected ',' or ']'", i >= text.length ? open : i)
+      }
+    }
+    i++
+    return arr
   }
 
-  const inSync = modifiedKeys.length === 0 && newKeys.length === 0 && removedKeys.length === 0
+  const value = parseValue()
+  skip()
+  if (i < text.length) fail('Unexpected content after the end of the document')
+  return value
+}
 
-  return { inSync, modifiedKeys, newKeys, removedKeys }
+/**
+ * Offset of the problem inside a locale file, read from a parse error: "at offset N" from the JSON and
+ * module parsers, "YAML line N" / "PO line N" from the YAML and gettext parsers (start of that line)
+ */
+function getLocaleParseErrorOffset(error: unknown, text: string): number {
+  const message = error instanceof Error ? error.message : String(error)
+  const offset = message.match(/at offset (\d+)/)
+  if (offset) return Math.min(Number(offset[1]), text.length)
+  const line = message.match(/^(?:YAML|PO) line (\d+)/)
+  if (!line) return 0
+  let pos = 0
+  for (let n = 1; n < Number(line[1]); n++) {
+    const next = text.indexOf('\n', pos)
+    if (next === -1) break
+    pos = next + 1
+  }
+  return pos
+}
+
+// Locale file content as written, without nesting flat keys
+function parseRawLocaleText(filePath: string, text: string): Record<string, any> {
+  const content = stripBOM(text)
+  if (isModuleLocaleFile(filePath)) return parseModuleLocale(content).data
+  if (isPoLocaleFile(filePath)) return poCatalogData(parsePoCatalog(content))
+  if (!isYamlLocaleFile(filePath)) return parseJsonLocale(content, getJsonDialect(filePath))
+  const { data } = parseYamlLocale(content)
+  const wrapper = getYamlRootWrapper(filePath, data)
+  return wrapper ? data[wrapper] : data
 }
 
 /**
- * Check sync status by comparing base language file with sync file
+ * Parse locale file content according to its extension. Throws on invalid content, like JSON.parse.
+ * Flat dot-notation files come back nested, like every other locale file; gettext catalogs stay keyed by msgid.
  */
-function checkSyncStatus(localesDir: string, baseLanguage: string): SyncStatus | null {
+function parseLocaleText(filePath: string, text: string): Record<string, any> {
+  const data = parseRawLocaleText(filePath, text)
+  if (isPoLocaleFile(filePath)) {
+    gettextLocaleData.add(data)
+    return data
+  }
+  return (isFlatLocaleData(data) && expandFlatLocaleData(data)) || data
+}
+
+/**
+ * Serialize locale data for a file. Passing the current file content updates it in place, so comments,
+ * formatting, key order and quoting of untouched entries survive. Files with flat dot-notation keys stay flat.
+ * A new JSON file follows the formatting of `formatSample` (a sibling locale file) when given.
+ */
+function serializeLocaleFile(filePath: string, nestedData: Record<string, any>, currentText?: string, formatSample?: string): string {
+  let data = nestedData
   try {
-    const baseFilePath = path.join(localesDir, `${baseLanguage}.json`)
-    if (!fs.existsSync(baseFilePath)) {
-      return null
+    if (currentText !== undefined && isFlatLocaleData(parseRawLocaleText(filePath, currentText))) {
+      data = toFlatLocaleData(nestedData)
     }
-
-    const baseContent = fs.readFileSync(baseFilePath, 'utf-8')
-    // Strip BOM for Windows compatibility
-    const baseLocale = JSON.parse(stripBOM(baseContent))
-    const currentHashes = flattenAndHashLocale(baseLocale)
-
-    const syncData = loadSyncFile(localesDir)
-    if (!syncData) {
-      // No sync file = first run, consider in sync
-      return { inSync: true, modifiedKeys: [], newKeys: [], removedKeys: [] }
+  } catch {}
+  if (isModuleLocaleFile(filePath)) {
+    if (currentText === undefined || !currentText.trim()) return emitModuleDocument(data)
+    const bom = currentText.charCodeAt(0) === 0xfeff ? '\uFEFF' : ''
+    return bom + updateObjectLiteralText(stripBOM(currentText), data, 'module')
+  }
+  if (isPoLocaleFile(filePath)) {
+    if (currentText === undefined || !currentText.trim()) return emitPoDocument(data)
+    const bom = currentText.charCodeAt(0) === 0xfeff ? '\uFEFF' : ''
+    return bom + updatePoCatalogText(stripBOM(currentText), data)
+  }
+  if (!isYamlLocaleFile(filePath)) {
+    if (currentText === undefined || !currentText.trim()) return serializeLocale(data, formatSample)
+    try {
+      const bom = currentText.charCodeAt(0) === 0xfeff ? '\uFEFF' : ''
+      const dialect = getJsonDialect(filePath)
+      const updated = updateObjectLiteralText(stripBOM(currentText), data, dialect)
+      // An edit that would leave the file unreadable in its own dialect falls back to a full rewrite
+      parseJsonLocale(updated, dialect)
+      return bom + updated
+    } catch {
+      // Not an object we can edit in place (e.g. the root is an array): rewrite it in the same style
+      return serializeLocale(data, currentText)
     }
-
-    return detectSyncChanges(currentHashes, syncData.keys)
-  } catch {
-    return null
   }
+  if (currentText === undefined || !currentText.trim()) return emitYamlDocument(data)
+  const bom = currentText.charCodeAt(0) === 0xfeff ? '\uFEFF' : ''
+  const content = stripBOM(currentText)
+  const wrapper = getYamlRootWrapper(filePath, parseYamlLocale(content).data)
+  return bom + updateYamlLocaleText(content, wrapper ? { [wrapper]: data } : data)
 }
 
 /**
- * Get a human-readable summary of sync changes
+ * Walk every key in a locale file, reporting its full path and position (see scanJsonKeys)
  */
-function getSyncChangeSummary(status: SyncStatus): string {
-  const parts: string[] = []
-  if (status.modifiedKeys.length > 0) {
-    parts.push(`${status.modifiedKeys.length} modified`)
+function scanLocaleKeys(filePath: string, text: string, visit: (loc: LocaleKeyLocation) => boolean | void): void {
+  if (isModuleLocaleFile(filePath)) {
+    let nodes: ModuleKeyNode[] = []
+    try {
+      nodes = parseModuleLocale(text).nodes
+    } catch {}
+    for (const node of nodes) {
+      if (visit({ pathParts: node.pathParts, keyStart: node.keyStart, keyEnd: node.keyEnd, isContainer: node.isContainer })) return
+    }
+    return
   }
-  if (status.newKeys.length > 0) {
-    parts.push(`${status.newKeys.length} new`)
+  if (isPoLocaleFile(filePath)) {
+    let entries: PoEntry[] = []
+    try {
+      entries = parsePoCatalog(text)
+    } catch {}
+    for (const entry of entries) {
+      if (visit({ pathParts: [entry.key], keyStart: entry.keyStart, keyEnd: entry.keyEnd, isContainer: false })) return
+    }
+    return
   }
-  if (status.removedKeys.length > 0) {
-    parts.push(`${status.removedKeys.length} removed`)
+  if (!isYamlLocaleFile(filePath)) {
+    scanJsonKeys(text, visit)
+    return
   }
-  return parts.join(', ') || 'in sync'
-}
-const decorationType = vscode.window.createTextEditorDecorationType({
-  after: {
-    margin: '0 0 0 0.25em',
-    color: new vscode.ThemeColor('editorCodeLens.foreground') as any
-  },
-  rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed
-})
-const hiddenTextDecorationType = vscode.window.createTextEditorDecorationType({
-  // Hide original text when rendering locale-only mode but preserve layout width.
-  // Use aggressive CSS so it works in all contexts (objects/JSX/Vue templates).
-  // VS Code allows injecting extra CSS declarations via textDecoration.
-  textDecoration: 'none; opacity: 0 !important; font-size: 0 !important; letter-spacing: -0.5em !important;'
-})
-// Separate decoration type for rendering values with 'before' so it is not affected by hidden style
-const valueBeforeDecorationType = vscode.window.createTextEditorDecorationType({
-  before: {
-    // Ensure the rendered value participates in layout and is readable on dark/light themes
-    color: new vscode.ThemeColor('editor.foreground') as any,
-    margin: '0 0 0 0',
+  let parsed: { data: Record<string, any>; nodes: YamlKeyNode[] }
+  try {
+    parsed = parseYamlLocale(text)
+  } catch {
+    return
+  }
+  const wrapper = getYamlRootWrapper(filePath, parsed.data)
+  for (const node of parsed.nodes) {
+    let pathParts = node.pathParts
+    if (wrapper) {
+      if (pathParts.length === 1 || pathParts[0] !== wrapper) continue
+      pathParts = pathParts.slice(1)
+    }
+    if (visit({ pathParts, keyStart: node.keyStart, keyEnd: node.keyEnd, isContainer: node.isContainer })) return
   }
-})
-
-// Utilities to mirror CLI behavior
-function lastPathSegment(expr: string): string {
-  const parts = String(expr).split('.')
-  return parts[parts.length - 1]
 }
 
-function normalizeDynamicPlaceholders(value: string): string {
-  let out = value
-  // Convert {{name}} to {name}
-  out = out.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_m, v) => `{${lastPathSegment(v)}}`)
-  // Convert ${name} to {name}
-  out = out.replace(/\$\{\s*([\w.]+)\s*\}/g, (_m, v) => `{${lastPathSegment(v)}}`)
-  return out
-}
+// ---------- Changes made underneath us ----------
+// Locale files can be rewritten (e.g. by `stringer align`) between the moment a command reads them and the
+// moment it writes them back. Each read remembers the text it parsed, so the write can replay its own
+// changes onto the newer content instead of overwriting it.
+const localeReadSnapshots = new WeakMap<object, Map<string, string>>()
 
-function stripHtmlTagsPreserveText(value: string): string {
-  // Remove tags but keep inner text. Best-effort, non-greedy for tags
-  return value.replace(/<[^>]*>/g, ' ')
+function rememberLocaleSnapshot(data: Record<string, any>, filePath: string, text: string): void {
+  if (!localeReadSnapshots.has(data)) localeReadSnapshots.set(data, new Map())
+  localeReadSnapshots.get(data)!.set(filePath, text)
 }
 
-function normalizeWhitespace(value: string): string {
-  return value.replace(/\s+/g, ' ').trim()
+/**
+ * Deep copy of locale data that keeps what it was read from (layout and snapshots)
+ */
+function cloneLocaleData(data: Record<string, any>): Record<string, any> {
+  const copy = JSON.parse(JSON.stringify(data))
+  if (namespacedLocaleData.has(data)) namespacedLocaleData.add(copy)
+  if (gettextLocaleData.has(data)) gettextLocaleData.add(copy)
+  for (const key of Object.keys(data)) {
+    if (gettextLocaleData.has(data[key])) gettextLocaleData.add(copy[key])
+  }
+  const snapshots = localeReadSnapshots.get(data)
+  if (snapshots) localeReadSnapshots.set(copy, new Map(snapshots))
+  return copy
 }
 
-function normalizeSelectedTextForI18n(value: string): string {
-  let v = value
-  v = normalizeDynamicPlaceholders(v)
-  v = stripHtmlTagsPreserveText(v)
-  v = normalizeWhitespace(v)
-  return v
+/**
+ * Three-way merge: apply what changed from `base` to `mine` (added, changed and deleted entries)
+ * onto `theirs`, the content now on disk. Our value wins where both sides changed the same entry, but an
+ * entry both sides added with different values (e.g. the same new numeric leaf) keeps theirs and is
+ * reported in `conflicts`.
+ */
+function mergeLocaleChanges(
+  base: Record<string, any>,
+  mine: Record<string, any>,
+  theirs: Record<string, any>
+): { data: Record<string, any>; conflicts: string[][] } {
+  const result = cloneLocaleData(theirs)
+  const conflicts: string[][] = []
+  const walk = (baseObj: Record<string, any>, mineObj: Record<string, any>, pathParts: string[]) => {
+    for (const key of Object.keys(mineObj)) {
+      const parts = [...pathParts, key]
+      if (isPlainObject(mineObj[key]) && (isPlainObject(baseObj[key]) || baseObj[key] === undefined)) {
+        walk(baseObj[key] ?? {}, mineObj[key], parts)
+      } else if (JSON.stringify(mineObj[key]) !== JSON.stringify(baseObj[key])) {
+        const current = getDeepValue(theirs, parts)
+        if (baseObj[key] === undefined && current !== undefined && JSON.stringify(current) !== JSON.stringify(mineObj[key])) {
+          conflicts.push(parts)
+          continue
+        }
+        let node = result
+        for (const part of parts.slice(0, -1)) {
+          if (!isPlainObject(node[part])) node[part] = {}
+          node = node[part]
+        }
+        node[key] = JSON.parse(JSON.stringify(mineObj[key]))
+      }
+    }
+    for (const key of Object.keys(baseObj)) {
+      if (!(key in mineObj)) deleteDeepValue(result, [...pathParts, key])
+    }
+  }
+  walk(base, mine, [])
+  return { data: result, conflicts }
 }
 
-// Truncate preview content safely by Unicode code points (avoid breaking surrogate pairs)
-function truncateForPreview(value: string, maxLength: number = 300): string {
-  const codepoints = Array.from(String(value))
-  if (codepoints.length <= maxLength) return value
-  return codepoints.slice(0, maxLength).join('') + '…'
+// ---------- Namespaced layout (locales/en/common.json, locales/en/home.json) ----------
+// Locale data loaded from a language folder: { common: {...}, home: {...} }
+const namespacedLocaleData = new WeakSet<object>()
+// Namespaces tried, in order, for keys written without one (i18next's default, then next-i18next's)
+const DEFAULT_NAMESPACES = ['translation', 'common']
+
+// Language folders of the namespaced layout have no locale file extension
+function isNamespacedLocalePath(localePath: string): boolean {
+  return !!localePath && !getLocaleFileExtension(localePath)
 }
 
-// Extract placeholder parameter names from a normalized i18n string, e.g. "Hello {name} ({count})" -> ['name','count']
-function extractParamsFromNormalizedText(value: string): string[] {
-  const params = new Set<string>()
-  const rx = /\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}/g
-  for (let m = rx.exec(value); m; m = rx.exec(value)) {
-    params.add(m[1])
+function isDirectory(p: string): boolean {
+  try {
+    return fs.statSync(p).isDirectory()
+  } catch {
+    return false
   }
-  return Array.from(params)
 }
 
-// ============================================================================
-// ADVANCED STRING CONVERSION SYSTEM
-// Detects and converts dynamic values: template literals, concatenation, 
-// numbers, currencies, dates, and method calls
-// ============================================================================
+function readFileIfExists(filePath: string): string | undefined {
+  try {
+    return fs.readFileSync(filePath, 'utf-8')
+  } catch {
+    return undefined
+  }
+}
 
-interface DynamicValueMatch {
-  type: 'interpolation' | 'number' | 'currency' | 'date' | 'method' | 'concat' | 'ternary'
-  original: string
-  paramName: string
-  expression: string
-  start: number
-  end: number
+function listNamespaceFiles(dirPath: string): string[] {
+  try {
+    return fs.readdirSync(dirPath).filter((f) => !f.startsWith('.') && !!getLocaleFileExtension(f))
+  } catch {
+    return []
+  }
 }
 
-interface AdvancedNormalizationResult {
-  normalizedText: string
-  params: DynamicValueMatch[]
-  originalParams: Map<string, string> // paramName -> original expression
-  hasAdvancedPatterns: boolean
+/**
+ * Whether a folder is one language of the namespaced layout: named like a language and holding
+ * nothing but locale files (so folders like src/ or lib/ are not mistaken for one)
+ */
+function isLocaleLanguageDir(dirPath: string): boolean {
+  if (!isLocaleLanguageName(path.basename(dirPath))) return false
+  try {
+    const entries = fs.readdirSync(dirPath, { withFileTypes: true }).filter((e) => !e.name.startsWith('.'))
+    const files = entries.filter((e) => e.isFile())
+    return (
+      files.length > 0 &&
+      files.every((e) => !!getLocaleFileExtension(e.name) && isLocaleFileContent(path.join(dirPath, e.name)))
+    )
+  } catch {
+    return false
+  }
 }
 
-/** Extract a clean parameter name from an expression */
-function extractParamName(expr: string): string {
-  const cleaned = expr.trim()
-  // Handle method calls like user.getName() -> user
-  const methodMatch = cleaned.match(/^([A-Za-z_$][A-Za-z0-9_$]*)(?:\.[A-Za-z_$][A-Za-z0-9_$]*)*/)
-  if (methodMatch) {
-    const parts = methodMatch[0].split('.')
-    // Use the last meaningful identifier before method call
-    const lastPart = parts[parts.length - 1]
-    // If it looks like a getter (getName, getCount), extract the noun
-    const getterMatch = lastPart.match(/^get([A-Z][a-z]+)$/)
-    if (getterMatch) {
-      return getterMatch[1].toLowerCase()
-    }
-    return lastPart
+function getNamespaceFilePath(dirPath: string, namespace: string): string {
+  const existing = listNamespaceFiles(dirPath).find((f) => stripLocaleFileExtension(f) === namespace)
+  if (existing) return path.join(dirPath, existing)
+  // New namespaces follow the format of their siblings
+  const sibling = listNamespaceFiles(dirPath)[0]
+  return path.join(dirPath, namespace + ((sibling && getLocaleFileExtension(sibling)) || '.json'))
+}
+
+/**
+ * Read all translations of a language: a single locale file, or every namespace file of a
+ * language folder keyed by namespace. `readText` lets callers prefer unsaved editor content.
+ */
+function readLocaleData(
+  localePath: string,
+  readText: (filePath: string) => string | undefined = readFileIfExists
+): Record<string, any> {
+  if (!isNamespacedLocalePath(localePath)) {
+    const text = readText(localePath)
+    if (text === undefined) throw new Error(`Cannot read ${localePath}`)
+    const data = parseLocaleText(localePath, text)
+    rememberLocaleSnapshot(data, localePath, text)
+    return data
   }
-  // Fallback: extract first identifier
-  const idMatch = cleaned.match(/([A-Za-z_$][A-Za-z0-9_$]*)/)
-  return idMatch ? idMatch[1] : 'value'
+  const data: Record<string, any> = {}
+  for (const file of listNamespaceFiles(localePath)) {
+    const filePath = path.join(localePath, file)
+    const text = readText(filePath) ?? '{}'
+    data[stripLocaleFileExtension(file)] = parseLocaleText(filePath, text)
+    rememberLocaleSnapshot(data, filePath, text)
+  }
+  namespacedLocaleData.add(data)
+  return data
 }
 
-/** Detect if expression involves number formatting */
-function isNumberFormatting(expr: string): boolean {
-  return /\.toFixed\s*\(/.test(expr) ||
-         /\.toLocaleString\s*\(/.test(expr) ||
-         /\.toPrecision\s*\(/.test(expr) ||
-         /Number\s*\(/.test(expr) ||
-         /parseFloat\s*\(/.test(expr) ||
-         /parseInt\s*\(/.test(expr)
+/**
+ * New content for each file of a language that changes when saving `data`.
+ * In the namespaced layout each namespace maps to its own file; new namespaces become new files.
+ * Throws when a file gained some of the same new keys with other values since it was read.
+ */
+function getLocaleWrites(
+  localePath: string,
+  data: Record<string, any>,
+  readText: (filePath: string) => string | undefined = readFileIfExists
+): Array<{ filePath: string; text: string }> {
+  const { writes, conflicts } = planLocaleWrites(localePath, data, readText)
+  if (conflicts.length > 0) throw getLocaleConflictError(localePath, conflicts)
+  return writes
 }
 
-/** Detect if expression involves currency formatting */
-function isCurrencyFormatting(expr: string): boolean {
-  return /['"]currency['"]/.test(expr) ||
-         /style:\s*['"]currency['"]/.test(expr) ||
-         /formatCurrency/.test(expr) ||
-         /\$\s*\+/.test(expr) ||
-         /['"]USD['"]|['"]EUR['"]|['"]GBP['"]/.test(expr)
+function getLocaleConflictError(localePath: string, keys: string[]): Error {
+  return new Error(
+    vscode.l10n.t('{0} changed meanwhile and now holds other values for {1}. Nothing was saved.', path.basename(localePath), keys.join(', '))
+  )
 }
 
-/** Detect if expression involves date formatting */
-function isDateFormatting(expr: string): boolean {
-  return /\.toLocaleDateString\s*\(/.test(expr) ||
-         /\.toLocaleTimeString\s*\(/.test(expr) ||
-         /\.toISOString\s*\(/.test(expr) ||
-         /\.toDateString\s*\(/.test(expr) ||
-         /formatDate/.test(expr) ||
-         /new Date\s*\(/.test(expr) ||
-         /dayjs|moment|date-fns/.test(expr)
+/**
+ * Locale writes for `data` holding keys it just created. A created key that the file gained with another
+ * value since it was read (a CLI took the same numeric leaf) moves to a free leaf of the merged content;
+ * `renamed` maps it to its new full key.
+ */
+function getLocaleWritesForNewKeys(
+  localePath: string,
+  data: Record<string, any>,
+  createdKeys: string[],
+  readText: (filePath: string) => string | undefined = readFileIfExists
+): { writes: Array<{ filePath: string; text: string }>; renamed: Map<string, string> } {
+  const plan = planLocaleWrites(localePath, data, readText)
+  const renamed = new Map<string, string>()
+  if (plan.conflicts.length === 0) return { writes: plan.writes, renamed }
+  const others = plan.conflicts.filter((key) => !createdKeys.includes(key))
+  if (others.length > 0) throw getLocaleConflictError(localePath, others)
+  for (const key of plan.conflicts) {
+    const parts = splitLocaleKeyPath(data, key)
+    const added = addStringToBaseLanguage(plan.merged, parts.slice(0, -1).join('.'), String(getDeepValue(data, parts)))
+    renamed.set(key, added.fullKeyPath)
+  }
+  return { writes: planLocaleWrites(localePath, plan.merged, readText).writes, renamed }
 }
 
-/** Parse a template literal and extract interpolations */
-function parseTemplateLiteral(text: string): AdvancedNormalizationResult {
-  const params: DynamicValueMatch[] = []
-  const originalParams = new Map<string, string>()
-  let normalizedText = ''
-  let lastIndex = 0
-  let hasAdvanced = false
-  
-  // Match ${...} patterns, handling nested braces
-  const regex = /\$\{([^{}]*(?:\{[^{}]*\}[^{}]*)*)\}/g
-  let match: RegExpExecArray | null
-  
-  while ((match = regex.exec(text)) !== null) {
-    const expr = match[1].trim()
-    const paramName = extractParamName(expr)
-    
-    // Add text before this match
-    normalizedText += text.slice(lastIndex, match.index)
-    
-    // Determine the type of dynamic value
-    let type: DynamicValueMatch['type'] = 'interpolation'
-    if (isNumberFormatting(expr)) {
-      type = 'number'
-      hasAdvanced = true
-    } else if (isCurrencyFormatting(expr)) {
-      type = 'currency'
-      hasAdvanced = true
-    } else if (isDateFormatting(expr)) {
-      type = 'date'
-      hasAdvanced = true
-    } else if (/\(.*\)/.test(expr)) {
-      type = 'method'
-      hasAdvanced = true
+// Writes for getLocaleWrites, the data they hold after merging changes made on disk, and the keys that clashed
+function planLocaleWrites(
+  localePath: string,
+  data: Record<string, any>,
+  readText: (filePath: string) => string | undefined
+): { writes: Array<{ filePath: string; text: string }>; merged: Record<string, any>; conflicts: string[] } {
+  const targets: Array<{ filePath: string; data: Record<string, any> }> = []
+  if (isNamespacedLocalePath(localePath)) {
+    for (const ns of Object.keys(data)) {
+      if (isPlainObject(data[ns])) targets.push({ filePath: getNamespaceFilePath(localePath, ns), data: data[ns] })
     }
-    
-    // Ensure unique param names
-    let uniqueName = paramName
-    let counter = 1
-    while (originalParams.has(uniqueName) && originalParams.get(uniqueName) !== expr) {
-      uniqueName = `${paramName}${counter++}`
+    // Namespaces emptied by deletes keep their file
+    for (const file of listNamespaceFiles(localePath)) {
+      if (!(stripLocaleFileExtension(file) in data)) targets.push({ filePath: path.join(localePath, file), data: {} })
     }
-    
-    params.push({
-      type,
-      original: match[0],
-      paramName: uniqueName,
-      expression: expr,
-      start: match.index,
-      end: match.index + match[0].length
-    })
-    
-    originalParams.set(uniqueName, expr)
-    normalizedText += `{${uniqueName}}`
-    lastIndex = match.index + match[0].length
+  } else {
+    targets.push({ filePath: localePath, data })
   }
-  
-  normalizedText += text.slice(lastIndex)
-  
-  return {
-    normalizedText,
-    params,
-    originalParams,
-    hasAdvancedPatterns: hasAdvanced
+  const writes: Array<{ filePath: string; text: string }> = []
+  const conflicts: string[] = []
+  const snapshots = localeReadSnapshots.get(data)
+  for (const target of targets) {
+    const current = readText(target.filePath)
+    const readAs = snapshots?.get(target.filePath)
+    if (readAs !== undefined && current !== undefined && current !== readAs) {
+      // Changed since it was read: keep the new content and replay our changes onto it
+      const merge = mergeLocaleChanges(parseLocaleText(target.filePath, readAs), target.data, parseLocaleText(target.filePath, current))
+      target.data = merge.data
+      const namespace = isNamespacedLocalePath(localePath) ? [stripLocaleFileExtension(path.basename(target.filePath))] : []
+      conflicts.push(...merge.conflicts.map((parts) => [...namespace, ...parts].join('.')))
+    }
+    // Leave untouched namespaces byte-for-byte as they are
+    if (current !== undefined && isNamespacedLocalePath(localePath)) {
+      try {
+        if (JSON.stringify(parseLocaleText(target.filePath, current)) === JSON.stringify(target.data)) continue
+      } catch {}
+    }
+    const sample = current === undefined ? getFormatSample(target.filePath, readText) : undefined
+    const text = serializeLocaleFile(target.filePath, target.data, current, sample)
+    if (text !== current) writes.push({ filePath: target.filePath, text })
+  }
+  // Keep the gettext template next to a catalog listing every msgid
+  for (const target of targets) {
+    const templatePath = /\.po$/i.test(target.filePath) ? getPoTemplatePath(path.dirname(target.filePath)) : null
+    if (!templatePath) continue
+    const pending = writes.find((w) => w.filePath === templatePath)
+    const templateText = pending ? pending.text : readText(templatePath)
+    if (templateText === undefined) continue
+    try {
+      const known = new Set(parsePoCatalog(stripBOM(templateText)).map((e) => e.key))
+      const missing = Object.keys(toFlatLocaleData(target.data)).filter((k) => !known.has(k))
+      if (missing.length === 0) continue
+      const text = serializeLocaleFile(templatePath, Object.fromEntries(missing.map((k) => [k, ''])), templateText)
+      if (pending) pending.text = text
+      else writes.push({ filePath: templatePath, text })
+    } catch {}
   }
+  let merged = targets[0]?.data ?? data
+  if (isNamespacedLocalePath(localePath)) {
+    merged = Object.fromEntries(targets.map((target) => [stripLocaleFileExtension(path.basename(target.filePath)), target.data]))
+    namespacedLocaleData.add(merged)
+  }
+  return { writes, merged, conflicts }
 }
 
-/** Parse string concatenation: 'Hello ' + name + '!' */
-function parseStringConcatenation(text: string): AdvancedNormalizationResult | null {
-  // Check if this looks like concatenation
-  if (!text.includes('+')) return null
-  
-  const params: DynamicValueMatch[] = []
-  const originalParams = new Map<string, string>()
-  let normalizedText = ''
-  let hasAdvanced = false
-  
-  // Split by + but preserve quoted strings
-  const parts: string[] = []
-  let current = ''
-  let inString: string | null = null
-  let depth = 0
-  
-  for (let i = 0; i < text.length; i++) {
-    const ch = text[i]
-    const prev = i > 0 ? text[i - 1] : ''
-    
-    if (!inString && (ch === '"' || ch === "'" || ch === '`')) {
-      inString = ch
-      current += ch
-    } else if (inString === ch && prev !== '\\') {
-      inString = null
-      current += ch
-    } else if (!inString && ch === '(') {
-      depth++
-      current += ch
-    } else if (!inString && ch === ')') {
-      depth--
-      current += ch
-    } else if (!inString && depth === 0 && ch === '+') {
-      parts.push(current.trim())
-      current = ''
-    } else {
-      current += ch
+// Content of a locale file next to `filePath` with the same extension, for a new file to copy its formatting
+function getFormatSample(filePath: string, readText: (filePath: string) => string | undefined): string | undefined {
+  const dir = path.dirname(filePath)
+  const ext = getLocaleFileExtension(filePath)
+  try {
+    for (const file of fs.readdirSync(dir)) {
+      if (file.startsWith('.') || getLocaleFileExtension(file) !== ext || path.join(dir, file) === filePath) continue
+      const text = readText(path.join(dir, file))
+      if (text !== undefined) return text
     }
+  } catch {}
+  return undefined
+}
+
+function writeLocaleData(localePath: string, data: Record<string, any>): void {
+  for (const { filePath, text } of getLocaleWrites(localePath, data)) {
+    ensureDir(path.dirname(filePath))
+    fs.writeFileSync(filePath, text)
   }
-  if (current.trim()) {
-    parts.push(current.trim())
+}
+
+/**
+ * The file that holds a full key path, and the key path inside that file
+ */
+function getLocaleKeyFile(localePath: string, pathParts: string[]): { filePath: string; pathParts: string[] } | null {
+  if (!isNamespacedLocalePath(localePath)) return { filePath: localePath, pathParts }
+  if (pathParts.length < 2) return null
+  return { filePath: getNamespaceFilePath(localePath, pathParts[0]), pathParts: pathParts.slice(1) }
+}
+
+/**
+ * Where a locale file belongs: its locales folder, language and, in the namespaced layout, namespace
+ */
+function getLocaleFileInfo(filePath: string): { localesDir: string; lang: string; namespace: string | null } | null {
+  const fileName = path.basename(filePath)
+  if (!getLocaleFileExtension(fileName) || fileName.startsWith('.')) return null
+  const dir = path.dirname(filePath)
+  if (isLocaleLanguageDir(dir)) {
+    return { localesDir: path.dirname(dir), lang: path.basename(dir), namespace: stripLocaleFileExtension(fileName) }
   }
-  
-  // Need at least 2 parts for concatenation
-  if (parts.length < 2) return null
-  
-  // Check if at least one part is a string literal and one is a variable
-  let hasStringLiteral = false
-  let hasVariable = false
-  
-  for (const part of parts) {
-    if (/^['"`].*['"`]$/.test(part)) {
-      hasStringLiteral = true
-    } else if (/^[A-Za-z_$]/.test(part)) {
-      hasVariable = true
-    }
+  if (isLocaleFileName(fileName) && isLocaleFileContent(filePath)) {
+    return { localesDir: dir, lang: stripLocaleFileExtension(fileName), namespace: null }
   }
-  
-  if (!hasStringLiteral || !hasVariable) return null
-  
-  // Build normalized text
-  let paramIndex = 0
-  for (const part of parts) {
-    const trimmed = part.trim()
-    
-    if (/^['"`](.*?)['"`]$/.test(trimmed)) {
-      // String literal - extract content
-      const content = trimmed.slice(1, -1)
-      normalizedText += content
-    } else if (trimmed) {
-      // Variable or expression
-      const paramName = extractParamName(trimmed)
-      let uniqueName = paramName
-      let counter = 1
-      while (originalParams.has(uniqueName) && originalParams.get(uniqueName) !== trimmed) {
-        uniqueName = `${paramName}${counter++}`
-      }
-      
-      let type: DynamicValueMatch['type'] = 'concat'
-      if (isNumberFormatting(trimmed)) {
-        type = 'number'
-        hasAdvanced = true
-      } else if (isCurrencyFormatting(trimmed)) {
-        type = 'currency'
-        hasAdvanced = true
-      } else if (isDateFormatting(trimmed)) {
-        type = 'date'
-        hasAdvanced = true
-      }
-      
-      params.push({
-        type,
-        original: trimmed,
-        paramName: uniqueName,
-        expression: trimmed,
-        start: paramIndex,
-        end: paramIndex + trimmed.length
-      })
-      
-      originalParams.set(uniqueName, trimmed)
-      normalizedText += `{${uniqueName}}`
-      paramIndex++
-    }
-  }
-  
-  return {
-    normalizedText: normalizedText.trim(),
-    params,
-    originalParams,
-    hasAdvancedPatterns: hasAdvanced || params.length > 0
+  return null
+}
+
+/**
+ * Dotted paths to try for a key as written in code: `ns:key` becomes `ns.key`, and in the namespaced
+ * layout a key that does not start with a namespace is looked up in the default namespaces first
+ */
+function getKeyPathCandidates(obj: any, keyPath: string): string[] {
+  if (obj && gettextLocaleData.has(obj)) return [keyPath]
+  const normalized = keyPath.replace(/^([^.:]+):/, '$1.')
+  if (!obj || !namespacedLocaleData.has(obj)) {
+    // A single locale file is one namespace: `ns:key` falls back to `key` when ns is not a top-level key
+    const ns = keyPath.match(/^([^.:]+):/)
+    return ns && obj && !(ns[1] in obj) ? [normalized, keyPath.slice(ns[0].length)] : [normalized]
   }
+  const first = normalized.split('.')[0]
+  if (first in obj) return [normalized]
+  const namespaces = Object.keys(obj)
+  if (namespaces.length === 0) return [`${DEFAULT_NAMESPACES[1]}.${normalized}`]
+  const ordered = [...DEFAULT_NAMESPACES.filter((ns) => namespaces.includes(ns)), ...namespaces.filter((ns) => !DEFAULT_NAMESPACES.includes(ns))]
+  return ordered.map((ns) => `${ns}.${normalized}`)
 }
 
-/** Detect ternary expressions: condition ? 'yes' : 'no' */
-function detectTernaryExpression(text: string): { isTernary: boolean; condition?: string; trueVal?: string; falseVal?: string } {
-  const ternaryMatch = text.match(/^([^?]+)\s*\?\s*(['"`]?)([^:'"]+)\2\s*:\s*(['"`]?)([^'"]+)\4$/)
-  if (ternaryMatch) {
-    return {
-      isTernary: true,
-      condition: ternaryMatch[1].trim(),
-      trueVal: ternaryMatch[3].trim(),
-      falseVal: ternaryMatch[5].trim()
-    }
+// Namespace a source file loads through useTranslation('ns') / withTranslation(['ns', ...])
+function getDeclaredNamespace(source: string): string | null {
+  const m = source.match(/\b(?:useTranslation|withTranslation)\(\s*\[?\s*(['"])([^'"]+)\1/)
+  return m ? m[2] : null
+}
+
+/**
+ * Namespace a new key from a source file goes into: the one the file loads, else one named after
+ * the component or a folder of its key path, else the default namespace
+ */
+function pickNamespaceForFile(namespaces: string[], source: string, filePath: string, keyPathPrefix: string): string {
+  const declared = getDeclaredNamespace(source)
+  if (declared) return declared
+  const norm = (s: string) => s.toLowerCase().replace(/[^a-z0-9]/g, '')
+  const names = [path.basename(filePath).replace(/\.[^.]+$/, ''), ...keyPathPrefix.split('.').reverse()]
+  for (const name of names) {
+    const match = namespaces.find((ns) => norm(ns) === norm(name))
+    if (match) return match
   }
-  return { isTernary: false }
+  return DEFAULT_NAMESPACES.find((ns) => namespaces.includes(ns)) || namespaces[0] || DEFAULT_NAMESPACES[1]
 }
 
-/** Main advanced normalization function */
-function advancedNormalizeString(rawText: string, context: 'vue-template' | 'jsx' | 'script'): AdvancedNormalizationResult {
-  let text = rawText.trim()
-  
-  // Remove surrounding quotes if present
-  if (/^['"`]/.test(text) && /['"`]$/.test(text)) {
-    const quote = text[0]
-    if (text[text.length - 1] === quote) {
-      text = text.slice(1, -1)
-    }
+/**
+ * Key to write in a source file for a full namespaced key: without the namespace when the file
+ * already loads it, otherwise as `ns:key`
+ */
+function toNamespacedKeyUsage(fullKey: string, source: string): string {
+  const dot = fullKey.indexOf('.')
+  if (dot === -1) return fullKey
+  const namespace = fullKey.slice(0, dot)
+  return getDeclaredNamespace(source) === namespace ? fullKey.slice(dot + 1) : `${namespace}:${fullKey.slice(dot + 1)}`
+}
+
+// ---------- YAML (block mappings, quoted/plain/block scalars, flow collections, anchors) ----------
+interface YamlKeyNode extends LocaleKeyLocation {
+  indent: number
+  lineStart: number // offset of the start of the key's line
+  valueStart: number // inline value span; -1 when the value is a nested block or empty
+  valueEnd: number
+  end: number // offset just after the entry's last line (children included)
+}
+
+function yamlError(line: number, message: string): Error {
+  return new Error(`YAML line ${line + 1}: ${message}`)
+}
+
+function unescapeYamlDoubleQuoted(raw: string): string {
+  const simple: Record<string, string> = {
+    '0': '\0', a: '\x07', b: '\b', t: '\t', '\t': '\t', n: '\n', v: '\v', f: '\f', r: '\r', e: '\x1b',
+    ' ': ' ', '"': '"', '/': '/', '\\': '\\', N: '\u0085', _: '\u00a0', L: '\u2028', P: '\u2029'
   }
-  
-  // Check for template literal (backticks)
-  if (rawText.trim().startsWith('`') || text.includes('${')) {
-    const result = parseTemplateLiteral(text)
-    if (result.params.length > 0) {
-      // Also apply basic normalization
-      result.normalizedText = stripHtmlTagsPreserveText(result.normalizedText)
-      result.normalizedText = normalizeWhitespace(result.normalizedText)
-      return result
+  let out = ''
+  for (let i = 0; i < raw.length; i++) {
+    const ch = raw[i]
+    if (ch !== '\\') {
+      out += ch
+      continue
     }
+    const next = raw[++i]
+    if (next === undefined) break
+    if (next in simple) out += simple[next]
+    else if (next === 'x' || next === 'u' || next === 'U') {
+      const len = next === 'x' ? 2 : next === 'u' ? 4 : 8
+      out += String.fromCodePoint(parseInt(raw.slice(i + 1, i + 1 + len), 16))
+      i += len
+    } else if (next === '\n') {
+      // Escaped line break: join lines without a space
+      while (raw[i + 1] === ' ' || raw[i + 1] === '\t') i++
+    } else out += next
   }
-  
-  // Check for string concatenation
-  const concatResult = parseStringConcatenation(rawText)
-  if (concatResult && concatResult.params.length > 0) {
-    concatResult.normalizedText = stripHtmlTagsPreserveText(concatResult.normalizedText)
-    concatResult.normalizedText = normalizeWhitespace(concatResult.normalizedText)
-    return concatResult
+  return out
+}
+
+// Fold the raw line breaks of a multi-line flow scalar (single break -> space, blank lines -> newlines)
+function foldYamlFlowLines(raw: string): string {
+  return raw.replace(/[ \t]*\n((?:[ \t]*\n)*)[ \t]*/g, (_m, blanks: string) => {
+    const count = (blanks.match(/\n/g) || []).length
+    return count > 0 ? '\n'.repeat(count) : ' '
+  })
+}
+
+function yamlPlainValue(raw: string): string | null {
+  const value = raw.trim()
+  return value === '' || value === '~' || /^(null|Null|NULL)$/.test(value) ? null : value
+}
+
+/**
+ * Parse a flow collection ([a, b] or {a: b}) or flow scalar starting at `pos`
+ */
+function parseYamlFlow(src: string, pos: number): { value: any; end: number } {
+  const skipWs = (p: number) => {
+    while (p < src.length && /\s/.test(src[p])) p++
+    return p
   }
-  
-  // Check for Vue mustache syntax
-  if (context === 'vue-template' && /\{\{.*\}\}/.test(text)) {
-    const params: DynamicValueMatch[] = []
-    const originalParams = new Map<string, string>()
-    let normalized = text
-    
-    const mustacheRegex = /\{\{\s*([^}]+)\s*\}\}/g
-    let match: RegExpExecArray | null
-    
-    while ((match = mustacheRegex.exec(text)) !== null) {
-      const expr = match[1].trim()
-      const paramName = extractParamName(expr)
-      
-      let uniqueName = paramName
-      let counter = 1
-      while (originalParams.has(uniqueName) && originalParams.get(uniqueName) !== expr) {
-        uniqueName = `${paramName}${counter++}`
+  const parseScalar = (p: number, stops: string): { value: any; end: number } => {
+    p = skipWs(p)
+    const q = src[p]
+    if (q === '"' || q === "'") {
+      let j = p + 1
+      while (j < src.length) {
+        if (q === '"' && src[j] === '\\') j += 2
+        else if (q === "'" && src[j] === "'" && src[j + 1] === "'") j += 2
+        else if (src[j] === q) break
+        else j++
       }
-      
-      params.push({
-        type: 'interpolation',
-        original: match[0],
-        paramName: uniqueName,
-        expression: expr,
-        start: match.index,
-        end: match.index + match[0].length
-      })
-      
-      originalParams.set(uniqueName, expr)
-      normalized = normalized.replace(match[0], `{${uniqueName}}`)
-    }
-    
-    return {
-      normalizedText: normalizeWhitespace(stripHtmlTagsPreserveText(normalized)),
-      params,
-      originalParams,
-      hasAdvancedPatterns: params.length > 0
+      const inner = foldYamlFlowLines(src.slice(p + 1, j))
+      return { value: q === '"' ? unescapeYamlDoubleQuoted(inner) : inner.replace(/''/g, "'"), end: j + 1 }
     }
+    if (q === '[' || q === '{') return parseYamlFlow(src, p)
+    let j = p
+    while (j < src.length && !stops.includes(src[j]) && !(src[j] === ':' && /[\s,\]}]/.test(src[j + 1] || ' '))) j++
+    return { value: yamlPlainValue(src.slice(p, j).replace(/\s+/g, ' ')), end: j }
   }
-  
-  // Fallback to basic normalization
-  const basicNormalized = normalizeSelectedTextForI18n(text)
-  const basicParams = extractParamsFromNormalizedText(basicNormalized)
-  const originalParams = new Map<string, string>()
-  
-  // Try to map extracted params back to original expressions
-  for (const param of basicParams) {
-    // Look for the param in the original text
-    const paramRegex = new RegExp(`\\$\\{\\s*(${param}[^}]*)\\s*\\}|\\{\\{\\s*(${param}[^}]*)\\s*\\}\\}`, 'g')
-    const paramMatch = paramRegex.exec(rawText)
-    if (paramMatch) {
-      originalParams.set(param, paramMatch[1] || paramMatch[2] || param)
+  pos = skipWs(pos)
+  const open = src[pos]
+  if (open !== '[' && open !== '{') return parseScalar(pos, '')
+  const close = open === '[' ? ']' : '}'
+  const result: any = open === '[' ? [] : {}
+  let p = pos + 1
+  while (true) {
+    p = skipWs(p)
+    if (p >= src.length) throw new Error(`Unterminated flow collection`)
+    if (src[p] === close) return { value: result, end: p + 1 }
+    if (src[p] === ',') {
+      p++
+      continue
+    }
+    if (open === '[') {
+      const item = parseScalar(p, ',]')
+      result.push(item.value)
+      p = item.end
     } else {
-      originalParams.set(param, param)
+      const key = parseScalar(p, ':,}')
+      p = skipWs(key.end)
+      let value: any = null
+      if (src[p] === ':') {
+        const item = parseScalar(p + 1, ',}')
+        value = item.value
+        p = item.end
+      }
+      result[String(key.value)] = value
     }
   }
-  
-  return {
-    normalizedText: basicNormalized,
-    params: basicParams.map((p, i) => ({
-      type: 'interpolation' as const,
-      original: p,
-      paramName: p,
-      expression: originalParams.get(p) || p,
-      start: i,
-      end: i + 1
-    })),
-    originalParams,
-    hasAdvancedPatterns: false
-  }
 }
 
-/** Generate the t() call expression with proper parameter object */
-function generateTCallExpression(keyPath: string, result: AdvancedNormalizationResult): string {
-  if (result.params.length === 0) {
-    return `t('${keyPath}')`
+/**
+ * Parse the YAML subset used by locale files, recording the position of every mapping key
+ */
+function parseYamlLocale(text: string): { data: Record<string, any>; nodes: YamlKeyNode[] } {
+  const lines: Array<{ start: number; text: string; next: number }> = []
+  for (let start = 0; start <= text.length; ) {
+    const nl = text.indexOf('\n', start)
+    const end = nl === -1 ? text.length : nl
+    lines.push({ start, text: text.slice(start, end).replace(/\r$/, ''), next: nl === -1 ? text.length : nl + 1 })
+    if (nl === -1) break
+    start = nl + 1
   }
-  
-  // Build parameter object
-  const paramEntries: string[] = []
-  for (const param of result.params) {
-    const expr = result.originalParams.get(param.paramName) || param.expression
-    // If the expression is the same as param name, use shorthand
-    if (expr === param.paramName) {
-      paramEntries.push(param.paramName)
+
+  const root: Record<string, any> = {}
+  const nodes: YamlKeyNode[] = []
+  const anchors = new Map<string, any>()
+  // `container` is null until the first child line decides between a mapping and a sequence
+  type Frame = { indent: number; container: any; path: string[]; node: YamlKeyNode | null; parent: any; key: string; anchor?: string }
+  const stack: Frame[] = [{ indent: -1, container: root, path: [], node: null, parent: null, key: '' }]
+  let lastEnd = 0
+
+  const closeFrame = () => {
+    const frame = stack.pop()!
+    if (frame.node) frame.node.end = lastEnd
+    if (frame.anchor) anchors.set(frame.anchor, frame.container)
+  }
+  const isContentLine = (t: string) => t.trim() !== '' && !/^\s*#/.test(t)
+  const indentOf = (t: string) => t.length - t.replace(/^ */, '').length
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]
+    const raw = i === 0 ? line.text.replace(/^\uFEFF/, '') : line.text
+    const bomShift = line.text.length - raw.length
+    if (!isContentLine(raw)) continue
+    if (/^(---|\.\.\.)(\s|$)|^%/.test(raw)) {
+      if (raw.slice(3).trim() && !/^\s*#/.test(raw.slice(3))) throw yamlError(i, 'content after a document marker is not supported')
+      continue
+    }
+    if (/^ *\t/.test(raw)) throw yamlError(i, 'tabs are not allowed for indentation')
+    const indent = indentOf(raw)
+    const isItem = /^ *-(\s|$)/.test(raw)
+    // A sequence may sit at the same indent as its key ("key:\n- a")
+    const continuesSequence = (f: Frame) => isItem && indent === f.indent && (f.container === null || Array.isArray(f.container))
+    while (stack.length > 1 && indent <= stack[stack.length - 1].indent && !continuesSequence(stack[stack.length - 1])) closeFrame()
+    let frame = stack[stack.length - 1]
+    const contentStart = line.start + bomShift + indent
+    const content = raw.slice(indent)
+
+    if (frame.container === null) {
+      frame.container = /^-(\s|$)/.test(content) ? [] : {}
+      frame.parent[frame.key] = frame.container
+      if (frame.node) frame.node.isContainer = true
+    }
+
+    // Sequence item (scalars and flow values only)
+    if (/^-(\s|$)/.test(content)) {
+      if (!Array.isArray(frame.container)) throw yamlError(i, 'unexpected sequence item')
+      const itemText = content.slice(1).trim()
+      const itemOffset = line.start + bomShift + raw.length - content.slice(1).trimStart().length
+      const parsed = /^["'[{]/.test(itemText)
+        ? parseYamlFlow(text, itemOffset)
+        : { value: yamlPlainValue(itemText.replace(/\s+#.*$/, '')), end: line.start + line.text.length }
+      frame.container.push(parsed.value)
+      while (i + 1 < lines.length && lines[i + 1].start < parsed.end) i++
+      lastEnd = lines[i].next
+      continue
+    }
+
+    if (Array.isArray(frame.container)) throw yamlError(i, 'expected a sequence item')
+    const keyMatch = content.match(/^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s#'"][^#]*?)[ \t]*:(?=\s|$)/)
+    if (!keyMatch) throw yamlError(i, 'expected "key: value"')
+    const keyToken = keyMatch[1]
+    const key =
+      keyToken[0] === '"'
+        ? unescapeYamlDoubleQuoted(keyToken.slice(1, -1))
+        : keyToken[0] === "'"
+          ? keyToken.slice(1, -1).replace(/''/g, "'")
+          : keyToken
+    let rest = content.slice(keyMatch[0].length)
+    let restOffset = contentStart + keyMatch[0].length
+    const lead = rest.length - rest.trimStart().length
+    rest = rest.trimStart()
+    restOffset += lead
+
+    // Anchors and tags in front of the value
+    let anchorName: string | null = null
+    const prefix = rest.match(/^(?:(&[^\s]+)|(![^\s]*))(\s+|$)/)
+    if (prefix) {
+      if (prefix[1]) anchorName = prefix[1].slice(1)
+      rest = rest.slice(prefix[0].length)
+      restOffset += prefix[0].length
+    }
+
+    const node: YamlKeyNode = {
+      pathParts: [...frame.path, key],
+      keyStart: contentStart,
+      keyEnd: contentStart + keyToken.length,
+      isContainer: false,
+      indent,
+      lineStart: line.start,
+      valueStart: -1,
+      valueEnd: -1,
+      end: line.next
+    }
+    const target = frame.container as Record<string, any>
+
+    if (key === '<<' && rest.startsWith('*')) {
+      const merged = anchors.get(rest.slice(1).trim())
+      if (isPlainObject(merged)) {
+        for (const k of Object.keys(merged)) if (!(k in target)) target[k] = merged[k]
+      }
+      lastEnd = line.next
+      continue
+    }
+    nodes.push(node)
+
+    if (rest === '' || rest.startsWith('#')) {
+      // Nested block (or an empty value)
+      target[key] = null
+      stack.push({ indent, container: null, path: node.pathParts, node, parent: target, key, anchor: anchorName || undefined })
+      lastEnd = line.next
+      continue
+    }
+
+    let value: any
+    let valueEnd: number
+    if (rest[0] === '|' || rest[0] === '>') {
+      const header = rest.match(/^([|>])([+-]?)(\d?)([+-]?)/)!
+      const chomp = header[2] || header[4]
+      let blockIndent = header[3] ? indent + Number(header[3]) : -1
+      const body: string[] = []
+      let j = i + 1
+      for (; j < lines.length; j++) {
+        const t = lines[j].text
+        if (t.trim() === '') {
+          body.push('')
+          continue
+        }
+        const ind = indentOf(t)
+        if (blockIndent === -1) blockIndent = ind
+        if (ind < blockIndent || ind <= indent) break
+        body.push(t.slice(blockIndent))
+      }
+      // Trailing blank lines belong to the block only for chomping; don't swallow them positionally
+      let lastLine = j - 1
+      while (lastLine > i && lines[lastLine].text.trim() === '') lastLine--
+      let trailing = 0
+      while (body.length && body[body.length - 1] === '') {
+        body.pop()
+        trailing++
+      }
+      let joined: string
+      if (header[1] === '|') joined = body.join('\n')
+      else {
+        joined = ''
+        for (let b = 0; b < body.length; b++) {
+          const cur = body[b]
+          if (b === 0) joined = cur
+          else if (cur === '' || /^\s/.test(cur) || body[b - 1] === '' || /^\s/.test(body[b - 1])) joined += '\n' + cur
+          else joined += ' ' + cur
+        }
+      }
+      value = chomp === '-' ? joined : chomp === '+' ? joined + '\n'.repeat(trailing + 1) : joined + (body.length ? '\n' : '')
+      i = lastLine
+      valueEnd = lines[lastLine].start + lines[lastLine].text.length
+    } else if (/^["'[{]/.test(rest)) {
+      const parsed = parseYamlFlow(text, restOffset)
+      value = parsed.value
+      valueEnd = parsed.end
+      while (i + 1 < lines.length && lines[i + 1].start < valueEnd) i++
+      const after = text.slice(valueEnd, lines[i].start + lines[i].text.length)
+      if (after.trim() && !/^\s+#/.test(after)) throw yamlError(i, 'unexpected text after value')
+    } else if (rest.startsWith('*')) {
+      const name = rest.slice(1).replace(/\s+#.*$/, '').trim()
+      if (!anchors.has(name)) throw yamlError(i, `unknown alias *${name}`)
+      value = anchors.get(name)
+      valueEnd = restOffset + 1 + name.length
     } else {
-      paramEntries.push(`${param.paramName}: ${expr}`)
+      // Plain scalar, possibly continued on more-indented lines
+      let plain = rest.replace(/\s+#.*$/, '')
+      valueEnd = restOffset + plain.length
+      while (i + 1 < lines.length && isContentLine(lines[i + 1].text) && indentOf(lines[i + 1].text) > indent) {
+        i++
+        const cont = lines[i].text.trim().replace(/\s+#.*$/, '')
+        plain += ' ' + cont
+        valueEnd = lines[i].start + indentOf(lines[i].text) + cont.length
+      }
+      value = yamlPlainValue(plain)
     }
+    target[key] = value
+    if (anchorName) anchors.set(anchorName, value)
+    node.isContainer = isPlainObject(value) || Array.isArray(value)
+    node.valueStart = restOffset
+    node.valueEnd = valueEnd
+    node.end = lines[i].next
+    lastEnd = lines[i].next
   }
-  
-  return `t('${keyPath}', { ${paramEntries.join(', ')} })`
+  while (stack.length > 1) closeFrame()
+  return { data: root, nodes }
 }
 
-// ============================================================================
-// END ADVANCED STRING CONVERSION SYSTEM
-// ============================================================================
+/**
+ * Format a string as a YAML scalar, quoting only when a plain scalar would change meaning
+ */
+function formatYamlScalar(value: string): string {
+  const needsQuotes =
+    value === '' ||
+    /^[\s\-?:,[\]{}#&*!|>'"%@`]/.test(value) ||
+    /\s$/.test(value) ||
+    /:(\s|$)|\s#|[\x00-\x1f\x7f\u0085\u2028\u2029]/.test(value) ||
+    /^(true|false|yes|no|on|off|y|n|null|~)$/i.test(value) ||
+    /^[-+]?(\.?\d|0[xob])/.test(value) ||
+    /^[-+]?\.(inf|nan)$/i.test(value)
+  return needsQuotes ? JSON.stringify(value) : value
+}
 
-function isWsl(): boolean {
-  try {
-    if (process.platform !== 'linux') return false
-    const release = fs.readFileSync('/proc/sys/kernel/osrelease', 'utf-8')
-    return /microsoft/i.test(release)
-  } catch {
-    return false
+function emitYamlEntry(key: string, value: any, indent: number, unit: number, eol: string): string {
+  const pad = ' '.repeat(indent)
+  const k = formatYamlScalar(key)
+  if (isPlainObject(value)) {
+    const keys = Object.keys(value)
+    if (keys.length === 0) return `${pad}${k}: {}${eol}`
+    return `${pad}${k}:${eol}` + keys.map((c) => emitYamlEntry(c, value[c], indent + unit, unit, eol)).join('')
+  }
+  if (Array.isArray(value)) {
+    return `${pad}${k}: [${value.map((v) => (v === null ? '~' : formatYamlScalar(String(v)))).join(', ')}]${eol}`
   }
+  if (value === null || value === undefined) return `${pad}${k}:${eol}`
+  return `${pad}${k}: ${formatYamlScalar(String(value))}${eol}`
 }
 
-function findCliConfigPath(): string | null {
-  const candidates: string[] = []
+function emitYamlDocument(data: Record<string, any>): string {
+  return Object.keys(data)
+    .map((k) => emitYamlEntry(k, data[k], 0, 2, '\n'))
+    .join('')
+}
 
-  // 1) Primary: same location as CLI uses
-  const home = os.homedir()
-  candidates.push(path.join(home, '.stringer-cli.json'))
+/**
+ * Rewrite YAML text so it holds `data`, touching only entries that changed.
+ * Comments, blank lines, key order and quoting of everything else are left as they were;
+ * new keys are appended at the end of their parent block.
+ */
+function updateYamlLocaleText(text: string, data: Record<string, any>): string {
+  const { data: current, nodes } = parseYamlLocale(text)
+  const byPath = new Map(nodes.map((n) => [n.pathParts.join('\u0000'), n]))
+  const eol = text.includes('\r\n') ? '\r\n' : '\n'
+  const indents = nodes.map((n) => n.indent).filter((n) => n > 0)
+  const unit = indents.length ? Math.min(...indents) : 2
+  const edits: Array<{ start: number; end: number; text: string }> = []
+  // Appending at the end of a block: start on a fresh line when the block's last line has no newline
+  const insertAt = (offset: number, content: string) => {
+    const needsBreak = offset > 0 && text[offset - 1] !== '\n'
+    edits.push({ start: offset, end: offset, text: (needsBreak ? eol : '') + content })
+  }
+  const sameValue = (a: any, b: any) => JSON.stringify(a) === JSON.stringify(b)
 
-  // 2) Windows explicit USERPROFILE (sometimes differs from homedir in edge setups)
-  if (process.platform === 'win32') {
-    const userProfile = process.env.USERPROFILE
-    if (userProfile && userProfile !== home) {
-      candidates.push(path.join(userProfile, '.stringer-cli.json'))
+  const walk = (oldObj: Record<string, any>, newObj: Record<string, any>, pathParts: string[], parent: YamlKeyNode | null) => {
+    for (const key of Object.keys(oldObj)) {
+      const node = byPath.get([...pathParts, key].join('\u0000'))
+      if (!(key in newObj) && node) edits.push({ start: node.lineStart, end: node.end, text: '' })
     }
-    // Common OneDrive profile redirect (rarely needed, harmless to check)
-    const oneDrive = process.env.OneDrive || process.env.ONEDRIVE
-    if (oneDrive) candidates.push(path.join(oneDrive, '..', '.stringer-cli.json'))
+    const added: string[] = []
+    for (const key of Object.keys(newObj)) {
+      const node = byPath.get([...pathParts, key].join('\u0000'))
+      const oldValue = oldObj[key]
+      const newValue = newObj[key]
+      if (!(key in oldObj)) {
+        added.push(key)
+      } else if (sameValue(oldValue, newValue)) {
+        continue
+      } else if (!node) {
+        // Came from a merge key (<<: *anchor); an explicit key overrides it
+        added.push(key)
+      } else if (isPlainObject(oldValue) && isPlainObject(newValue) && node.valueStart === -1) {
+        walk(oldValue, newValue, [...pathParts, key], node)
+      } else if (typeof newValue === 'string' && node.valueStart !== -1 && !node.isContainer) {
+        const quote = text[node.valueStart]
+        const formatted =
+          quote === "'" && !/[\n\r]/.test(newValue)
+            ? `'${newValue.replace(/'/g, "''")}'`
+            : quote === '"'
+              ? JSON.stringify(newValue)
+              : formatYamlScalar(newValue)
+        edits.push({ start: node.valueStart, end: node.valueEnd, text: formatted })
+      } else {
+        edits.push({ start: node.lineStart, end: node.end, text: emitYamlEntry(key, newValue, node.indent, unit, eol) })
+      }
+    }
+    if (added.length === 0) return
+    const siblings = nodes.filter(
+      (n) => n.pathParts.length === pathParts.length + 1 && n.pathParts.slice(0, -1).join('\u0000') === pathParts.join('\u0000')
+    )
+    const indent = siblings.length ? siblings[0].indent : parent ? parent.indent + unit : 0
+    const content = added.map((k) => emitYamlEntry(k, newObj[k], indent, unit, eol)).join('')
+    insertAt(parent ? parent.end : text.length, content)
   }
+  walk(current, data, [], null)
+
+  // Stable sort keeps deeper inserts ahead of their parent's when both land at the same offset
+  edits.sort((a, b) => a.start - b.start)
+  let out = ''
+  let cursor = 0
+  for (const edit of edits) {
+    if (edit.start < cursor) continue
+    out += text.slice(cursor, edit.start) + edit.text
+    cursor = edit.end
+  }
+  return out + text.slice(cursor)
+}
 
-  // 3) WSL: look for Windows home mirror under /mnt/c/Users/*
-  if (isWsl()) {
-    const base = '/mnt/c/Users'
-    try {
-      const users = fs.readdirSync(base)
-      for (const u of users) {
-        candidates.push(path.join(base, u, '.stringer-cli.json'))
+// ---------- JavaScript/TypeScript modules (export default { ... }) ----------
+// Read statically, never executed. Strings, numbers, booleans, nested objects and arrays are understood;
+// entries that need evaluation (spreads, calls, computed keys) are skipped on read and left alone on write.
+interface ModuleKeyNode extends LocaleKeyLocation {
+  valueStart: number
+  valueEnd: number // end of the value expression, before any comma or trailing comment
+}
+
+interface ModuleObjectSpan {
+  open: number // offset of '{'
+  close: number // offset of '}'
+  lastEnd: number // end of the last entry's value; -1 for an empty object
+  trailingComma: boolean
+}
+
+function isModuleLocaleFile(filePath: string): boolean {
+  return /\.[jt]s$/i.test(filePath)
+}
+
+function skipJsTrivia(text: string, pos: number): number {
+  while (pos < text.length) {
+    if (/\s/.test(text[pos])) {
+      pos++
+    } else if (text.startsWith('//', pos)) {
+      const nl = text.indexOf('\n', pos)
+      pos = nl === -1 ? text.length : nl + 1
+    } else if (text.startsWith('/*', pos)) {
+      const close = text.indexOf('*/', pos + 2)
+      pos = close === -1 ? text.length : close + 2
+    } else {
+      break
+    }
+  }
+  return pos
+}
+
+/**
+ * Read a quoted string or template literal starting at `pos`.
+ * `value` is null for templates with ${} placeholders, which cannot be read statically.
+ */
+function readJsString(text: string, pos: number): { value: string | null; end: number } {
+  const quote = text[pos]
+  const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f', v: '\v', '0': '\0' }
+  let value = ''
+  let dynamic = false
+  let i = pos + 1
+  while (i < text.length && text[i] !== quote) {
+    const ch = text[i]
+    if (ch === '\\') {
+      const next = text[i + 1]
+      if (next === 'u') {
+        const m = text.slice(i + 2, i + 12).match(/^\{([0-9a-fA-F]+)\}|^([0-9a-fA-F]{4})/)
+        if (m) {
+          value += String.fromCodePoint(parseInt(m[1] || m[2], 16))
+          i += 2 + m[0].length
+          continue
+        }
+      } else if (next === 'x' && /^[0-9a-fA-F]{2}$/.test(text.slice(i + 2, i + 4))) {
+        value += String.fromCharCode(parseInt(text.slice(i + 2, i + 4), 16))
+        i += 4
+        continue
+      } else if (next === '\r' || next === '\n') {
+        // Line continuation
+        i += text.startsWith('\r\n', i + 1) ? 3 : 2
+        continue
       }
-    } catch {}
+      value += escapes[next] ?? next
+      i += 2
+      continue
+    }
+    if (quote === '`' && ch === '$' && text[i + 1] === '{') {
+      dynamic = true
+      i = skipJsBracketed(text, i + 1)
+      continue
+    }
+    if (quote !== '`' && ch === '\n') throw new Error(`Unterminated string at offset ${pos}`)
+    value += ch
+    i++
   }
+  if (i >= text.length) throw new Error(`Unterminated string at offset ${pos}`)
+  return { value: dynamic ? null : value, end: i + 1 }
+}
 
-  // 4) Optional override via setting (user can provide an absolute path)
-  try {
-    const cfg = vscode.workspace.getConfiguration('stringerHelper')
-    const override = cfg.get<string>('cliConfigPath')
-    if (override && path.isAbsolute(override)) candidates.unshift(override)
-  } catch {}
+// Offset just after the bracket that closes the one at `pos`
+function skipJsBracketed(text: string, pos: number): number {
+  const closers: Record<string, string> = { '{': '}', '[': ']', '(': ')' }
+  const stack: string[] = []
+  let i = pos
+  while (i < text.length) {
+    i = skipJsTrivia(text, i)
+    const ch = text[i]
+    if (ch === '"' || ch === "'" || ch === '`') {
+      i = readJsString(text, i).end
+      continue
+    }
+    if (closers[ch]) {
+      stack.push(closers[ch])
+    } else if (ch === stack[stack.length - 1]) {
+      stack.pop()
+      if (stack.length === 0) return i + 1
+    }
+    i++
+  }
+  throw new Error(`Unbalanced brackets at offset ${pos}`)
+}
 
-  for (const p of candidates) {
-    try {
-      if (p && fs.existsSync(p)) return p
-    } catch {}
+// Offset of the ',' '}' or ']' that ends the expression starting at `pos`
+function skipJsExpression(text: string, pos: number): number {
+  let i = pos
+  while (i < text.length) {
+    i = skipJsTrivia(text, i)
+    const ch = text[i]
+    if (ch === ',' || ch === '}' || ch === ']' || ch === undefined) return i
+    if (ch === '"' || ch === "'" || ch === '`') i = readJsString(text, i).end
+    else if (ch === '{' || ch === '[' || ch === '(') i = skipJsBracketed(text, i)
+    else i++
   }
-  return null
+  return i
 }
 
-function readAllCliConfigs(): any[] | null {
-  const configPath = findCliConfigPath()
-  try {
-    if (!configPath) return null
-    const content = fs.readFileSync(configPath, 'utf-8')
-    // Strip BOM for Windows compatibility
-    const parsed = JSON.parse(stripBOM(content))
-    return Array.isArray(parsed) ? parsed : [parsed]
-  } catch (_e) {
-    return null
+function parseJsValue(
+  text: string,
+  pos: number,
+  pathParts: string[] | null,
+  nodes: ModuleKeyNode[],
+  objects: Map<string, ModuleObjectSpan>
+): { value: any; end: number } {
+  const ch = text[pos]
+  let value: any
+  let end = pos
+  if (ch === '{') {
+    // Objects under skipped keys are parsed without being recorded
+    const parsed = pathParts ? parseJsObject(text, pos, pathParts, nodes, objects) : parseJsObject(text, pos, [], [], new Map())
+    value = parsed.value
+    end = parsed.end
+  } else if (ch === '[') {
+    const items: any[] = []
+    let i = skipJsTrivia(text, pos + 1)
+    while (text[i] !== ']') {
+      const item = parseJsValue(text, i, null, nodes, objects)
+      if (item.value === undefined) value = null
+      items.push(item.value)
+      i = skipJsTrivia(text, item.end)
+      if (text[i] === ',') i = skipJsTrivia(text, i + 1)
+      else if (text[i] !== ']') throw new Error(`Expected , or ] at offset ${i}`)
+    }
+    value = value === null ? undefined : items
+    end = i + 1
+  } else if (ch === '"' || ch === "'" || ch === '`') {
+    const str = readJsString(text, pos)
+    value = str.value ?? undefined
+    end = str.end
+  } else {
+    const m = text
+      .slice(pos, pos + 64)
+      .match(/^(?:(-?(?:0[xXoObB][\da-fA-F_]+|\d[\d_]*(?:\.\d+)?(?:[eE][+-]?\d+)?))|(true|false|null))(?![\w$])/)
+    if (m) {
+      value = m[1] !== undefined ? Number(m[1].replace(/_/g, '')) : m[2] === 'null' ? null : m[2] === 'true'
+      end = pos + m[0].length
+    }
   }
+  // Anything after the literal (`+ other`, a call, `as Type`) needs evaluation
+  const exprEnd = skipJsExpression(text, end)
+  if (skipJsTrivia(text, end) !== exprEnd || end === pos) {
+    value = undefined
+    end = exprEnd
+    while (end > pos && /\s/.test(text[end - 1])) end--
+  }
+  return { value, end }
 }
 
-function getProjectName(projectRoot: string): string {
-  try {
-    const pkgPath = path.join(projectRoot, 'package.json')
-    if (fs.existsSync(pkgPath)) {
-      const pkg = JSON.parse(fs.readFileSync(pkgPath, 'utf-8'))
-      return pkg.name || projectRoot
+function parseJsObject(
+  text: string,
+  open: number,
+  pathParts: string[],
+  nodes: ModuleKeyNode[],
+  objects: Map<string, ModuleObjectSpan>
+): { value: Record<string, any>; end: number } {
+  const data: Record<string, any> = {}
+  let lastEnd = -1
+  let trailingComma = false
+  let i = open + 1
+  for (;;) {
+    i = skipJsTrivia(text, i)
+    if (i >= text.length) throw new Error(`Unterminated object at offset ${open}`)
+    if (text[i] === '}') break
+    trailingComma = false
+    const keyStart = i
+    let key: string | null = null
+    let keyEnd = i
+    if (text.startsWith('...', i)) {
+      i = skipJsExpression(text, i + 3)
+    } else {
+      const ch = text[i]
+      if (ch === '"' || ch === "'") {
+        const str = readJsString(text, i)
+        key = str.value
+        keyEnd = str.end
+      } else if (ch === '[') {
+        keyEnd = skipJsBracketed(text, i)
+      } else {
+        const m = text.slice(i, i + 256).match(/^[A-Za-z_$][\w$]*|^\d+(?:\.\d+)?/)
+        if (!m) throw new Error(`Unexpected character '${ch}' at offset ${i}`)
+        key = /^\d/.test(m[0]) ? String(Number(m[0])) : m[0]
+        keyEnd = i + m[0].length
+      }
+      const colon = skipJsTrivia(text, keyEnd)
+      if (text[colon] === ':') {
+        const valueStart = skipJsTrivia(text, colon + 1)
+        const childPath = key !== null ? [...pathParts, key] : null
+        const nodeIndex = nodes.length
+        const parsed = parseJsValue(text, valueStart, childPath, nodes, objects)
+        if (childPath) {
+          const isContainer = text[valueStart] === '{' || text[valueStart] === '['
+          nodes.splice(nodeIndex, 0, { pathParts: childPath, keyStart, keyEnd, isContainer, valueStart, valueEnd: parsed.end })
+          if (parsed.value !== undefined) data[key!] = parsed.value
+        }
+        i = parsed.end
+      } else {
+        // Shorthand property or method
+        i = skipJsExpression(text, keyEnd)
+        while (i > keyEnd && /\s/.test(text[i - 1])) i--
+      }
     }
-  } catch (_e) {}
-  return projectRoot
+    lastEnd = i
+    i = skipJsTrivia(text, i)
+    if (text[i] === ',') {
+      trailingComma = true
+      i++
+    } else if (text[i] !== '}') {
+      throw new Error(`Expected , or } at offset ${i}`)
+    }
+  }
+  objects.set(pathParts.join('\u0000'), { open, close: i, lastEnd, trailingComma })
+  return { value: data, end: i + 1 }
 }
 
-function normalizePath(p?: string | null): string | null {
-  if (!p) return null
-  try {
-    return path.resolve(p).replace(/\\/g, '/')
-  } catch {
-    return p
+/**
+ * Offset of the object literal a module exports: `export default {...}`, `module.exports = {...}`,
+ * a wrapper call such as `defineI18nLocale(() => ({...}))`, or a variable exported by name
+ */
+function findModuleLocaleRoot(text: string): number {
+  const unwrap = (pos: number, depth: number): number => {
+    let p = skipJsTrivia(text, pos)
+    if (text[p] === '{') return p
+    const call = text.slice(p).match(/^[\w$.]+\s*(?:<[^>]*>)?\s*\(\s*/)
+    if (call) {
+      p += call[0].length
+      const arrow = text.slice(p).match(/^(?:async\s+)?(?:\([^()]*\)|[\w$]+)\s*(?::\s*[^=]+)?=>\s*(?:\(\s*|\{\s*return\s+)?/)
+      if (arrow) p += arrow[0].length
+      p = skipJsTrivia(text, p)
+      if (text[p] === '{') return p
+    }
+    const name = text.slice(p).match(/^([A-Za-z_$][\w$]*)\s*(?:;|$|\n)/)
+    if (name && depth < 3) {
+      const decl = new RegExp(`\\b(?:const|let|var)\\s+${name[1].replace(/\$/g, '\\$')}\\s*(?::[^=]+)?=\\s*`).exec(text)
+      if (decl) return unwrap(decl.index + decl[0].length, depth + 1)
+    }
+    return -1
   }
+  const exportRx = /\bexport\s+default\s+|\bmodule\.exports\s*=\s*/g
+  for (let m = exportRx.exec(text); m; m = exportRx.exec(text)) {
+    const root = unwrap(m.index + m[0].length, 0)
+    if (root !== -1) return root
+  }
+  throw new Error('No exported object literal found')
 }
 
-// Accept locale filenames like en.json, en-US.json, pt_BR.json, zh-Hant.json
-function isLocaleFileName(fileName: string): boolean {
-  if (!/\.json$/i.test(fileName)) return false
-  const name = fileName.replace(/\.json$/i, '')
-  // Start with 2-3 letters, optional region/script separated by '-' or '_',
-  // and allow one extra segment for variants. Excludes names like 'package'.
-  return /^[a-z]{2,3}([_-][a-zA-Z]{2,4})?([_-][A-Za-z0-9]+)?$/.test(name)
+function parseModuleLocale(text: string): {
+  data: Record<string, any>
+  nodes: ModuleKeyNode[]
+  objects: Map<string, ModuleObjectSpan>
+} {
+  const nodes: ModuleKeyNode[] = []
+  const objects = new Map<string, ModuleObjectSpan>()
+  const { value } = parseJsObject(text, findModuleLocaleRoot(text), [], nodes, objects)
+  return { data: value, nodes, objects }
 }
 
 /**
- * Strip UTF-8 BOM (Byte Order Mark) from string content.
- * Windows apps often save UTF-8 files with BOM which causes JSON.parse to fail.
+ * Whether a file writes non-ASCII characters as \uXXXX escapes (and in which hex case),
+ * or null when it writes them as they are
  */
-function stripBOM(content: string): string {
-  // UTF-8 BOM is EF BB BF, which appears as \uFEFF in JavaScript strings
-  if (content.charCodeAt(0) === 0xFEFF) {
-    return content.slice(1)
+function getUnicodeEscapeCase(text: string): 'lower' | 'upper' | null {
+  const escapes = text.match(/\\u[0-9a-fA-F]{4}/g)
+  if (!escapes || /[^\x00-\x7f]/.test(text)) return null
+  return escapes.some((e) => /[A-F]/.test(e)) ? 'upper' : 'lower'
+}
+
+function escapeNonAscii(text: string, hexCase: 'lower' | 'upper'): string {
+  return text.replace(/[^\x00-\x7f]/g, (ch) => {
+    const hex = ch.charCodeAt(0).toString(16).padStart(4, '0')
+    return '\\u' + (hexCase === 'upper' ? hex.toUpperCase() : hex)
+  })
+}
+
+// How strings and keys are written when editing an object literal in place, following the file
+interface JsLiteralStyle {
+  quote: string
+  quoteKeys: boolean // JSON keys are always quoted
+  escapeUnicode: 'lower' | 'upper' | null // see getUnicodeEscapeCase
+}
+
+function formatJsString(value: string, style: JsLiteralStyle): string {
+  const { quote } = style
+  let out: string
+  if (quote === '"') {
+    out = JSON.stringify(value)
+  } else {
+    const escaped = value
+      .replace(/\\/g, '\\\\')
+      .replace(/\r/g, '\\r')
+      .replace(/\n/g, '\\n')
+      .replace(/\u2028/g, '\\u2028')
+      .replace(/\u2029/g, '\\u2029')
+    out =
+      quote === '`'
+        ? '`' + escaped.replace(/`/g, '\\`').replace(/\$\{/g, '\\${') + '`'
+        : "'" + escaped.replace(/'/g, "\\'") + "'"
   }
-  return content
+  return style.escapeUnicode ? escapeNonAscii(out, style.escapeUnicode) : out
 }
 
-// ============================================================================
-// SMART LOCALES FOLDER DETECTION
-// Finds the actual locales folder even if user selects a parent directory
-// ============================================================================
+function formatJsKey(key: string, style: JsLiteralStyle): string {
+  if (!style.quoteKeys && /^[A-Za-z_$][\w$]*$/.test(key)) return key
+  return formatJsString(key, style.quote === '`' ? { ...style, quote: "'" } : style)
+}
 
-// Common folder names that contain locale files
-const LOCALE_FOLDER_NAMES = [
-  'locales',
-  'locale',
-  'lang',
-  'langs',
-  'languages',
-  'i18n',
-  'translations',
-  'messages'
-]
+function emitJsValue(value: any, indent: string, unit: string, eol: string, style: JsLiteralStyle, comma: boolean): string {
+  if (isPlainObject(value)) {
+    const keys = Object.keys(value)
+    if (keys.length === 0) return '{}'
+    const pad = indent + unit
+    const entries = keys.map((k) => `${pad}${formatJsKey(k, style)}: ${emitJsValue(value[k], pad, unit, eol, style, comma)}`)
+    return `{${eol}${entries.join(',' + eol)}${comma ? ',' : ''}${eol}${indent}}`
+  }
+  if (Array.isArray(value)) return `[${value.map((v) => emitJsValue(v, indent, unit, eol, style, comma)).join(', ')}]`
+  if (typeof value === 'string') return formatJsString(value, style)
+  return String(value)
+}
 
-// Common nested patterns to check (order matters - more specific first)
-const LOCALE_FOLDER_PATTERNS = [
-  // Direct folders
-  'locales',
-  'locale',
-  'lang',
-  'langs',
-  'languages',
-  'translations',
-  'messages',
-  // i18n subfolders
-  'i18n/locales',
-  'i18n/locale',
-  'i18n/lang',
-  'i18n/messages',
-  // src subfolders
-  'src/locales',
-  'src/locale',
-  'src/i18n',
-  'src/i18n/locales',
-  'src/lang',
-  'src/languages',
-  // app subfolders (common in Nuxt, Next, etc.)
-  'app/locales',
-  'app/i18n',
-  'app/i18n/locales',
-  'app/lang',
-  // public/assets
-  'public/locales',
-  'public/lang',
-  'assets/locales',
-  'assets/i18n',
-  'assets/lang',
-  // Other common patterns
-  'resources/lang',
-  'resources/locales',
-  'config/locales',
-  'lib/locales'
-]
+function emitModuleDocument(data: Record<string, any>): string {
+  return `export default ${emitJsValue(data, '', '  ', '\n', { quote: "'", quoteKeys: false, escapeUnicode: null }, true)}\n`
+}
+
+function getLineIndent(text: string, offset: number): string {
+  const lineStart = text.lastIndexOf('\n', offset - 1) + 1
+  return (text.slice(lineStart).match(/^[ \t]*/) || [''])[0]
+}
+
+// Locale modules (.ts / .js) or JSON locale files in one of the JSON dialects
+type ObjectLiteralFormat = 'module' | JsonDialect
+
+// The root object of a JSON locale file, parsed with the module parser to get key and value spans
+function parseJsonLocaleNodes(text: string): ReturnType<typeof parseModuleLocale> {
+  const root = skipJsTrivia(text, 0)
+  if (text[root] !== '{') throw new Error(`Expected an object at offset ${root}`)
+  const nodes: ModuleKeyNode[] = []
+  const objects = new Map<string, ModuleObjectSpan>()
+  const { value } = parseJsObject(text, root, [], nodes, objects)
+  return { data: value, nodes, objects }
+}
 
 /**
- * Check if a directory contains locale JSON files
+ * Rewrite a locale module or JSON file so its root object holds `data`, touching only entries that changed.
+ * Surrounding code, comments, indentation, quoting, escaping and the order of untouched entries stay as
+ * they were. New keys go next to their siblings: in key order when the object is sorted, otherwise last.
  */
-function containsLocaleFiles(dirPath: string): boolean {
-  try {
-    // Ensure absolute path for consistent checks
-    const checkPath = path.isAbsolute(dirPath) ? dirPath : path.resolve(dirPath)
-    
-    if (!fs.existsSync(checkPath)) {
-      return false
+function updateObjectLiteralText(text: string, data: Record<string, any>, format: ObjectLiteralFormat): string {
+  // Insert in a second pass so new keys land after the entries that remain (e.g. when renaming the last key)
+  return applyObjectLiteralEdits(applyObjectLiteralEdits(text, data, false, format), data, true, format)
+}
+
+function applyObjectLiteralEdits(text: string, data: Record<string, any>, insert: boolean, format: ObjectLiteralFormat): string {
+  const { data: current, nodes, objects } = format === 'module' ? parseModuleLocale(text) : parseJsonLocaleNodes(text)
+  const byPath = new Map(nodes.map((n) => [n.pathParts.join('\u0000'), n]))
+  const eol = text.includes('\r\n') ? '\r\n' : '\n'
+  const firstString = nodes.find((n) => /["'`]/.test(text[n.valueStart]))
+  const firstEntry = nodes.find((n) => n.pathParts.length === 1)
+  const style: JsLiteralStyle =
+    format === 'module' || format === 'json5'
+      ? {
+          quote: firstString ? text[firstString.valueStart] : format === 'module' ? "'" : '"',
+          quoteKeys: format === 'json5' && (!firstEntry || /["']/.test(text[firstEntry.keyStart])),
+          escapeUnicode: null
+        }
+      : { quote: '"', quoteKeys: true, escapeUnicode: getUnicodeEscapeCase(text) }
+  const root = objects.get('')!
+  const rootIndent = getLineIndent(text, root.open)
+  const entryIndent = firstEntry ? getLineIndent(text, firstEntry.keyStart) : ''
+  const unit = entryIndent.length > rootIndent.length ? entryIndent.slice(rootIndent.length) : '  '
+  const trailingStyle = format !== 'json' && [...objects.values()].some((o) => o.trailingComma)
+  const edits: Array<{ start: number; end: number; text: string }> = []
+  const sameValue = (a: any, b: any) => JSON.stringify(a) === JSON.stringify(b)
+  const isOwnLine = (offset: number) => text.slice(text.lastIndexOf('\n', offset - 1) + 1, offset).trim() === ''
+
+  // An entry with its comma and a comment after it, and its whole line when nothing else is on it
+  const removeEntry = (node: ModuleKeyNode) => {
+    const lineStart = text.lastIndexOf('\n', node.keyStart - 1) + 1
+    let end = node.valueEnd
+    while (end < text.length && /[ \t]/.test(text[end])) end++
+    if (text[end] === ',') end++
+    const lineEnd = text.indexOf('\n', end)
+    const rest = text.slice(end, lineEnd === -1 ? text.length : lineEnd).replace(/\r$/, '')
+    if (/^\s*(?:\/\/.*|\/\*(?:(?!\*\/).)*\*\/\s*)$/.test(rest)) end += rest.length
+    if (isOwnLine(node.keyStart) && text.slice(end, lineEnd === -1 ? text.length : lineEnd).trim() === '') {
+      edits.push({ start: lineStart, end: lineEnd === -1 ? text.length : lineEnd + 1, text: '' })
+    } else {
+      let start = node.keyStart
+      if (text.slice(end, lineEnd === -1 ? text.length : lineEnd).trim() === '') {
+        while (start > lineStart && /[ \t]/.test(text[start - 1])) start--
+      }
+      edits.push({ start, end, text: '' })
     }
-    if (!fs.statSync(checkPath).isDirectory()) {
-      return false
+  }
+
+  const walk = (oldObj: Record<string, any>, newObj: Record<string, any>, pathParts: string[]) => {
+    for (const key of Object.keys(oldObj)) {
+      const node = byPath.get([...pathParts, key].join('\u0000'))
+      if (!(key in newObj) && node) removeEntry(node)
     }
-    const files = fs.readdirSync(checkPath)
-    const localeFiles = files.filter(f => isLocaleFileName(f))
-    if (localeFiles.length > 0) {
-      debugLog(`containsLocaleFiles: ${checkPath} has ${localeFiles.length} locale files: ${localeFiles.join(', ')}`)
+    // Dropping the last entries leaves a comma after the new last one, which plain JSON does not allow
+    const span = objects.get(pathParts.join('\u0000'))
+    const children = nodes.filter(
+      (n) => n.pathParts.length === pathParts.length + 1 && n.pathParts.slice(0, -1).join('\u0000') === pathParts.join('\u0000')
+    )
+    const kept = children.filter((n) => n.pathParts[n.pathParts.length - 1] in newObj)
+    const lastKept = kept[kept.length - 1]
+    if (span && lastKept && lastKept !== children[children.length - 1] && (format === 'json' || !span.trailingComma)) {
+      const comma = skipJsTrivia(text, lastKept.valueEnd)
+      if (text[comma] === ',') edits.push({ start: comma, end: comma + 1, text: '' })
     }
-    return localeFiles.length >= 1 // At least 1 locale file
-  } catch (e) {
-    return false
+    let added: string[] = []
+    for (const key of Object.keys(newObj)) {
+      const node = byPath.get([...pathParts, key].join('\u0000'))
+      const newValue = newObj[key]
+      if (!node) {
+        added.push(key)
+      } else if (key in oldObj && sameValue(oldObj[key], newValue)) {
+        continue
+      } else if (key in oldObj && isPlainObject(oldObj[key]) && isPlainObject(newValue) && text[node.valueStart] === '{') {
+        walk(oldObj[key], newValue, [...pathParts, key])
+      } else {
+        const valueStyle = /["'`]/.test(text[node.valueStart]) ? { ...style, quote: text[node.valueStart] } : style
+        const indent = getLineIndent(text, node.keyStart)
+        edits.push({
+          start: node.valueStart,
+          end: node.valueEnd,
+          text:
+            typeof newValue === 'string'
+              ? formatJsString(newValue, valueStyle)
+              : emitJsValue(newValue, indent, unit, eol, style, trailingStyle)
+        })
+      }
+    }
+    if (added.length === 0 || !insert || !span) return
+    const siblings = children
+    const closeIndent = getLineIndent(text, span.open)
+    const indent = siblings.length > 0 ? getLineIndent(text, siblings[0].keyStart) : closeIndent + unit
+    const formatEntry = (k: string) => `${indent}${formatJsKey(k, style)}: ${emitJsValue(newObj[k], indent, unit, eol, style, trailingStyle)}`
+    if (span.lastEnd === -1) {
+      const inner = text.slice(span.open + 1, span.close)
+      const content = eol + added.map(formatEntry).join(',' + eol) + (trailingStyle ? ',' : '') + eol + closeIndent
+      if (inner.trim() === '') edits.push({ start: span.open + 1, end: span.close, text: content })
+      else edits.push({ start: span.close, end: span.close, text: content })
+      return
+    }
+    if (!text.slice(span.open, span.close).includes('\n')) {
+      // Objects written on one line stay on one line
+      const inline = added.map((k) => `${formatJsKey(k, style)}: ${emitJsValue(newObj[k], '', '', ' ', style, false)}`)
+      edits.push({ start: span.lastEnd, end: span.lastEnd, text: ', ' + inline.join(', ') })
+      return
+    }
+    // In an object kept in key order, each new key goes in front of the first sibling that sorts after it
+    const siblingKeys = siblings.map((n) => n.pathParts[n.pathParts.length - 1])
+    const sorted = siblingKeys.length > 2 && siblingKeys.every((k, i) => i === 0 || siblingKeys[i - 1].localeCompare(k) <= 0)
+    if (sorted && siblings.every((n) => isOwnLine(n.keyStart))) {
+      added = [...added].sort((a, b) => a.localeCompare(b))
+      const last: string[] = []
+      for (const k of added) {
+        const next = siblings.find((n) => n.pathParts[n.pathParts.length - 1].localeCompare(k) > 0)
+        if (!next) {
+          last.push(k)
+          continue
+        }
+        const lineStart = text.lastIndexOf('\n', next.keyStart - 1) + 1
+        edits.push({ start: lineStart, end: lineStart, text: formatEntry(k) + ',' + eol })
+      }
+      added = last
+      if (added.length === 0) return
+    }
+    let pos = span.lastEnd
+    if (span.trailingComma) {
+      pos = text.indexOf(',', span.lastEnd) + 1
+    } else {
+      edits.push({ start: span.lastEnd, end: span.lastEnd, text: ',' })
+    }
+    // Keep a comment that ends the last entry's line on that line
+    const lineEnd = text.indexOf('\n', pos)
+    if (lineEnd !== -1 && lineEnd < span.close && /^[ \t]*(\/\/.*|\/\*.*\*\/[ \t]*)?\r?$/.test(text.slice(pos, lineEnd))) {
+      pos = text[lineEnd - 1] === '\r' ? lineEnd - 1 : lineEnd
+    }
+    edits.push({ start: pos, end: pos, text: eol + added.map(formatEntry).join(',' + eol) + (span.trailingComma ? ',' : '') })
   }
+  walk(current, data, [])
+
+  edits.sort((a, b) => a.start - b.start)
+  let out = ''
+  let cursor = 0
+  for (const edit of edits) {
+    if (edit.start < cursor) continue
+    out += text.slice(cursor, edit.start) + edit.text
+    cursor = edit.end
+  }
+  return out + text.slice(cursor)
 }
 
-/**
- * Check known locale patterns at a single directory level (no recursion into children).
- * This is a focused check - only looks at the directory itself and known patterns.
- */
-function checkLocalePatterns(dir: string): string | null {
-  const searchDir = path.isAbsolute(dir) ? dir : path.resolve(dir)
-  
-  // 1. Check if this directory itself contains locale files
-  if (containsLocaleFiles(searchDir)) {
-    debugLog(`checkLocalePatterns: found locale files directly in ${searchDir}`)
-    return searchDir
+// ---------- Gettext catalogs (fr.po, messages.pot) ----------
+// Each msgid is a (flat) key and its msgstr the value. Plural forms (msgid_plural) are joined
+// with " | ". Untranslated and fuzzy entries are left out, so they show up as missing.
+interface PoEntry {
+  key: string
+  value: string | null // null when untranslated or fuzzy
+  plural: boolean
+  start: number // first line of the entry, comments included
+  end: number // offset just after its last line
+  keyStart: number // msgid string, quotes included
+  keyEnd: number
+  msgstrStart: number // first msgstr line
+  msgstrEnd: number // end of the last msgstr line (before the line break)
+  flagsLine: { start: number; end: number; flags: string[] } | null
+}
+
+// Locale data read from a gettext catalog: flat, keyed by msgid
+const gettextLocaleData = new WeakSet<object>()
+
+function isPoLocaleFile(filePath: string): boolean {
+  return /\.pot?$/i.test(filePath)
+}
+
+function unescapePoString(raw: string): string {
+  const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', a: '\x07', b: '\b', f: '\f', v: '\v' }
+  return raw.replace(/\\([0-7]{1,3}|x[0-9a-fA-F]{1,2}|.)/g, (_m, e: string) => {
+    if (/^[0-7]/.test(e)) return String.fromCharCode(parseInt(e, 8))
+    if (e[0] === 'x' && e.length > 1) return String.fromCharCode(parseInt(e.slice(1), 16))
+    return escapes[e] ?? e
+  })
+}
+
+function formatPoString(value: string): string {
+  return (
+    '"' +
+    value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\t/g, '\\t').replace(/\r/g, '\\r').replace(/\n/g, '\\n') +
+    '"'
+  )
+}
+
+// A msgstr (or msgstr[n]) field; multi-line values are split after each line break, as gettext tools do
+function formatPoField(keyword: string, value: string, eol: string): string {
+  const lines = value.split(/(?<=\n)/)
+  if (lines.length < 2) return `${keyword} ${formatPoString(value)}`
+  return `${keyword} ""` + lines.map((line) => eol + formatPoString(line)).join('')
+}
+
+function parsePoCatalog(text: string): PoEntry[] {
+  const entries: PoEntry[] = []
+  const lineRx = /[^\r\n]*(\r?\n|$)/g
+  type Field = { name: string; value: string; start: number; end: number; valueStart: number; valueEnd: number }
+  let fields: Field[] = []
+  let flagsLine: PoEntry['flagsLine'] = null
+  let start = -1
+  let end = 0
+  let obsolete = false
+
+  const flush = () => {
+    if (start !== -1 && !obsolete) {
+      const get = (name: string) => fields.find((f) => f.name === name)
+      const msgid = get('msgid')
+      const msgctxt = get('msgctxt')
+      const msgstrs = fields.filter((f) => /^msgstr(\[\d+\])?$/.test(f.name))
+      if (msgid && msgid.value !== '' && msgstrs.length > 0) {
+        const values = msgstrs.map((f) => f.value)
+        const fuzzy = !!flagsLine && flagsLine.flags.includes('fuzzy')
+        entries.push({
+          key: msgctxt ? `${msgid.value}_${msgctxt.value}` : msgid.value,
+          value: fuzzy || values.some((v) => v === '') ? null : values.join(' | '),
+          plural: !!get('msgid_plural'),
+          start,
+          end,
+          keyStart: msgid.valueStart,
+          keyEnd: msgid.valueEnd,
+          msgstrStart: msgstrs[0].start,
+          msgstrEnd: msgstrs[msgstrs.length - 1].end,
+          flagsLine
+        })
+      }
+    }
+    fields = []
+    flagsLine = null
+    start = -1
+    obsolete = false
   }
 
-  // 2. Check known patterns as direct children (NO recursive descent)
-  for (const pattern of LOCALE_FOLDER_PATTERNS) {
-    const candidate = path.join(searchDir, pattern)
-    if (containsLocaleFiles(candidate)) {
-      debugLog(`checkLocalePatterns: found locale files at pattern ${pattern}: ${candidate}`)
-      return candidate
+  for (let m = lineRx.exec(text); m && m.index < text.length; m = lineRx.exec(text)) {
+    const lineStart = m.index
+    const line = m[0].replace(/\r?\n$/, '')
+    const lineEnd = lineStart + line.length
+    const trimmed = line.trim()
+    if (trimmed === '') {
+      flush()
+      continue
+    }
+    if (start === -1) start = lineStart
+    end = lineStart + m[0].length
+    if (trimmed.startsWith('#~')) {
+      obsolete = true
+    } else if (trimmed.startsWith('#,')) {
+      flagsLine = { start: lineStart, end: lineEnd, flags: trimmed.slice(2).split(',').map((f) => f.trim()).filter(Boolean) }
+    } else if (trimmed.startsWith('#')) {
+      // Translator, extracted and reference comments
+    } else {
+      const field = line.match(/^\s*(msgctxt|msgid_plural|msgid|msgstr(?:\[\d+\])?)\s+"((?:[^"\\]|\\.)*)"\s*$/)
+      const continuation = line.match(/^\s*"((?:[^"\\]|\\.)*)"\s*$/)
+      if (field) {
+        // A new msgctxt/msgid after msgstr lines starts the next entry even without a blank line
+        if ((field[1] === 'msgctxt' || field[1] === 'msgid') && fields.some((f) => f.name.startsWith('msgstr'))) {
+          const entryEnd = end
+          end = lineStart
+          flush()
+          start = lineStart
+          end = entryEnd
+        }
+        const valueStart = lineStart + line.indexOf('"')
+        fields.push({ name: field[1], value: unescapePoString(field[2]), start: lineStart, end: lineEnd, valueStart, valueEnd: lineEnd - (line.length - line.trimEnd().length) })
+      } else if (continuation && fields.length > 0) {
+        const last = fields[fields.length - 1]
+        last.value += unescapePoString(continuation[1])
+        last.end = lineEnd
+      } else {
+        throw new Error(`PO line ${(text.slice(0, lineStart).match(/\n/g) || []).length + 1}: unexpected content`)
+      }
     }
   }
+  flush()
+  return entries
+}
+
+function poCatalogData(entries: PoEntry[]): Record<string, any> {
+  const data: Record<string, any> = {}
+  for (const entry of entries) {
+    if (entry.value !== null) data[entry.key] = entry.value
+  }
+  return data
+}
 
-  return null
+function emitPoEntry(key: string, value: string, eol: string): string {
+  return `msgid ${formatPoString(key)}${eol}${formatPoField('msgstr', value, eol)}${eol}`
+}
+
+function emitPoDocument(data: Record<string, any>): string {
+  const header = `msgid ""\nmsgstr ""\n"Content-Type: text/plain; charset=UTF-8\\n"\n`
+  const flat = toFlatLocaleData(data)
+  return [header, ...Object.keys(flat).map((k) => emitPoEntry(k, String(flat[k] ?? ''), '\n'))].join('\n')
 }
 
 /**
- * Find the locales folder by walking UP from a file toward the workspace root.
- * Only checks known patterns at each level - does NOT recursively search into all subdirectories.
- * 
- * @param filePath - The file being edited
- * @param workspaceRoot - The workspace root (search stops here)
+ * Rewrite a catalog so it holds `data`, touching only entries that changed.
+ * Comments, references and untouched entries stay as they were; new entries are appended.
+ * Filling in an untranslated or fuzzy entry updates it in place and clears its fuzzy flag.
  */
-function findLocalesFolderFromFile(filePath: string, workspaceRoot: string): string | null {
-  const absoluteFilePath = path.isAbsolute(filePath) ? filePath : path.resolve(filePath)
-  const absoluteWorkspaceRoot = path.isAbsolute(workspaceRoot) ? workspaceRoot : path.resolve(workspaceRoot)
-  
-  debugLog(`findLocalesFolderFromFile: starting from file=${absoluteFilePath}`)
-  debugLog(`findLocalesFolderFromFile: workspace root=${absoluteWorkspaceRoot}`)
-  
-  let currentDir = path.dirname(absoluteFilePath)
-  let iterations = 0
-  const maxIterations = 20 // Safety limit
-  
-  // Walk UP from the file's directory toward the workspace root
-  while (currentDir && iterations < maxIterations) {
-    iterations++
-    debugLog(`findLocalesFolderFromFile: checking level ${iterations}: ${currentDir}`)
-    
-    // Check known locale patterns at this level
-    const found = checkLocalePatterns(currentDir)
-    if (found) {
-      debugLog(`findLocalesFolderFromFile: found locales at ${found}`)
-      return found
+function updatePoCatalogText(text: string, data: Record<string, any>): string {
+  const entries = parsePoCatalog(text)
+  const current = poCatalogData(entries)
+  const flat = toFlatLocaleData(data)
+  const byKey = new Map(entries.map((e) => [e.key, e]))
+  const eol = text.includes('\r\n') ? '\r\n' : '\n'
+  const edits: Array<{ start: number; end: number; text: string }> = []
+
+  for (const key of Object.keys(current)) {
+    const entry = byKey.get(key)!
+    if (!(key in flat)) {
+      // Drop the entry with the blank line that separates it from its neighbour
+      if (text.slice(entry.end).trim() === '') {
+        edits.push({ start: text.slice(0, entry.start).trimEnd().length, end: text.length, text: eol })
+        continue
+      }
+      let end = entry.end
+      const blank = text.slice(end).match(/^[ \t]*\r?\n/)
+      if (blank) end += blank[0].length
+      edits.push({ start: entry.start, end, text: '' })
     }
-    
-    // Stop if we've reached or passed the workspace root
-    const normalizedCurrent = normalizePathForComparison(currentDir)
-    const normalizedRoot = normalizePathForComparison(absoluteWorkspaceRoot)
-    if (normalizedCurrent === normalizedRoot || 
-        !normalizedCurrent.startsWith(normalizedRoot + path.sep) && normalizedCurrent !== normalizedRoot) {
-      debugLog(`findLocalesFolderFromFile: reached workspace root, stopping`)
-      break
+  }
+  const added: string[] = []
+  for (const key of Object.keys(flat)) {
+    const value = String(flat[key] ?? '')
+    const entry = byKey.get(key)
+    if (!entry) {
+      added.push(key)
+      continue
     }
-    
-    // Move up one directory
-    const parent = path.dirname(currentDir)
-    if (parent === currentDir) {
-      debugLog(`findLocalesFolderFromFile: reached filesystem root, stopping`)
-      break
+    if (entry.value === value) continue
+    const forms = entry.plural ? value.split(' | ') : [value]
+    const fields = forms.map((form, i) => formatPoField(entry.plural ? `msgstr[${i}]` : 'msgstr', form, eol))
+    edits.push({ start: entry.msgstrStart, end: entry.msgstrEnd, text: fields.join(eol) })
+    if (entry.flagsLine && entry.flagsLine.flags.includes('fuzzy') && value !== '') {
+      const flags = entry.flagsLine.flags.filter((f) => f !== 'fuzzy')
+      const lineEnd = text.indexOf('\n', entry.flagsLine.end)
+      edits.push(
+        flags.length > 0
+          ? { start: entry.flagsLine.start, end: entry.flagsLine.end, text: `#, ${flags.join(', ')}` }
+          : { start: entry.flagsLine.start, end: lineEnd === -1 ? text.length : lineEnd + 1, text: '' }
+      )
     }
-    currentDir = parent
   }
-  
-  // Final check: check the workspace root itself
-  const rootFound = checkLocalePatterns(absoluteWorkspaceRoot)
-  if (rootFound) {
-    debugLog(`findLocalesFolderFromFile: found locales at workspace root: ${rootFound}`)
-    return rootFound
+
+  edits.sort((a, b) => a.start - b.start)
+  let out = ''
+  let cursor = 0
+  for (const edit of edits) {
+    if (edit.start < cursor) continue
+    out += text.slice(cursor, edit.start) + edit.text
+    cursor = edit.end
   }
-  
-  debugLog(`findLocalesFolderFromFile: no locales folder found`)
-  return null
+  out += text.slice(cursor)
+  if (added.length === 0) return out
+  const body = out.trimEnd()
+  const content = added.map((k) => emitPoEntry(k, String(flat[k] ?? ''), eol)).join(eol)
+  return body ? body + eol + eol + content : content
 }
 
-/**
- * Legacy function for backward compatibility - uses the new focused search.
- */
-function findLocalesFolder(startDir: string, _maxDepth: number = 2): string | null {
-  // Just check patterns at this directory - no recursive search
-  return checkLocalePatterns(startDir)
+// The template (.pot) next to a catalog, which lists every msgid with an empty msgstr
+function getPoTemplatePath(dirPath: string): string | null {
+  try {
+    const template = fs.readdirSync(dirPath).find((f) => /\.pot$/i.test(f))
+    return template ? path.join(dirPath, template) : null
+  } catch {
+    return null
+  }
+}
+
+// ============================================================================
+// LOCALE FILE KEY LOCATION
+// Maps dotted key paths to exact positions inside locale files (and back)
+// ============================================================================
+
+interface LocaleKeyLocation {
+  pathParts: string[]
+  keyStart: number // offset of the opening quote of the key
+  keyEnd: number // offset just after the closing quote of the key
+  isContainer: boolean // value is an object or array
 }
 
 /**
- * Find locales folder for an orphan file (opened without a workspace folder).
- * Walks UP from the file a limited number of levels, and at each level also
- * checks immediate child directories for locale patterns.
- * 
- * @param filePath - The orphan file being edited
- * @param maxLevelsUp - Maximum levels to walk up from the file (default: 5)
+ * Walk every object key in a JSON document, reporting its full path and position.
+ * Comments, single-quoted strings and unquoted keys (JSONC / JSON5) are understood too.
+ * The visitor can return true to stop scanning early.
  */
-function findLocalesFolderForOrphanFile(filePath: string, maxLevelsUp: number = 5): string | null {
-  const absoluteFilePath = path.isAbsolute(filePath) ? filePath : path.resolve(filePath)
-  
-  debugLog(`findLocalesFolderForOrphanFile: starting from file=${absoluteFilePath}, maxLevelsUp=${maxLevelsUp}`)
-  
-  let currentDir = path.dirname(absoluteFilePath)
-  let level = 0
-  
-  while (currentDir && level < maxLevelsUp) {
-    level++
-    debugLog(`findLocalesFolderForOrphanFile: checking level ${level}: ${currentDir}`)
-    
-    // 1. Check known locale patterns at this level
-    const found = checkLocalePatterns(currentDir)
-    if (found) {
-      debugLog(`findLocalesFolderForOrphanFile: found locales at ${found}`)
-      return found
+function scanJsonKeys(text: string, visit: (loc: LocaleKeyLocation) => boolean | void): void {
+  // Stack of open containers; `key` is the property that holds the container
+  const stack: Array<{ type: '{' | '['; key: string | null }> = []
+  let pendingKey: string | null = null
+  const identifierRx = /[A-Za-z_$][\w$]*/y
+  let i = 0
+  while (i < text.length) {
+    const ch = text[i]
+    if (ch === '/' && (text[i + 1] === '/' || text[i + 1] === '*')) {
+      const end = text[i + 1] === '/' ? text.indexOf('\n', i) : text.indexOf('*/', i + 2)
+      i = end === -1 ? text.length : end + (text[i + 1] === '/' ? 0 : 2)
+      continue
     }
-    
-    // 2. Check immediate child directories for locale patterns (only 1 level deep)
-    try {
-      const entries = fs.readdirSync(currentDir, { withFileTypes: true })
-      for (const entry of entries) {
-        if (!entry.isDirectory()) continue
-        // Skip node_modules, hidden folders, and common non-project folders
-        if (entry.name.startsWith('.') || 
-            entry.name === 'node_modules' || 
-            entry.name === 'dist' ||
-            entry.name === 'build' ||
-            entry.name === 'coverage') continue
-        
-        const childPath = path.join(currentDir, entry.name)
-        const childFound = checkLocalePatterns(childPath)
-        if (childFound) {
-          debugLog(`findLocalesFolderForOrphanFile: found locales in child ${childFound}`)
-          return childFound
+    identifierRx.lastIndex = i
+    const identifier = /[A-Za-z_$]/.test(ch) && !/[\w$]/.test(text[i - 1] || '') ? identifierRx.exec(text) : null
+    if (ch === '"' || ch === "'" || identifier) {
+      let j = i + 1
+      if (identifier) {
+        j = i + identifier[0].length - 1
+      } else {
+        while (j < text.length && text[j] !== ch) {
+          if (text[j] === '\\') j++
+          j++
         }
       }
-    } catch {
-      // Ignore errors reading directories
+      const raw = text.slice(i, j + 1)
+      let k = j + 1
+      while (k < text.length && /\s/.test(text[k])) k++
+      const top = stack[stack.length - 1]
+      if (text[k] === ':' && top && top.type === '{') {
+        let key: string
+        try {
+          key = identifier ? raw : parseJsonLocale(raw, 'json5')
+        } catch {
+          key = raw.slice(1, -1)
+        }
+        let v = k + 1
+        while (v < text.length && /\s/.test(text[v])) v++
+        const parentPath = stack.slice(1).map((s) => s.key)
+        if (!parentPath.includes(null)) {
+          const stop = visit({
+            pathParts: [...(parentPath as string[]), key],
+            keyStart: i,
+            keyEnd: j + 1,
+            isContainer: text[v] === '{' || text[v] === '['
+          })
+          if (stop) return
+        }
+        pendingKey = key
+        i = k + 1
+        continue
+      }
+      i = j + 1
+      continue
     }
-    
-    // Move up one directory
-    const parent = path.dirname(currentDir)
-    if (parent === currentDir) {
-      debugLog(`findLocalesFolderForOrphanFile: reached filesystem root, stopping`)
-      break
+    if (ch === '{' || ch === '[') {
+      stack.push({ type: ch, key: pendingKey })
+      pendingKey = null
+    } else if (ch === '}' || ch === ']') {
+      stack.pop()
+      pendingKey = null
+    } else if (ch === ',') {
+      pendingKey = null
     }
-    currentDir = parent
+    i++
   }
-  
-  debugLog(`findLocalesFolderForOrphanFile: no locales folder found after ${level} levels`)
-  return null
 }
 
 /**
- * Given a selected folder, find the best locales folder.
- * Returns the selected folder if it contains locale files,
- * otherwise searches for a suitable child folder.
+ * Find the location of the key for an exact path inside a locale file
  */
-function resolveLocalesFolder(selectedFolder: string): string {
-  const found = findLocalesFolder(selectedFolder, 3)
-  return found || selectedFolder
+function findLocaleKey(filePath: string, text: string, pathParts: string[]): LocaleKeyLocation | null {
+  const target = pathParts.join('\u0000')
+  const dotted = pathParts.join('.')
+  let found: LocaleKeyLocation | null = null
+  let flatMatch: LocaleKeyLocation | null = null
+  scanLocaleKeys(filePath, text, (loc) => {
+    if (loc.pathParts.join('\u0000') === target) {
+      found = loc
+      return true
+    }
+    // Flat dot-notation files hold the whole path in one key
+    if (!flatMatch && loc.pathParts.join('.') === dotted) flatMatch = loc
+  })
+  return found || flatMatch
 }
 
-// ============================================================================
-// MULTI-PROJECT / MONOREPO SUPPORT
-// Finds the nearest locales folder relative to a given file
-// ============================================================================
+/**
+ * Find the key on the cursor line of a locale file (cursor on the key or its value)
+ */
+function getLocaleKeyAtOffset(filePath: string, text: string, offset: number): LocaleKeyLocation | null {
+  let found: LocaleKeyLocation | null = null
+  scanLocaleKeys(filePath, text, (loc) => {
+    if (loc.keyStart > offset) return true
+    found = loc
+  })
+  if (!found) return null
+  const loc = found as LocaleKeyLocation
+  // Only accept a key that starts on the cursor line
+  return text.slice(loc.keyStart, offset).includes('\n') ? null : loc
+}
 
-// Cache of discovered locales folders per workspace root
-const localesFolderCache: Map<string, string | null> = new Map()
+/**
+ * Convert an offset in raw file content into a VS Code position (for files that are not open)
+ */
+function offsetToPosition(text: string, offset: number): vscode.Position {
+  const before = text.slice(0, offset)
+  const line = (before.match(/\n/g) || []).length
+  const character = offset - (before.lastIndexOf('\n') + 1)
+  return new vscode.Position(line, character)
+}
 
 /**
- * Find the nearest locales folder for a given file by walking up the directory tree.
- * Uses a cache keyed by workspace root to avoid repeated file system lookups.
- * IMPORTANT: Only walks UP from the file, never searches into unrelated directories.
- * 
- * For orphan files (no workspace root), uses a limited upward search with child checking.
+ * Resolve the locale file (or namespaced language folder) for a language inside a locales folder,
+ * trying the same case/separator variants as the locale loaders (en_US -> en-us -> en)
  */
-function findNearestLocalesFolder(filePath: string, workspaceRoot?: string): string | null {
-  debugLog(`findNearestLocalesFolder: filePath=${filePath}, workspaceRoot=${workspaceRoot}`)
-  
-  // If no workspace root, use orphan file search (limited scope)
-  if (!workspaceRoot) {
-    debugLog(`findNearestLocalesFolder: no workspace root, using orphan file search`)
-    return findLocalesFolderForOrphanFile(filePath, 5)
-  }
-  
-  // Normalize workspace root for cache lookup (Windows case-insensitive)
-  const normalizedWorkspaceRoot = normalizePathForComparison(workspaceRoot)
-  
-  // Check cache first
-  if (localesFolderCache.has(normalizedWorkspaceRoot)) {
-    const cached = localesFolderCache.get(normalizedWorkspaceRoot) || null
-    debugLog(`findNearestLocalesFolder: returning cached value: ${cached}`)
-    return cached
-  }
-  
-  // Use the focused search that walks UP from file to workspace root
-  const found = findLocalesFolderFromFile(filePath, workspaceRoot)
-  
-  // Cache the result (including null to avoid repeated searches)
-  if (found) {
-    localesFolderCache.set(normalizedWorkspaceRoot, found)
+function getLocalePath(localesDir: string, lang: string): string | null {
+  const variants = new Set<string>()
+  const low = lang.toLowerCase()
+  const dash = low.replace(/_/g, '-')
+  variants.add(lang)
+  variants.add(low)
+  variants.add(dash)
+  if (dash.includes('-')) variants.add(dash.split('-')[0])
+  for (const variant of variants) {
+    for (const ext of LOCALE_FILE_EXTENSIONS) {
+      const filePath = path.join(localesDir, `${variant}${ext}`)
+      try {
+        if (fs.existsSync(filePath) && isLocaleFileContent(filePath)) return filePath
+      } catch {}
+    }
+    const dirPath = path.join(localesDir, variant)
+    if (isLocaleLanguageDir(dirPath)) return dirPath
   }
-  
-  return found
+  return null
 }
 
 /**
- * Find locales folder specifically for a workspace root.
- * Only checks known patterns at the workspace root - does NOT search into all subdirectories.
+ * File name shown to users for a language (en.json, en.yml, ...)
  */
-function findLocalesFolderForWorkspace(workspaceRoot: string): string | null {
-  debugLog(`findLocalesFolderForWorkspace: workspaceRoot=${workspaceRoot}`)
-  // Normalize workspace root for cache lookup (Windows case-insensitive)
-  const normalizedWorkspaceRoot = normalizePathForComparison(workspaceRoot)
-  
-  // Check cache first
-  const cached = localesFolderCache.get(normalizedWorkspaceRoot)
-  if (cached) {
-    debugLog(`findLocalesFolderForWorkspace: returning cached value: ${cached}`)
-    return cached
-  }
-  
-  // Only check known patterns at workspace root - no recursive descent
-  const found = checkLocalePatterns(workspaceRoot)
-  
-  // Cache positive results
-  if (found) {
-    localesFolderCache.set(normalizedWorkspaceRoot, found)
-    debugLog(`findLocalesFolderForWorkspace: found and cached: ${found}`)
-  } else {
-    debugLog(`findLocalesFolderForWorkspace: no locales found at workspace root`)
-  }
-  
-  return found
+function getLocaleFileLabel(localesDir: string, lang: string): string {
+  const localePath = getLocalePath(localesDir, lang)
+  if (localePath && isNamespacedLocalePath(localePath)) return `${path.basename(localePath)}/`
+  return path.basename(localePath || `${lang}.json`)
 }
 
 /**
- * Clear the locales folder cache (useful when user changes settings)
+ * Where a language that has no locale file yet should be created, following the layout of the others
  */
-function clearLocalesFolderCache(): void {
-  localesFolderCache.clear()
+function getNewLocalePath(localesDir: string, lang: string): string {
+  const namespaced = listLocaleLanguages(localesDir).some((l) => isNamespacedLocalePath(getLocalePath(localesDir, l) || ''))
+  return path.join(localesDir, namespaced ? lang : `${lang}.json`)
 }
 
-async function loadCliProjectConfig(projectRoot: string): Promise<any | null> {
-  const all = readAllCliConfigs()
-  if (!all) return null
+/**
+ * List the languages available in a locales folder, derived from locale filenames
+ */
+function listLocaleLanguages(localesDir: string): string[] {
+  try {
+    const entries = fs.readdirSync(localesDir)
+    const languages = entries
+      .filter((f) => isLocaleFileName(f) && isLocaleFileContent(path.join(localesDir, f)))
+      .map((f) => stripLocaleFileExtension(f))
+    for (const entry of entries) {
+      if (!languages.includes(entry) && isLocaleLanguageDir(path.join(localesDir, entry))) languages.push(entry)
+    }
+    return languages
+  } catch {
+    return []
+  }
+}
 
-  const projectName = getProjectName(projectRoot)
-  let match = all.find((c: any) => c.projectName === projectName)
-  if (match) return match
+// ============================================================================
+// SYNC TRACKING UTILITIES
+// Mirrors the CLI's sync tracking for detecting base language changes
+// ============================================================================
 
-  // Fallback: match by projectPath
-  const rootNorm = normalizePath(projectRoot)
-  match = all.find((c: any) => normalizePath(c.projectPath) === rootNorm)
-  if (match) return match
+const SYNC_FILE_NAME = '.stringer-sync.json'
 
-  // Fallback 2: match configs whose projectPath contains the current root (handles nested workspaces)
-  match = all.find((c: any) => {
-    const cp = normalizePath(c.projectPath)
-    return !!cp && !!rootNorm && (rootNorm.startsWith(cp) || cp.startsWith(rootNorm))
-  })
-  return match || null
+interface SyncData {
+  schemaVersion: number
+  baseLanguage: string
+  lastSync: string
+  keys: Record<string, string>
 }
 
-function generateKeyPath(filePath: string, basePath: string): string | null {
-  const relativePath = path.relative(basePath, filePath)
-  if (!relativePath.includes(path.sep)) return null
-  return relativePath
-    .replace(/\\/g, '/')
-    .replace(/\.[^/.]+$/, '')
-    .split('/')
-    .join('.')
+interface SyncStatus {
+  inSync: boolean
+  modifiedKeys: string[]
+  newKeys: string[]
+  removedKeys: string[]
 }
 
-function ensureDir(dirPath: string) {
-  fs.mkdirSync(dirPath, { recursive: true })
+/**
+ * Generate a fast hash using djb2 algorithm (same as CLI)
+ */
+function generateKeyHash(value: string): string {
+  if (typeof value !== 'string') {
+    value = JSON.stringify(value)
+  }
+  let hash = 5381
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 33) ^ value.charCodeAt(i)
+  }
+  const unsignedHash = hash >>> 0
+  return unsignedHash.toString(16).padStart(8, '0')
 }
 
-// ---- Global unique 4-digit key generation ----
-function collectAllNumericLeafKeys(
+/**
+ * Flatten nested object into dot-notated paths with values
+ */
+function flattenLocale(
   obj: Record<string, any>,
-  used: Set<string> = new Set()
-): Set<string> {
-  for (const [k, v] of Object.entries(obj)) {
-    if (/^\d{4}$/.test(k) && typeof v !== 'object') {
-      used.add(k)
-    }
-    if (v && typeof v === 'object') {
-      collectAllNumericLeafKeys(v as Record<string, any>, used)
+  parentKey = ''
+): Array<{ key: string; value: string }> {
+  const result: Array<{ key: string; value: string }> = []
+  for (const [key, value] of Object.entries(obj)) {
+    const currentKey = parentKey ? `${parentKey}.${key}` : key
+    if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+      result.push(...flattenLocale(value, currentKey))
+    } else {
+      const stringValue = typeof value === 'string' ? value : JSON.stringify(value)
+      result.push({ key: currentKey, value: stringValue })
     }
   }
-  return used
+  return result
 }
 
-function nextGlobalLeafKey(used: Set<string>): string {
-  // Prefer random selection for better distribution
-  for (let tries = 0; tries < 500; tries++) {
-    const k = Math.floor(Math.random() * 10000)
-      .toString()
-      .padStart(4, '0')
-    if (!used.has(k)) return k
-  }
-  // Fallback: deterministic scan if too many collisions
-  for (let i = 0; i < 10000; i++) {
-    const k = i.toString().padStart(4, '0')
-    if (!used.has(k)) return k
-  }
-  // Extremely unlikely: generate until unique
-  let k = (Math.floor(Math.random() * 10000)).toString().padStart(4, '0')
-  while (used.has(k)) {
-    k = (Math.floor(Math.random() * 10000)).toString().padStart(4, '0')
+/**
+ * Flatten and hash all keys in a locale object
+ */
+function flattenAndHashLocale(localeObj: Record<string, any>): Record<string, string> {
+  const flattened = flattenLocale(localeObj)
+  const hashes: Record<string, string> = {}
+  for (const { key, value } of flattened) {
+    hashes[key] = generateKeyHash(value)
   }
-  return k
+  return hashes
 }
 
-function addStringToBaseLanguage(
-  baseLangJson: Record<string, any>,
-  keyPathPrefix: string,
-  text: string
-): { updated: Record<string, any>; fullKeyPath: string } {
-  const parts = keyPathPrefix.split('.').filter(Boolean)
-  const used = collectAllNumericLeafKeys(baseLangJson)
-
-  // Ensure intermediate containers are objects and lift strings when needed
-  let container = baseLangJson as any
-  for (const part of parts) {
-    if (typeof container[part] === 'string') {
-      const prev = container[part]
-      container[part] = {}
-      const prevKey = nextGlobalLeafKey(used)
-      used.add(prevKey)
-      container[part][prevKey] = prev
-    } else if (container[part] === undefined) {
-      container[part] = {}
+/**
+ * Load sync file from locales directory
+ */
+function loadSyncFile(localesDir: string): SyncData | null {
+  const syncFilePath = path.join(localesDir, SYNC_FILE_NAME)
+  try {
+    if (!fs.existsSync(syncFilePath)) {
+      return null
     }
-    container = container[part]
+    const content = fs.readFileSync(syncFilePath, 'utf-8')
+    // Strip BOM for Windows compatibility
+    return JSON.parse(stripBOM(content)) as SyncData
+  } catch {
+    return null
   }
+}
 
-  const leafKey = nextGlobalLeafKey(used)
-  // Merge rather than overwrite whole file
-  setDeepValue(baseLangJson, parts, leafKey, text)
+/**
+ * Detect changes between current and stored hashes
+ */
+function detectSyncChanges(
+  currentHashes: Record<string, string>,
+  storedHashes: Record<string, string>
+): SyncStatus {
+  const modifiedKeys: string[] = []
+  const newKeys: string[] = []
+  const removedKeys: string[] = []
 
-  return { updated: baseLangJson, fullKeyPath: `${keyPathPrefix}.${leafKey}` }
-}
+  const currentKeySet = new Set(Object.keys(currentHashes))
+  const storedKeySet = new Set(Object.keys(storedHashes))
 
-function setDeepValue(
-  obj: Record<string, any>,
-  pathParts: string[],
-  leafKey: string,
-  value: string
-) {
-  let node = obj
-  for (let i = 0; i < pathParts.length; i++) {
-    const part = pathParts[i]
-    const isLast = i === pathParts.length - 1
-    if (!isLast) {
-      if (node[part] === undefined) node[part] = {}
-      else if (typeof node[part] === 'string') node[part] = { '0000': node[part] }
-      node = node[part]
+  for (const key of currentKeySet) {
+    if (storedKeySet.has(key)) {
+      if (currentHashes[key] !== storedHashes[key]) {
+        modifiedKeys.push(key)
+      }
     } else {
-      if (node[part] === undefined) node[part] = {}
-      else if (typeof node[part] === 'string') node[part] = { '0000': node[part] }
-      node[part][leafKey] = value
+      newKeys.push(key)
     }
   }
-}
 
-async function withEdit(editor: vscode.TextEditor, replacer: (edit: vscode.TextEditorEdit) => void) {
-  await editor.edit((edit) => replacer(edit), { undoStopAfter: true, undoStopBefore: true })
-}
+  for (const key of storedKeySet) {
+    if (!currentKeySet.has(key)) {
+      removedKeys.push(key)
+    }
+  }
 
-async function runAlignInTerminal(cwd: string) {
-  const terminal = vscode.window.createTerminal({ name: vscode.l10n.t('Stringer Align'), cwd })
-  terminal.show()
-  terminal.sendText('stringer align', true)
-}
+  const inSync = modifiedKeys.length === 0 && newKeys.length === 0 && removedKeys.length === 0
 
-// Run stringer convert in integrated terminal
-async function runConvertInTerminal(cwd: string) {
-  const terminal = vscode.window.createTerminal({ name: vscode.l10n.t('Stringer Convert'), cwd })
-  terminal.show()
-  terminal.sendText('stringer convert', true)
+  return { inSync, modifiedKeys, newKeys, removedKeys }
 }
 
-// ---------- Simple Vue SFC context detection ----------
-function isVueFile(filePath: string): boolean {
-  return /\.vue$/i.test(filePath)
-}
+/**
+ * Check sync status by comparing base language file with sync file
+ */
+function checkSyncStatus(localesDir: string, baseLanguage: string): SyncStatus | null {
+  try {
+    const baseFilePath = getLocalePath(localesDir, baseLanguage)
+    if (!baseFilePath) {
+      return null
+    }
 
-function getTemplateRange(source: string): { start: number; end: number } | null {
-  const open = source.match(/<template(?:\s[^>]*)?>/i)
-  if (!open || typeof open.index !== 'number') return null
-  const start = open.index + open[0].length
-  const closeIdx = source.indexOf('</template>', start)
-  if (closeIdx === -1) return null
-  return { start, end: closeIdx }
-}
+    const baseLocale = readLocaleData(baseFilePath)
+    const currentHashes = flattenAndHashLocale(baseLocale)
 
-// Return all <script> block ranges inside a Vue SFC
-function getScriptRanges(source: string): Array<{ start: number; end: number }> {
-  const ranges: Array<{ start: number; end: number }> = []
-  const rx = /<script(?:\s[^>]*)?>/gi
-  for (let m = rx.exec(source); m; m = rx.exec(source)) {
-    const openIdx = (m.index as number) + m[0].length
-    const closeIdx = source.indexOf('</script>', openIdx)
-    if (closeIdx !== -1) {
-      ranges.push({ start: openIdx, end: closeIdx })
+    const syncData = loadSyncFile(localesDir)
+    if (!syncData) {
+      // No sync file = first run, consider in sync
+      return { inSync: true, modifiedKeys: [], newKeys: [], removedKeys: [] }
     }
+
+    return detectSyncChanges(currentHashes, syncData.keys)
+  } catch {
+    return null
   }
-  return ranges
 }
 
-function isInsideVueScript(source: string, offset: number): boolean {
-  const ranges = getScriptRanges(source)
-  for (const r of ranges) {
-    if (offset >= r.start && offset <= r.end) return true
+/**
+ * Get a human-readable summary of sync changes
+ */
+function getSyncChangeSummary(status: SyncStatus): string {
+  const parts: string[] = []
+  if (status.modifiedKeys.length > 0) {
+    parts.push(`${status.modifiedKeys.length} modified`)
   }
-  return false
+  if (status.newKeys.length > 0) {
+    parts.push(`${status.newKeys.length} new`)
+  }
+  if (status.removedKeys.length > 0) {
+    parts.push(`${status.removedKeys.length} removed`)
+  }
+  return parts.join(', ') || 'in sync'
 }
+const decorationType = vscode.window.createTextEditorDecorationType({
+  after: {
+    margin: '0 0 0 0.25em',
+    color: new vscode.ThemeColor('editorCodeLens.foreground') as any
+  },
+  rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed
+})
+const hiddenTextDecorationType = vscode.window.createTextEditorDecorationType({
+  // Hide original text when rendering locale-only mode but preserve layout width.
+  // Use aggressive CSS so it works in all contexts (objects/JSX/Vue templates).
+  // VS Code allows injecting extra CSS declarations via textDecoration.
+  textDecoration: 'none; opacity: 0 !important; font-size: 0 !important; letter-spacing: -0.5em !important;'
+})
+// Separate decoration type for rendering values with 'before' so it is not affected by hidden style
+const valueBeforeDecorationType = vscode.window.createTextEditorDecorationType({
+  before: {
+    // Ensure the rendered value participates in layout and is readable on dark/light themes
+    color: new vscode.ThemeColor('editor.foreground') as any,
+    margin: '0 0 0 0',
+  }
+})
 
-function isInsideOpeningOrClosingTag(source: string, offset: number): boolean {
-  const lastLt = source.lastIndexOf('<', offset)
-  const lastGt = source.lastIndexOf('>', offset)
-  return lastLt > lastGt
+// Utilities to mirror CLI behavior
+function lastPathSegment(expr: string): string {
+  const parts = String(expr).split('.')
+  return parts[parts.length - 1]
 }
 
-function isVueTemplateTextNode(source: string, offset: number): boolean {
-  const tpl = getTemplateRange(source)
-  if (!tpl) return false
-  if (offset < tpl.start || offset > tpl.end) return false
-  if (isInsideOpeningOrClosingTag(source, offset)) return false
-  return true
+function normalizeDynamicPlaceholders(value: string): string {
+  let out = value
+  // Convert {{name}} to {name}
+  out = out.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_m, v) => `{${lastPathSegment(v)}}`)
+  // Convert ${name} to {name}
+  out = out.replace(/\$\{\s*([\w.]+)\s*\}/g, (_m, v) => `{${lastPathSegment(v)}}`)
+  return out
 }
 
-function getAttributeContext(
-  source: string,
-  offset: number
-):
-  | {
-      name: string
-      isBound: boolean
-      attrStart: number
-      valueStart: number
-      valueEnd: number
-    }
-  | null {
-  const tpl = getTemplateRange(source)
-  if (!tpl) return null
-  if (offset < tpl.start || offset > tpl.end) return null
-
-  if (!isInsideOpeningOrClosingTag(source, offset)) return null
-
-  const tagStart = source.lastIndexOf('<', offset)
-  const tagEnd = source.indexOf('>', tagStart + 1)
-  if (tagStart === -1 || tagEnd === -1 || tagEnd < offset) return null
-
-  const slice = source.slice(tagStart + 1, tagEnd)
-  const rel = offset - (tagStart + 1)
-  const eqRel = slice.lastIndexOf('=', rel)
-  if (eqRel === -1) return null
-  const eqAbs = tagStart + 1 + eqRel
-
-  let qIdx = eqAbs + 1
-  while (qIdx < tagEnd && /\s/.test(source[qIdx])) qIdx++
-  const quote = source[qIdx]
-  if (quote !== '"' && quote !== "'") return null
-  const valueStart = qIdx + 1
-  const valueEnd = source.indexOf(quote, valueStart)
-  if (valueEnd === -1 || offset < valueStart || offset > valueEnd) return null
-
-  let nEnd = eqAbs - 1
-  while (nEnd > tagStart && /\s/.test(source[nEnd])) nEnd--
-  let nStart = nEnd
-  while (nStart > tagStart && /[A-Za-z0-9_:\-]/.test(source[nStart - 1])) nStart--
-  let rawName = source.slice(nStart, nEnd + 1)
-  const isBound = rawName.startsWith(':') || rawName.startsWith('v-bind:')
-  const name = rawName.replace(/^:/, '').replace(/^v-bind:/, '')
-
-  return {
-    name,
-    isBound,
-    attrStart: nStart,
-    valueStart,
-    valueEnd
-  }
+function stripHtmlTagsPreserveText(value: string): string {
+  // Remove tags but keep inner text. Best-effort, non-greedy for tags
+  return value.replace(/<[^>]*>/g, ' ')
 }
 
-// ---------- Simple React/Next JSX helpers ----------
-function isJsxFile(filePath: string): boolean {
-  return /\.(jsx|tsx)$/i.test(filePath)
+function normalizeWhitespace(value: string): string {
+  return value.replace(/\s+/g, ' ').trim()
 }
 
-function isLikelyJsxUiContext(source: string, offset: number): boolean {
-  // Heuristic: inside a JSX element's content or attribute
-  const lastLt = source.lastIndexOf('<', offset)
-  const lastGt = source.lastIndexOf('>', offset)
-  const nextLt = source.indexOf('<', offset)
-  const nextGt = source.indexOf('>', offset)
-  if (lastLt === -1 || (nextGt === -1 && nextLt === -1)) return false
-  // Inside opening tag attributes
-  if (lastLt > lastGt) return true
-  // Between tags = text content
-  if (lastGt > lastLt && nextLt !== -1 && lastGt <= offset && offset <= nextLt) return true
-  return false
+function normalizeSelectedTextForI18n(value: string): string {
+  let v = value
+  v = normalizeDynamicPlaceholders(v)
+  v = stripHtmlTagsPreserveText(v)
+  v = normalizeWhitespace(v)
+  return v
 }
 
-function getJsxAttributeContext(
-  source: string,
-  offset: number
-):
-  | {
-      name: string
-      nameStart: number
-      valueStartQuote: number
-      valueEndQuote: number
-    }
-  | null {
-  const tagStart = source.lastIndexOf('<', offset)
-  const tagEnd = source.indexOf('>', tagStart + 1)
-  if (tagStart === -1 || tagEnd === -1 || tagEnd < offset) return null
-  const slice = source.slice(tagStart + 1, tagEnd)
-  const rel = offset - (tagStart + 1)
-  const eqRel = slice.lastIndexOf('=', rel)
-  if (eqRel === -1) return null
-  const eqAbs = tagStart + 1 + eqRel
-  // Find attribute name
-  let nEnd = eqAbs - 1
-  while (nEnd > tagStart && /\s/.test(source[nEnd])) nEnd--
-  let nStart = nEnd
-  while (nStart > tagStart && /[A-Za-z0-9_:\-]/.test(source[nStart - 1])) nStart--
-  const rawName = source.slice(nStart, nEnd + 1)
-  // Find quoted value following '='
-  let qIdx = eqAbs + 1
-  while (qIdx < tagEnd && /\s/.test(source[qIdx])) qIdx++
-  const quote = source[qIdx]
-  if (quote !== '"' && quote !== "'") return null
-  const valueStartQuote = qIdx
-  const valueEndQuote = source.indexOf(quote, valueStartQuote + 1)
-  if (valueEndQuote === -1 || offset < valueStartQuote || offset > valueEndQuote) return null
-  return { name: rawName, nameStart: nStart, valueStartQuote, valueEndQuote }
+// Truncate preview content safely by Unicode code points (avoid breaking surrogate pairs)
+function truncateForPreview(value: string, maxLength: number = 300): string {
+  const codepoints = Array.from(String(value))
+  if (codepoints.length <= maxLength) return value
+  return codepoints.slice(0, maxLength).join('') + '…'
 }
 
-// ---------- Ensure Vue t() availability ----------
-function hasUseI18nTDeclaration(block: string): boolean {
-  return /const\s*\{\s*t\s*\}\s*=\s*useI18n\s*\(\s*\)/.test(block)
+// Extract placeholder parameter names from a normalized i18n string, e.g. "Hello {name} ({count})" -> ['name','count']
+function extractParamsFromNormalizedText(value: string): string[] {
+  const params = new Set<string>()
+  const rx = /\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}/g
+  for (let m = rx.exec(value); m; m = rx.exec(value)) {
+    params.add(m[1])
+  }
+  return Array.from(params)
 }
 
-async function ensureVueTDeclaration(editor: vscode.TextEditor): Promise<void> {
-  const doc = editor.document
-  const filePath = doc.uri.fsPath
-  if (!isVueFile(filePath)) return
-
-  const text = doc.getText()
-  if (hasUseI18nTDeclaration(text)) return
-
-  // Find existing script block
-  const scriptOpen = text.match(/<script(?:\s[^>]*)?>/i)
-  if (scriptOpen && typeof scriptOpen.index === 'number') {
-    const openIdx = scriptOpen.index
-    const insertPos = openIdx + scriptOpen[0].length
-    const closeIdx = text.indexOf('</script>', insertPos)
-    const scriptBlock = closeIdx !== -1 ? text.slice(insertPos, closeIdx) : ''
-    if (hasUseI18nTDeclaration(scriptBlock)) return
-
-    const updated = text.slice(0, insertPos) + '\nconst { t } = useI18n()\n' + text.slice(insertPos)
-    const fullRange = new vscode.Range(doc.positionAt(0), doc.positionAt(text.length))
-    await withEdit(editor, (edit) => edit.replace(fullRange, updated))
-    return
-  }
+// ============================================================================
+// ADVANCED STRING CONVERSION SYSTEM
+// Detects and converts dynamic values: template literals, concatenation, 
+// numbers, currencies, dates, and method calls
+// ============================================================================
 
-  // No script block -> create one before <template>
-  const tplIdx = text.search(/<template(?:\s[^>]*)?>/i)
-  const scriptTag = '<script setup lang="ts">\nconst { t } = useI18n()\n</script>\n\n'
-  let updated: string
-  if (tplIdx !== -1) {
-    updated = text.slice(0, tplIdx) + scriptTag + text.slice(tplIdx)
-  } else {
-    updated = scriptTag + text
-  }
-  const fullRange = new vscode.Range(doc.positionAt(0), doc.positionAt(text.length))
-  await withEdit(editor, (edit) => edit.replace(fullRange, updated))
+interface DynamicValueMatch {
+  type: 'interpolation' | 'number' | 'currency' | 'date' | 'method' | 'concat' | 'ternary'
+  original: string
+  paramName: string
+  expression: string
+  start: number
+  end: number
 }
 
-// ---------- Ensure React/Next t() availability ----------
-function ensureImported(text: string, importLine: string): { updated: string; changed: boolean } {
-  if (new RegExp('^\\s*' + importLine.replace(/[.*+?^${}()|\\[\\]\\\\]/g, '\\$&'), 'm').test(text)) {
-    return { updated: text, changed: false }
-  }
-  // Insert after last import (or at top)
-  const rx = /^\s*import\b.*$/gm
-  let lastMatch: RegExpExecArray | null = null
-  for (let m = rx.exec(text); m; m = rx.exec(text)) lastMatch = m
-  if (lastMatch) {
-    const idx = (lastMatch.index || 0) + lastMatch[0].length
-    return { updated: text.slice(0, idx) + '\n' + importLine + text.slice(idx), changed: true }
-  }
-  return { updated: importLine + '\n' + text, changed: true }
+interface AdvancedNormalizationResult {
+  normalizedText: string
+  params: DynamicValueMatch[]
+  originalParams: Map<string, string> // paramName -> original expression
+  hasAdvancedPatterns: boolean
 }
 
-async function ensureReactTDeclaration(editor: vscode.TextEditor, selectionOffset: number): Promise<void> {
-  const cfg = vscode.workspace.getConfiguration('stringerHelper')
-  const style = cfg.get<string>('reactInjection', 'react-i18next')
-  if (style !== 'react-i18next') return
-  const doc = editor.document
-  const text = doc.getText()
-  // 1) Ensure import
-  const { updated: withImport, changed } = ensureImported(text, "import { useTranslation } from 'react-i18next'")
-  let working = withImport
-  // 2) Ensure const { t } = useTranslation() inside nearest function before selection
-  const fnIdx = (() => {
-    // Find nearest "function" or "=>" block start before selection
-    const before = working.slice(0, selectionOffset)
-    const lastFunc = Math.max(before.lastIndexOf('function '), before.lastIndexOf('=>'))
-    if (lastFunc === -1) return -1
-    const brace = working.indexOf('{', lastFunc)
-    return brace !== -1 ? brace + 1 : -1
-  })()
-  if (fnIdx !== -1) {
-    // Check if already declared in function block following fnIdx (first 300 chars)
-    const lookahead = working.slice(fnIdx, fnIdx + 300)
-    if (!/\bconst\s*\{\s*t\s*\}\s*=\s*useTranslation\s*\(\s*\)/.test(lookahead)) {
-      working = working.slice(0, fnIdx) + "\nconst { t } = useTranslation()\n" + working.slice(fnIdx)
+/** Extract a clean parameter name from an expression */
+function extractParamName(expr: string): string {
+  const cleaned = expr.trim()
+  // Handle method calls like user.getName() -> user
+  const methodMatch = cleaned.match(/^([A-Za-z_$][A-Za-z0-9_$]*)(?:\.[A-Za-z_$][A-Za-z0-9_$]*)*/)
+  if (methodMatch) {
+    const parts = methodMatch[0].split('.')
+    // Use the last meaningful identifier before method call
+    const lastPart = parts[parts.length - 1]
+    // If it looks like a getter (getName, getCount), extract the noun
+    const getterMatch = lastPart.match(/^get([A-Z][a-z]+)$/)
+    if (getterMatch) {
+      return getterMatch[1].toLowerCase()
     }
+    return lastPart
   }
-  if (changed || working !== text) {
-    const fullRange = new vscode.Range(doc.positionAt(0), doc.positionAt(text.length))
-    await withEdit(editor, (edit) => edit.replace(fullRange, working))
-  }
+  // Fallback: extract first identifier
+  const idMatch = cleaned.match(/([A-Za-z_$][A-Za-z0-9_$]*)/)
+  return idMatch ? idMatch[1] : 'value'
 }
 
-async function ensureNextTDeclaration(editor: vscode.TextEditor, selectionOffset: number): Promise<void> {
-  const cfg = vscode.workspace.getConfiguration('stringerHelper')
-  const style = cfg.get<string>('nextInjection', 'next-intl')
-  if (style !== 'next-intl') return
-  const doc = editor.document
-  const text = doc.getText()
-  // 1) Ensure import
-  const { updated: withImport, changed } = ensureImported(text, "import { useTranslations } from 'next-intl'")
-  let working = withImport
-  // 2) Ensure const t = useTranslations() inside nearest function before selection
-  const fnIdx = (() => {
-    const before = working.slice(0, selectionOffset)
-    const lastFunc = Math.max(before.lastIndexOf('function '), before.lastIndexOf('=>'))
-    if (lastFunc === -1) return -1
-    const brace = working.indexOf('{', lastFunc)
-    return brace !== -1 ? brace + 1 : -1
-  })()
-  if (fnIdx !== -1) {
-    const lookahead = working.slice(fnIdx, fnIdx + 300)
-    if (!/\bconst\s*t\s*=\s*useTranslations\s*\(\s*\)/.test(lookahead)) {
-      working = working.slice(0, fnIdx) + "\nconst t = useTranslations()\n" + working.slice(fnIdx)
-    }
-  }
-  if (changed || working !== text) {
-    const fullRange = new vscode.Range(doc.positionAt(0), doc.positionAt(text.length))
-    await withEdit(editor, (edit) => edit.replace(fullRange, working))
-  }
+/** Detect if expression involves number formatting */
+function isNumberFormatting(expr: string): boolean {
+  return /\.toFixed\s*\(/.test(expr) ||
+         /\.toLocaleString\s*\(/.test(expr) ||
+         /\.toPrecision\s*\(/.test(expr) ||
+         /Number\s*\(/.test(expr) ||
+         /parseFloat\s*\(/.test(expr) ||
+         /parseInt\s*\(/.test(expr)
 }
 
-function isEscaped(source: string, index: number): boolean {
-  let backslashes = 0
-  for (let i = index - 1; i >= 0 && source[i] === '\\'; i--) backslashes++
-  return backslashes % 2 === 1
+/** Detect if expression involves currency formatting */
+function isCurrencyFormatting(expr: string): boolean {
+  return /['"]currency['"]/.test(expr) ||
+         /style:\s*['"]currency['"]/.test(expr) ||
+         /formatCurrency/.test(expr) ||
+         /\$\s*\+/.test(expr) ||
+         /['"]USD['"]|['"]EUR['"]|['"]GBP['"]/.test(expr)
 }
 
-function findEnclosingStringLiteralBounds(
-  source: string,
-  offset: number
-): { quote: '"' | "'" | '`'; qStart: number; qEnd: number } | null {
-  // Search backward for an opening quote that is not escaped
-  let qStart = -1
-  let quote: '"' | "'" | '`' | null = null
-  for (let i = offset; i >= 0; i--) {
-    const ch = source[i]
+/** Detect if expression involves date formatting */
+function isDateFormatting(expr: string): boolean {
+  return /\.toLocaleDateString\s*\(/.test(expr) ||
+         /\.toLocaleTimeString\s*\(/.test(expr) ||
+         /\.toISOString\s*\(/.test(expr) ||
+         /\.toDateString\s*\(/.test(expr) ||
+         /formatDate/.test(expr) ||
+         /new Date\s*\(/.test(expr) ||
+         /dayjs|moment|date-fns/.test(expr)
+}
+
+/** Parse a template literal and extract interpolations */
+function parseTemplateLiteral(text: string): AdvancedNormalizationResult {
+  const params: DynamicValueMatch[] = []
+  const originalParams = new Map<string, string>()
+  let normalizedText = ''
+  let lastIndex = 0
+  let hasAdvanced = false
+  
+  // Match ${...} patterns, handling nested braces
+  const regex = /\$\{([^{}]*(?:\{[^{}]*\}[^{}]*)*)\}/g
+  let match: RegExpExecArray | null
+  
+  while ((match = regex.exec(text)) !== null) {
+    const expr = match[1].trim()
+    const paramName = extractParamName(expr)
+    
+    // Add text before this match
+    normalizedText += text.slice(lastIndex, match.index)
+    
+    // Determine the type of dynamic value
+    let type: DynamicValueMatch['type'] = 'interpolation'
+    if (isNumberFormatting(expr)) {
+      type = 'number'
+      hasAdvanced = true
+    } else if (isCurrencyFormatting(expr)) {
+      type = 'currency'
+      hasAdvanced = true
+    } else if (isDateFormatting(expr)) {
+      type = 'date'
+      hasAdvanced = true
+    } else if (/\(.*\)/.test(expr)) {
+      type = 'method'
+      hasAdvanced = true
+    }
+    
+    // Ensure unique param names
+    let uniqueName = paramName
+    let counter = 1
+    while (originalParams.has(uniqueName) && originalParams.get(uniqueName) !== expr) {
+      uniqueName = `${paramName}${counter++}`
+    }
+    
+    params.push({
+      type,
+      original: match[0],
+      paramName: uniqueName,
+      expression: expr,
+      start: match.index,
+      end: match.index + match[0].length
+    })
+    
+    originalParams.set(uniqueName, expr)
+    normalizedText += `{${uniqueName}}`
+    lastIndex = match.index + match[0].length
+  }
+  
+  normalizedText += text.slice(lastIndex)
+  
+  return {
+    normalizedText,
+    params,
+    originalParams,
+    hasAdvancedPatterns: hasAdvanced
+  }
+}
+
+/** Parse string concatenation: 'Hello ' + name + '!' */
+function parseStringConcatenation(text: string): AdvancedNormalizationResult | null {
+  // Check if this looks like concatenation
+  if (!text.includes('+')) return null
+  
+  const params: DynamicValueMatch[] = []
+  const originalParams = new Map<string, string>()
+  let normalizedText = ''
+  let hasAdvanced = false
+  
+  // Split by + but preserve quoted strings
+  const parts: string[] = []
+  let current = ''
+  let inString: string | null = null
+  let depth = 0
+  
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]
+    const prev = i > 0 ? text[i - 1] : ''
+    
+    if (!inString && (ch === '"' || ch === "'" || ch === '`')) {
+      inString = ch
+      current += ch
+    } else if (inString === ch && prev !== '\\') {
+      inString = null
+      current += ch
+    } else if (!inString && ch === '(') {
+      depth++
+      current += ch
+    } else if (!inString && ch === ')') {
+      depth--
+      current += ch
+    } else if (!inString && depth === 0 && ch === '+') {
+      parts.push(current.trim())
+      current = ''
+    } else {
+      current += ch
+    }
+  }
+  if (current.trim()) {
+    parts.push(current.trim())
+  }
+  
+  // Need at least 2 parts for concatenation
+  if (parts.length < 2) return null
+  
+  // Check if at least one part is a string literal and one is a variable
+  let hasStringLiteral = false
+  let hasVariable = false
+  
+  for (const part of parts) {
+    if (/^['"`].*['"`]$/.test(part)) {
+      hasStringLiteral = true
+    } else if (/^[A-Za-z_$]/.test(part)) {
+      hasVariable = true
+    }
+  }
+  
+  if (!hasStringLiteral || !hasVariable) return null
+  
+  // Build normalized text
+  let paramIndex = 0
+  for (const part of parts) {
+    const trimmed = part.trim()
+    
+    if (/^['"`](.*?)['"`]$/.test(trimmed)) {
+      // String literal - extract content
+      const content = trimmed.slice(1, -1)
+      normalizedText += content
+    } else if (trimmed) {
+      // Variable or expression
+      const paramName = extractParamName(trimmed)
+      let uniqueName = paramName
+      let counter = 1
+      while (originalParams.has(uniqueName) && originalParams.get(uniqueName) !== trimmed) {
+        uniqueName = `${paramName}${counter++}`
+      }
+      
+      let type: DynamicValueMatch['type'] = 'concat'
+      if (isNumberFormatting(trimmed)) {
+        type = 'number'
+        hasAdvanced = true
+      } else if (isCurrencyFormatting(trimmed)) {
+        type = 'currency'
+        hasAdvanced = true
+      } else if (isDateFormatting(trimmed)) {
+        type = 'date'
+        hasAdvanced = true
+      }
+      
+      params.push({
+        type,
+        original: trimmed,
+        paramName: uniqueName,
+        expression: trimmed,
+        start: paramIndex,
+        end: paramIndex + trimmed.length
+      })
+      
+      originalParams.set(uniqueName, trimmed)
+      normalizedText += `{${uniqueName}}`
+      paramIndex++
+    }
+  }
+  
+  return {
+    normalizedText: normalizedText.trim(),
+    params,
+    originalParams,
+    hasAdvancedPatterns: hasAdvanced || params.length > 0
+  }
+}
+
+/** Detect ternary expressions: condition ? 'yes' : 'no' */
+function detectTernaryExpression(text: string): { isTernary: boolean; condition?: string; trueVal?: string; falseVal?: string } {
+  const ternaryMatch = text.match(/^([^?]+)\s*\?\s*(['"`]?)([^:'"]+)\2\s*:\s*(['"`]?)([^'"]+)\4$/)
+  if (ternaryMatch) {
+    return {
+      isTernary: true,
+      condition: ternaryMatch[1].trim(),
+      trueVal: ternaryMatch[3].trim(),
+      falseVal: ternaryMatch[5].trim()
+    }
+  }
+  return { isTernary: false }
+}
+
+/** Main advanced normalization function */
+function advancedNormalizeString(rawText: string, context: 'vue-template' | 'jsx' | 'script'): AdvancedNormalizationResult {
+  let text = rawText.trim()
+  
+  // Remove surrounding quotes if present
+  if (/^['"`]/.test(text) && /['"`]$/.test(text)) {
+    const quote = text[0]
+    if (text[text.length - 1] === quote) {
+      text = text.slice(1, -1)
+    }
+  }
+  
+  // Check for template literal (backticks)
+  if (rawText.trim().startsWith('`') || text.includes('${')) {
+    const result = parseTemplateLiteral(text)
+    if (result.params.length > 0) {
+      // Also apply basic normalization
+      result.normalizedText = stripHtmlTagsPreserveText(result.normalizedText)
+      result.normalizedText = normalizeWhitespace(result.normalizedText)
+      return result
+    }
+  }
+  
+  // Check for string concatenation
+  const concatResult = parseStringConcatenation(rawText)
+  if (concatResult && concatResult.params.length > 0) {
+    concatResult.normalizedText = stripHtmlTagsPreserveText(concatResult.normalizedText)
+    concatResult.normalizedText = normalizeWhitespace(concatResult.normalizedText)
+    return concatResult
+  }
+  
+  // Check for Vue mustache syntax
+  if (context === 'vue-template' && /\{\{.*\}\}/.test(text)) {
+    const params: DynamicValueMatch[] = []
+    const originalParams = new Map<string, string>()
+    let normalized = text
+    
+    const mustacheRegex = /\{\{\s*([^}]+)\s*\}\}/g
+    let match: RegExpExecArray | null
+    
+    while ((match = mustacheRegex.exec(text)) !== null) {
+      const expr = match[1].trim()
+      const paramName = extractParamName(expr)
+      
+      let uniqueName = paramName
+      let counter = 1
+      while (originalParams.has(uniqueName) && originalParams.get(uniqueName) !== expr) {
+        uniqueName = `${paramName}${counter++}`
+      }
+      
+      params.push({
+        type: 'interpolation',
+        original: match[0],
+        paramName: uniqueName,
+        expression: expr,
+        start: match.index,
+        end: match.index + match[0].length
+      })
+      
+      originalParams.set(uniqueName, expr)
+      normalized = normalized.replace(match[0], `{${uniqueName}}`)
+    }
+    
+    return {
+      normalizedText: normalizeWhitespace(stripHtmlTagsPreserveText(normalized)),
+      params,
+      originalParams,
+      hasAdvancedPatterns: params.length > 0
+    }
+  }
+  
+  // Fallback to basic normalization
+  const basicNormalized = normalizeSelectedTextForI18n(text)
+  const basicParams = extractParamsFromNormalizedText(basicNormalized)
+  const originalParams = new Map<string, string>()
+  
+  // Try to map extracted params back to original expressions
+  for (const param of basicParams) {
+    // Look for the param in the original text
+    const paramRegex = new RegExp(`\\$\\{\\s*(${param}[^}]*)\\s*\\}|\\{\\{\\s*(${param}[^}]*)\\s*\\}\\}`, 'g')
+    const paramMatch = paramRegex.exec(rawText)
+    if (paramMatch) {
+      originalParams.set(param, paramMatch[1] || paramMatch[2] || param)
+    } else {
+      originalParams.set(param, param)
+    }
+  }
+  
+  return {
+    normalizedText: basicNormalized,
+    params: basicParams.map((p, i) => ({
+      type: 'interpolation' as const,
+      original: p,
+      paramName: p,
+      expression: originalParams.get(p) || p,
+      start: i,
+      end: i + 1
+    })),
+    originalParams,
+    hasAdvancedPatterns: false
+  }
+}
+
+/**
+ * Generate the t() call expression with proper parameter object.
+ * The svelte flavor calls the svelte-i18n store: $_('key', { values: { ... } })
+ */
+function generateTCallExpression(
+  keyPath: string,
+  result: AdvancedNormalizationResult,
+  flavor: 'default' | 'svelte' = 'default'
+): string {
+  const fn = flavor === 'svelte' ? '$_' : 't'
+  // gettext msgids are source text: one with an apostrophe goes in double quotes
+  const quote = keyPath.includes("'") && !keyPath.includes('"') ? '"' : "'"
+  const key = formatJsString(keyPath, { quote, quoteKeys: false, escapeUnicode: null })
+  if (result.params.length === 0) {
+    return `${fn}(${key})`
+  }
+  
+  // Build parameter object
+  const paramEntries: string[] = []
+  for (const param of result.params) {
+    const expr = result.originalParams.get(param.paramName) || param.expression
+    // If the expression is the same as param name, use shorthand
+    if (expr === param.paramName) {
+      paramEntries.push(param.paramName)
+    } else {
+      paramEntries.push(`${param.paramName}: ${expr}`)
+    }
+  }
+  
+  if (flavor === 'svelte') return `${fn}(${key}, { values: { ${paramEntries.join(', ')} } })`
+  return `t(${key}, { ${paramEntries.join(', ')} })`
+}
+
+// ============================================================================
+// END ADVANCED STRING CONVERSION SYSTEM
+// ============================================================================
+
+function isWsl(): boolean {
+  try {
+    if (process.platform !== 'linux') return false
+    const release = fs.readFileSync('/proc/sys/kernel/osrelease', 'utf-8')
+    return /microsoft/i.test(release)
+  } catch {
+    return false
+  }
+}
+
+function findCliConfigPath(): string | null {
+  const candidates: string[] = []
+
+  // 1) Primary: same location as CLI uses
+  const home = os.homedir()
+  candidates.push(path.join(home, '.stringer-cli.json'))
+
+  // 2) Windows explicit USERPROFILE (sometimes differs from homedir in edge setups)
+  if (process.platform === 'win32') {
+    const userProfile = process.env.USERPROFILE
+    if (userProfile && userProfile !== home) {
+      candidates.push(path.join(userProfile, '.stringer-cli.json'))
+    }
+    // Common OneDrive profile redirect (rarely needed, harmless to check)
+    const oneDrive = process.env.OneDrive || process.env.ONEDRIVE
+    if (oneDrive) candidates.push(path.join(oneDrive, '..', '.stringer-cli.json'))
+  }
+
+  // 3) WSL: look for Windows home mirror under /mnt/c/Users/*
+  if (isWsl()) {
+    const base = '/mnt/c/Users'
+    try {
+      const users = fs.readdirSync(base)
+      for (const u of users) {
+        candidates.push(path.join(base, u, '.stringer-cli.json'))
+      }
+    } catch {}
+  }
+
+  // 4) Optional override via setting (user can provide an absolute path)
+  try {
+    const cfg = vscode.workspace.getConfiguration('stringerHelper')
+    const override = cfg.get<string>('cliConfigPath')
+    if (override && path.isAbsolute(override)) candidates.unshift(override)
+  } catch {}
+
+  for (const p of candidates) {
+    try {
+      if (p && fs.existsSync(p)) return p
+    } catch {}
+  }
+  return null
+}
+
+function readAllCliConfigs(): any[] | null {
+  const configPath = findCliConfigPath()
+  try {
+    if (!configPath) return null
+    const content = fs.readFileSync(configPath, 'utf-8')
+    // Strip BOM for Windows compatibility
+    const parsed = JSON.parse(stripBOM(content))
+    return Array.isArray(parsed) ? parsed : [parsed]
+  } catch (_e) {
+    return null
+  }
+}
+
+function getProjectName(projectRoot: string): string {
+  try {
+    const pkgPath = path.join(projectRoot, 'package.json')
+    if (fs.existsSync(pkgPath)) {
+      const pkg = JSON.parse(fs.readFileSync(pkgPath, 'utf-8'))
+      return pkg.name || projectRoot
+    }
+  } catch (_e) {}
+  return projectRoot
+}
+
+function normalizePath(p?: string | null): string | null {
+  if (!p) return null
+  try {
+    return path.resolve(p).replace(/\\/g, '/')
+  } catch {
+    return p
+  }
+}
+
+// Accept locale filenames like en.json, en-US.json, pt_BR.yml, zh-Hant.yaml
+function isLocaleFileName(fileName: string): boolean {
+  if (!getLocaleFileExtension(fileName)) return false
+  return isLocaleLanguageName(stripLocaleFileExtension(fileName))
+}
+
+function isLocaleLanguageName(name: string): boolean {
+  // Start with 2-3 letters, optional region/script separated by '-' or '_',
+  // and allow one extra segment for variants. Excludes names like 'package'.
+  return /^[a-z]{2,3}([_-][a-zA-Z]{2,4})?([_-][A-Za-z0-9]+)?$/.test(name)
+}
+
+/**
+ * Strip UTF-8 BOM (Byte Order Mark) from string content.
+ * Windows apps often save UTF-8 files with BOM which causes JSON.parse to fail.
+ */
+function stripBOM(content: string): string {
+  // UTF-8 BOM is EF BB BF, which appears as \uFEFF in JavaScript strings
+  if (content.charCodeAt(0) === 0xFEFF) {
+    return content.slice(1)
+  }
+  return content
+}
+
+// ============================================================================
+// SMART LOCALES FOLDER DETECTION
+// Finds the actual locales folder even if user selects a parent directory
+// ============================================================================
+
+// Common folder names that contain locale files
+const LOCALE_FOLDER_NAMES = [
+  'locales',
+  'locale',
+  'lang',
+  'langs',
+  'languages',
+  'i18n',
+  'translations',
+  'messages'
+]
+
+// Common nested patterns to check (order matters - more specific first)
+const LOCALE_FOLDER_PATTERNS = [
+  // Direct folders
+  'locales',
+  'locale',
+  'lang',
+  'langs',
+  'languages',
+  'translations',
+  'messages',
+  // i18n subfolders
+  'i18n/locales',
+  'i18n/locale',
+  'i18n/lang',
+  'i18n/messages',
+  // src subfolders
+  'src/locales',
+  'src/locale',
+  'src/i18n',
+  'src/i18n/locales',
+  'src/lang',
+  'src/languages',
+  // app subfolders (common in Nuxt, Next, etc.)
+  'app/locales',
+  'app/i18n',
+  'app/i18n/locales',
+  'app/lang',
+  // public/assets
+  'public/locales',
+  'public/lang',
+  'assets/locales',
+  'assets/i18n',
+  'assets/lang',
+  // Other common patterns
+  'resources/lang',
+  'resources/locales',
+  'config/locales',
+  'lib/locales'
+]
+
+/**
+ * Check if a directory contains locale files (JSON or YAML)
+ */
+function containsLocaleFiles(dirPath: string): boolean {
+  try {
+    // Ensure absolute path for consistent checks
+    const checkPath = path.isAbsolute(dirPath) ? dirPath : path.resolve(dirPath)
+    
+    if (!fs.existsSync(checkPath)) {
+      return false
+    }
+    if (!fs.statSync(checkPath).isDirectory()) {
+      return false
+    }
+    const files = fs.readdirSync(checkPath)
+    const localeFiles = files.filter(f => isLocaleFileName(f) && isLocaleFileContent(path.join(checkPath, f)))
+    if (localeFiles.length > 0) {
+      debugLog(`containsLocaleFiles: ${checkPath} has ${localeFiles.length} locale files: ${localeFiles.join(', ')}`)
+      return true // At least 1 locale file
+    }
+    // Namespaced layout: one folder per language (en/common.json, en/home.json)
+    const languageDirs = files.filter(f => isLocaleLanguageDir(path.join(checkPath, f)))
+    if (languageDirs.length > 0) {
+      debugLog(`containsLocaleFiles: ${checkPath} has namespaced language folders: ${languageDirs.join(', ')}`)
+    }
+    return languageDirs.length > 0
+  } catch (e) {
+    return false
+  }
+}
+
+/**
+ * Check known locale patterns at a single directory level (no recursion into children).
+ * This is a focused check - only looks at the directory itself and known patterns.
+ */
+function checkLocalePatterns(dir: string): string | null {
+  const searchDir = path.isAbsolute(dir) ? dir : path.resolve(dir)
+  
+  // 1. Check if this directory itself contains locale files
+  if (containsLocaleFiles(searchDir)) {
+    debugLog(`checkLocalePatterns: found locale files directly in ${searchDir}`)
+    return searchDir
+  }
+
+  // 2. Check known patterns as direct children (NO recursive descent)
+  for (const pattern of LOCALE_FOLDER_PATTERNS) {
+    const candidate = path.join(searchDir, pattern)
+    if (containsLocaleFiles(candidate)) {
+      debugLog(`checkLocalePatterns: found locale files at pattern ${pattern}: ${candidate}`)
+      return candidate
+    }
+  }
+
+  return null
+}
+
+/**
+ * Find the locales folder by walking UP from a file toward the workspace root.
+ * Only checks known patterns at each level - does NOT recursively search into all subdirectories.
+ * 
+ * @param filePath - The file being edited
+ * @param workspaceRoot - The workspace root (search stops here)
+ */
+function findLocalesFolderFromFile(filePath: string, workspaceRoot: string): string | null {
+  const absoluteFilePath = path.isAbsolute(filePath) ? filePath : path.resolve(filePath)
+  const absoluteWorkspaceRoot = path.isAbsolute(workspaceRoot) ? workspaceRoot : path.resolve(workspaceRoot)
+  
+  debugLog(`findLocalesFolderFromFile: starting from file=${absoluteFilePath}`)
+  debugLog(`findLocalesFolderFromFile: workspace root=${absoluteWorkspaceRoot}`)
+  
+  let currentDir = path.dirname(absoluteFilePath)
+  let iterations = 0
+  const maxIterations = 20 // Safety limit
+  
+  // Walk UP from the file's directory toward the workspace root
+  while (currentDir && iterations < maxIterations) {
+    iterations++
+    debugLog(`findLocalesFolderFromFile: checking level ${iterations}: ${currentDir}`)
+    
+    // Check known locale patterns at this level
+    const found = checkLocalePatterns(currentDir)
+    if (found) {
+      debugLog(`findLocalesFolderFromFile: found locales at ${found}`)
+      return found
+    }
+    
+    // Stop if we've reached or passed the workspace root
+    const normalizedCurrent = normalizePathForComparison(currentDir)
+    const normalizedRoot = normalizePathForComparison(absoluteWorkspaceRoot)
+    if (normalizedCurrent === normalizedRoot || 
+        !normalizedCurrent.startsWith(normalizedRoot + path.sep) && normalizedCurrent !== normalizedRoot) {
+      debugLog(`findLocalesFolderFromFile: reached workspace root, stopping`)
+      break
+    }
+    
+    // Move up one directory
+    const parent = path.dirname(currentDir)
+    if (parent === currentDir) {
+      debugLog(`findLocalesFolderFromFile: reached filesystem root, stopping`)
+      break
+    }
+    currentDir = parent
+  }
+  
+  // Final check: check the workspace root itself
+  const rootFound = checkLocalePatterns(absoluteWorkspaceRoot)
+  if (rootFound) {
+    debugLog(`findLocalesFolderFromFile: found locales at workspace root: ${rootFound}`)
+    return rootFound
+  }
+  
+  debugLog(`findLocalesFolderFromFile: no locales folder found`)
+  return null
+}
+
+/**
+ * Legacy function for backward compatibility - uses the new focused search.
+ */
+function findLocalesFolder(startDir: string, _maxDepth: number = 2): string | null {
+  // Just check patterns at this directory - no recursive search
+  return checkLocalePatterns(startDir)
+}
+
+/**
+ * Find locales folder for an orphan file (opened without a workspace folder).
+ * Walks UP from the file a limited number of levels, and at each level also
+ * checks immediate child directories for locale patterns.
+ * 
+ * @param filePath - The orphan file being edited
+ * @param maxLevelsUp - Maximum levels to walk up from the file (default: 5)
+ */
+function findLocalesFolderForOrphanFile(filePath: string, maxLevelsUp: number = 5): string | null {
+  const absoluteFilePath = path.isAbsolute(filePath) ? filePath : path.resolve(filePath)
+  
+  debugLog(`findLocalesFolderForOrphanFile: starting from file=${absoluteFilePath}, maxLevelsUp=${maxLevelsUp}`)
+  
+  let currentDir = path.dirname(absoluteFilePath)
+  let level = 0
+  
+  while (currentDir && level < maxLevelsUp) {
+    level++
+    debugLog(`findLocalesFolderForOrphanFile: checking level ${level}: ${currentDir}`)
+    
+    // 1. Check known locale patterns at this level
+    const found = checkLocalePatterns(currentDir)
+    if (found) {
+      debugLog(`findLocalesFolderForOrphanFile: found locales at ${found}`)
+      return found
+    }
+    
+    // 2. Check immediate child directories for locale patterns (only 1 level deep)
+    try {
+      const entries = fs.readdirSync(currentDir, { withFileTypes: true })
+      for (const entry of entries) {
+        if (!entry.isDirectory()) continue
+        // Skip node_modules, hidden folders, and common non-project folders
+        if (entry.name.startsWith('.') || 
+            entry.name === 'node_modules' || 
+            entry.name === 'dist' ||
+            entry.name === 'build' ||
+            entry.name === 'coverage') continue
+        
+        const childPath = path.join(currentDir, entry.name)
+        const childFound = checkLocalePatterns(childPath)
+        if (childFound) {
+          debugLog(`findLocalesFolderForOrphanFile: found locales in child ${childFound}`)
+          return childFound
+        }
+      }
+    } catch {
+      // Ignore errors reading directories
+    }
+    
+    // Move up one directory
+    const parent = path.dirname(currentDir)
+    if (parent === currentDir) {
+      debugLog(`findLocalesFolderForOrphanFile: reached filesystem root, stopping`)
+      break
+    }
+    currentDir = parent
+  }
+  
+  debugLog(`findLocalesFolderForOrphanFile: no locales folder found after ${level} levels`)
+  return null
+}
+
+/**
+ * Given a selected folder, find the best locales folder.
+ * Returns the selected folder if it contains locale files,
+ * otherwise searches for a suitable child folder.
+ */
+function resolveLocalesFolder(selectedFolder: string): string {
+  const found = findLocalesFolder(selectedFolder, 3)
+  return found || selectedFolder
+}
+
+// ============================================================================
+// MULTI-PROJECT / MONOREPO SUPPORT
+// Finds the nearest locales folder relative to a given file
+// ============================================================================
+
+// Cache of discovered locales folders per workspace root
+const localesFolderCache: Map<string, string | null> = new Map()
+
+/**
+ * Find the nearest locales folder for a given file by walking up the directory tree.
+ * Uses a cache keyed by workspace root to avoid repeated file system lookups.
+ * IMPORTANT: Only walks UP from the file, never searches into unrelated directories.
+ * 
+ * For orphan files (no workspace root), uses a limited upward search with child checking.
+ */
+function findNearestLocalesFolder(filePath: string, workspaceRoot?: string): string | null {
+  debugLog(`findNearestLocalesFolder: filePath=${filePath}, workspaceRoot=${workspaceRoot}`)
+  
+  // If no workspace root, use orphan file search (limited scope)
+  if (!workspaceRoot) {
+    debugLog(`findNearestLocalesFolder: no workspace root, using orphan file search`)
+    return findLocalesFolderForOrphanFile(filePath, 5)
+  }
+  
+  // Normalize workspace root for cache lookup (Windows case-insensitive)
+  const normalizedWorkspaceRoot = normalizePathForComparison(workspaceRoot)
+  
+  // Check cache first
+  if (localesFolderCache.has(normalizedWorkspaceRoot)) {
+    const cached = localesFolderCache.get(normalizedWorkspaceRoot) || null
+    debugLog(`findNearestLocalesFolder: returning cached value: ${cached}`)
+    return cached
+  }
+  
+  // Use the focused search that walks UP from file to workspace root
+  const found = findLocalesFolderFromFile(filePath, workspaceRoot)
+  
+  // Cache the result (including null to avoid repeated searches)
+  if (found) {
+    localesFolderCache.set(normalizedWorkspaceRoot, found)
+  }
+  
+  return found
+}
+
+/**
+ * Find locales folder specifically for a workspace root.
+ * Only checks known patterns at the workspace root - does NOT search into all subdirectories.
+ */
+function findLocalesFolderForWorkspace(workspaceRoot: string): string | null {
+  debugLog(`findLocalesFolderForWorkspace: workspaceRoot=${workspaceRoot}`)
+  // Normalize workspace root for cache lookup (Windows case-insensitive)
+  const normalizedWorkspaceRoot = normalizePathForComparison(workspaceRoot)
+  
+  // Check cache first
+  const cached = localesFolderCache.get(normalizedWorkspaceRoot)
+  if (cached) {
+    debugLog(`findLocalesFolderForWorkspace: returning cached value: ${cached}`)
+    return cached
+  }
+  
+  // Only check known patterns at workspace root - no recursive descent
+  const found = checkLocalePatterns(workspaceRoot)
+  
+  // Cache positive results
+  if (found) {
+    localesFolderCache.set(normalizedWorkspaceRoot, found)
+    debugLog(`findLocalesFolderForWorkspace: found and cached: ${found}`)
+  } else {
+    debugLog(`findLocalesFolderForWorkspace: no locales found at workspace root`)
+  }
+  
+  return found
+}
+
+/**
+ * Clear the locales folder cache (useful when user changes settings)
+ */
+function clearLocalesFolderCache(): void {
+  localesFolderCache.clear()
+}
+
+async function loadCliProjectConfig(projectRoot: string): Promise<any | null> {
+  const all = readAllCliConfigs()
+  if (!all) return null
+
+  const projectName = getProjectName(projectRoot)
+  let match = all.find((c: any) => c.projectName === projectName)
+  if (match) return match
+
+  // Fallback: match by projectPath
+  const rootNorm = normalizePath(projectRoot)
+  match = all.find((c: any) => normalizePath(c.projectPath) === rootNorm)
+  if (match) return match
+
+  // Fallback 2: match configs whose projectPath contains the current root (handles nested workspaces)
+  match = all.find((c: any) => {
+    const cp = normalizePath(c.projectPath)
+    return !!cp && !!rootNorm && (rootNorm.startsWith(cp) || cp.startsWith(rootNorm))
+  })
+  return match || null
+}
+
+function generateKeyPath(filePath: string, basePath: string): string | null {
+  const relativePath = path.relative(basePath, filePath)
+  if (!relativePath.includes(path.sep)) return null
+  return relativePath
+    .replace(/\\/g, '/')
+    .replace(/\.[^/.]+$/, '')
+    .split('/')
+    .join('.')
+}
+
+function ensureDir(dirPath: string) {
+  fs.mkdirSync(dirPath, { recursive: true })
+}
+
+// ---- Global unique 4-digit key generation ----
+function collectAllNumericLeafKeys(
+  obj: Record<string, any>,
+  used: Set<string> = new Set()
+): Set<string> {
+  for (const [k, v] of Object.entries(obj)) {
+    if (/^\d{4}$/.test(k) && typeof v !== 'object') {
+      used.add(k)
+    }
+    if (v && typeof v === 'object') {
+      collectAllNumericLeafKeys(v as Record<string, any>, used)
+    }
+  }
+  return used
+}
+
+function nextGlobalLeafKey(used: Set<string>): string {
+  // Prefer random selection for better distribution
+  for (let tries = 0; tries < 500; tries++) {
+    const k = Math.floor(Math.random() * 10000)
+      .toString()
+      .padStart(4, '0')
+    if (!used.has(k)) return k
+  }
+  // Fallback: deterministic scan if too many collisions
+  for (let i = 0; i < 10000; i++) {
+    const k = i.toString().padStart(4, '0')
+    if (!used.has(k)) return k
+  }
+  // Extremely unlikely: generate until unique
+  let k = (Math.floor(Math.random() * 10000)).toString().padStart(4, '0')
+  while (used.has(k)) {
+    k = (Math.floor(Math.random() * 10000)).toString().padStart(4, '0')
+  }
+  return k
+}
+
+/**
+ * Find the keys whose value matches the given text (whitespace-normalized)
+ */
+function findKeysWithValue(localeData: Record<string, any>, text: string): string[] {
+  const target = normalizeWhitespace(text)
+  if (!target) return []
+  return flattenLocale(localeData)
+    .filter(({ value }) => normalizeWhitespace(value) === target)
+    .map(({ key }) => key)
+}
+
+function addStringToBaseLanguage(
+  baseLangJson: Record<string, any>,
+  keyPathPrefix: string,
+  text: string
+): { updated: Record<string, any>; fullKeyPath: string } {
+  const parts = keyPathPrefix.split('.').filter(Boolean)
+  // A gettext catalog keys each string by its source text (the msgid) instead of a generated id
+  let catalog: any = baseLangJson
+  for (let i = 0; i <= parts.length && catalog && typeof catalog === 'object'; i++) {
+    if (gettextLocaleData.has(catalog)) {
+      if (!(text in catalog)) catalog[text] = text
+      return { updated: baseLangJson, fullKeyPath: [...parts.slice(0, i), text].join('.') }
+    }
+    catalog = catalog[parts[i]]
+  }
+  const used = collectAllNumericLeafKeys(baseLangJson)
+
+  // Ensure intermediate containers are objects and lift strings when needed
+  let container = baseLangJson as any
+  for (const part of parts) {
+    if (typeof container[part] === 'string') {
+      const prev = container[part]
+      container[part] = {}
+      const prevKey = nextGlobalLeafKey(used)
+      used.add(prevKey)
+      container[part][prevKey] = prev
+    } else if (container[part] === undefined) {
+      container[part] = {}
+    }
+    container = container[part]
+  }
+
+  const leafKey = nextGlobalLeafKey(used)
+  // Merge rather than overwrite whole file
+  setDeepValue(baseLangJson, parts, leafKey, text)
+
+  return { updated: baseLangJson, fullKeyPath: `${keyPathPrefix}.${leafKey}` }
+}
+
+function setDeepValue(
+  obj: Record<string, any>,
+  pathParts: string[],
+  leafKey: string,
+  value: string
+) {
+  let node = obj
+  for (let i = 0; i < pathParts.length; i++) {
+    const part = pathParts[i]
+    const isLast = i === pathParts.length - 1
+    if (!isLast) {
+      if (node[part] === undefined) node[part] = {}
+      else if (typeof node[part] === 'string') node[part] = { '0000': node[part] }
+      node = node[part]
+    } else {
+      if (node[part] === undefined) node[part] = {}
+      else if (typeof node[part] === 'string') node[part] = { '0000': node[part] }
+      node[part][leafKey] = value
+    }
+  }
+}
+
+/**
+ * Set a value at a full dotted key (leaf included), lifting string parents the same way setDeepValue does
+ */
+function setValueByKeyPath(obj: Record<string, any>, keyPath: string, value: string): void {
+  const parts = splitLocaleKeyPath(obj, keyPath)
+  const leaf = parts.pop()
+  if (!leaf) return
+  if (parts.length === 0) {
+    obj[leaf] = value
+    return
+  }
+  setDeepValue(obj, parts, leaf, value)
+}
+
+/**
+ * Levenshtein distance between two strings
+ */
+function editDistance(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_v, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i]
+    for (let j = 1; j <= b.length; j++) {
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1))
+    }
+    prev = cur
+  }
+  return prev[b.length]
+}
+
+/**
+ * Find the existing key closest to a (mistyped) key, or null if nothing is reasonably close
+ */
+function findClosestKey(target: string, candidates: string[]): string | null {
+  const maxDistance = Math.max(3, Math.floor(target.length * 0.4))
+  let best: string | null = null
+  let bestDistance = Infinity
+  for (const candidate of candidates) {
+    if (Math.abs(candidate.length - target.length) > maxDistance) continue
+    const d = editDistance(target, candidate)
+    if (d < bestDistance) {
+      best = candidate
+      bestDistance = d
+    }
+  }
+  return bestDistance <= maxDistance ? best : null
+}
+
+function getDeepValue(obj: Record<string, any>, pathParts: string[]): any {
+  let node: any = obj
+  for (const part of pathParts) {
+    if (!node || typeof node !== 'object' || !(part in node)) return undefined
+    node = node[part]
+  }
+  return node
+}
+
+/**
+ * Remove a leaf or namespace and prune parent objects that become empty
+ */
+function deleteDeepValue(obj: Record<string, any>, pathParts: string[]): boolean {
+  if (pathParts.length === 0) return false
+  const parents: any[] = [obj]
+  let node: any = obj
+  for (const part of pathParts.slice(0, -1)) {
+    if (!node[part] || typeof node[part] !== 'object') return false
+    node = node[part]
+    parents.push(node)
+  }
+  const leaf = pathParts[pathParts.length - 1]
+  if (!(leaf in node)) return false
+  delete node[leaf]
+  for (let i = parents.length - 1; i > 0; i--) {
+    if (Object.keys(parents[i]).length > 0) break
+    delete parents[i - 1][pathParts[i - 1]]
+  }
+  return true
+}
+
+/**
+ * Move a leaf or namespace to a new path. The target must not exist yet and
+ * must not pass through an existing string value.
+ */
+function moveDeepValue(
+  obj: Record<string, any>,
+  fromParts: string[],
+  toParts: string[]
+): 'moved' | 'missing' | 'conflict' {
+  const value = getDeepValue(obj, fromParts)
+  if (value === undefined) return 'missing'
+  let probe: any = obj
+  for (const part of toParts.slice(0, -1)) {
+    if (probe === undefined) break
+    if (typeof probe !== 'object') return 'conflict'
+    probe = probe[part]
+  }
+  if (probe !== undefined && (typeof probe !== 'object' || toParts[toParts.length - 1] in probe)) return 'conflict'
+
+  deleteDeepValue(obj, fromParts)
+  let node: any = obj
+  for (const part of toParts.slice(0, -1)) {
+    if (node[part] === undefined) node[part] = {}
+    node = node[part]
+  }
+  node[toParts[toParts.length - 1]] = value
+  return 'moved'
+}
+
+/**
+ * JSON text for locale data. With a `sample` (the file's current content, or a sibling locale file for a
+ * new one) its indentation, line endings, final newline, BOM and \uXXXX escaping are kept.
+ */
+function serializeLocale(data: Record<string, any>, sample?: string): string {
+  if (!sample) return JSON.stringify(data, null, 2)
+  const content = stripBOM(sample)
+  const indent = (content.match(/^[ \t]+(?=\S)/m) || ['  '])[0]
+  const eol = content.includes('\r\n') ? '\r\n' : '\n'
+  const escapeCase = getUnicodeEscapeCase(content)
+  let text = JSON.stringify(data, null, indent).replace(/\n/g, eol)
+  if (escapeCase) text = escapeNonAscii(text, escapeCase)
+  const bom = sample.charCodeAt(0) === 0xfeff ? '\uFEFF' : ''
+  return bom + text + (/\n\s*$/.test(content) ? eol : '')
+}
+
+async function withEdit(editor: vscode.TextEditor, replacer: (edit: vscode.TextEditorEdit) => void) {
+  await editor.edit((edit) => replacer(edit), { undoStopAfter: true, undoStopBefore: true })
+}
+
+// ---------- Stringer CLI runs launched from the extension ----------
+// Terminals whose CLI command may still be writing locale files; locale writes wait for them (see waitForStringerCli)
+const runningCliTerminals = new Set<vscode.Terminal>()
+// Without shell integration the end of a command cannot be observed, so stop waiting after this long
+const CLI_UNTRACKED_TIMEOUT_MS = 120000
+
+function runStringerInTerminal(name: string, cwd: string, command: string): void {
+  const terminal = vscode.window.createTerminal({ name, cwd })
+  terminal.show()
+  runningCliTerminals.add(terminal)
+  let started = false
+  const start = () => {
+    if (started) return
+    started = true
+    const shell = terminal.shellIntegration
+    if (shell && typeof vscode.window.onDidEndTerminalShellExecution === 'function') {
+      const execution = shell.executeCommand(command)
+      const ended = vscode.window.onDidEndTerminalShellExecution((e) => {
+        if (e.execution !== execution) return
+        runningCliTerminals.delete(terminal)
+        ended.dispose()
+      })
+    } else {
+      terminal.sendText(command, true)
+      setTimeout(() => runningCliTerminals.delete(terminal), CLI_UNTRACKED_TIMEOUT_MS)
+    }
+  }
+  // Shell integration (VS Code 1.93+) activates shortly after the terminal opens, if at all
+  if (typeof vscode.window.onDidChangeTerminalShellIntegration !== 'function') {
+    start()
+    return
+  }
+  const activated = vscode.window.onDidChangeTerminalShellIntegration((e) => {
+    if (e.terminal !== terminal) return
+    activated.dispose()
+    start()
+  })
+  setTimeout(() => {
+    activated.dispose()
+    start()
+  }, 3000)
+}
+
+/**
+ * Hold locale writes while a Stringer CLI command started from here is running, so neither side
+ * overwrites the other. Resolves to false when the user cancels the wait.
+ */
+async function waitForStringerCli(): Promise<boolean> {
+  if (runningCliTerminals.size === 0) return true
+  const finished = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: vscode.l10n.t('Stringer: Waiting for the Stringer CLI to finish before writing locale files…'),
+      cancellable: true
+    },
+    (_progress, token) =>
+      new Promise<boolean>((resolve) => {
+        const timer = setInterval(() => {
+          if (runningCliTerminals.size > 0) return
+          clearInterval(timer)
+          resolve(true)
+        }, 500)
+        token.onCancellationRequested(() => {
+          clearInterval(timer)
+          resolve(false)
+        })
+      })
+  )
+  if (!finished) vscode.window.showInformationMessage(vscode.l10n.t('Cancelled. No locale files were changed.'))
+  return finished
+}
+
+async function runAlignInTerminal(cwd: string) {
+  runStringerInTerminal(vscode.l10n.t('Stringer Align'), cwd, 'stringer align')
+}
+
+// Run stringer convert in integrated terminal
+async function runConvertInTerminal(cwd: string) {
+  runStringerInTerminal(vscode.l10n.t('Stringer Convert'), cwd, 'stringer convert')
+}
+
+// ---------- i18n key usage detection ----------
+interface TCallMatch {
+  key: string
+  start: number // start of the whole t(...) call
+  end: number
+  keyStart: number // start of the key text inside the quotes
+  check: boolean // existence check like te('key'): a usage, but never reported as missing
+  args: Array<{ start: number; end: number }> // every argument, trimmed, the key literal first
+  scope: string // prefix of the scoped t function the call goes through ('' when unscoped), see KeyScope
+}
+
+const DEFAULT_TRANSLATION_FUNCTIONS = ['t', '$t', 'tc', '$tc', 't.rich', 't.markup', 't.raw', '$_', '$format']
+const DEFAULT_KEY_EXISTENCE_FUNCTIONS = ['te', '$te', 't.has']
+
+/**
+ * Configured translation and existence-check function names. Names may be member paths
+ * (t.rich, i18n.global.t); any object prefix like this. or i18n. is accepted in front of a name,
+ * so `$t` also matches this.$t and `t` matches i18n.global.t
+ */
+function getTranslationFunctionNames(): { names: string[]; checks: string[] } {
+  const cfg = vscode.workspace.getConfiguration('stringerHelper')
+  const names = cfg.get<string[]>('translationFunctions', DEFAULT_TRANSLATION_FUNCTIONS)
+  const checkNames = cfg.get<string[]>('keyExistenceFunctions', DEFAULT_KEY_EXISTENCE_FUNCTIONS)
+  const clean = (list: unknown) =>
+    (Array.isArray(list) ? list : []).filter((n): n is string => typeof n === 'string' && /^[\w$]+(\.[\w$]+)*$/.test(n))
+  return { names: clean(names), checks: clean(checkNames) }
+}
+
+// Regex alternation of callee names, longest first so t.rich wins over t
+function toCalleePattern(names: string[]): string {
+  const unique = Array.from(new Set(names)).sort((a, b) => b.length - a.length)
+  return unique.length > 0 ? unique.map((n) => n.replace(/[$.]/g, '\\$&')).join('|') : '(?!)'
+}
+
+// ---------- Lightweight JS/TS tokenizer ----------
+// Produces a copy of the source where everything that is not executable code (comments, string
+// contents, markup text, static attribute values) is blanked out. Offsets and line breaks are kept,
+// so a match in the masked text maps 1:1 to the original.
+
+type SourceKind = 'vue' | 'svelte' | 'jsx' | 'script'
+
+function getSourceKind(filePath: string): SourceKind {
+  if (isVueFile(filePath)) return 'vue'
+  if (isSvelteFile(filePath)) return 'svelte'
+  if (/\.(jsx|tsx|js|mjs|cjs|mdx)$/i.test(filePath)) return 'jsx'
+  return 'script'
+}
+
+// A '/' or '<' after these starts a regex literal or JSX element instead of an operator
+const EXPRESSION_START_CHARS = '(,=:[!&|?{};+-*%<>~^'
+const EXPRESSION_START_KEYWORDS = new Set(['return', 'typeof', 'instanceof', 'in', 'of', 'new', 'delete', 'void', 'throw', 'case', 'do', 'else', 'yield', 'await'])
+
+function blankRange(out: string[], start: number, end: number): void {
+  for (let i = start; i < end; i++) {
+    if (out[i] !== '\n' && out[i] !== '\r') out[i] = ' '
+  }
+}
+
+/**
+ * Mask JavaScript/TypeScript code from pos until `stop` appears outside any brackets (or `end`).
+ * Returns the offset of the stop sequence, or `end` when it never appears.
+ */
+function maskJsCode(text: string, out: string[], pos: number, end: number, jsx: boolean, stop: string | null): number {
+  let depth = 0
+  let prev = '' // last significant character; 'a' after identifiers and numbers, '"' after literals
+  let word = ''
+  let i = pos
+  while (i < end) {
+    const c = text[i]
+    if (stop && depth === 0 && text.startsWith(stop, i)) return i
+    if (c === '/' && text[i + 1] === '/') {
+      const nl = text.indexOf('\n', i)
+      const lineEnd = nl === -1 || nl > end ? end : nl
+      blankRange(out, i, lineEnd)
+      i = lineEnd
+      continue
+    }
+    if (c === '/' && text[i + 1] === '*') {
+      const close = text.indexOf('*/', i + 2)
+      const commentEnd = close === -1 || close + 2 > end ? end : close + 2
+      blankRange(out, i, commentEnd)
+      i = commentEnd
+      continue
+    }
+    if (c === "'" || c === '"') {
+      i = maskQuotedString(text, out, i, end)
+      prev = '"'
+      continue
+    }
+    if (c === '`') {
+      i = maskTemplateLiteral(text, out, i, end, jsx)
+      prev = '"'
+      continue
+    }
+    const atExpressionStart = prev === '' || EXPRESSION_START_CHARS.includes(prev) || (prev === 'a' && EXPRESSION_START_KEYWORDS.has(word))
+    if (c === '/' && atExpressionStart) {
+      i = maskRegexLiteral(text, out, i, end)
+      prev = '"'
+      continue
+    }
+    if (c === '<' && jsx && atExpressionStart && /[A-Za-z>]/.test(text[i + 1] || '')) {
+      const elementEnd = maskJsxElement(text, out, i, end)
+      if (elementEnd !== -1) {
+        i = elementEnd
+        prev = '"'
+        continue
+      }
+      // Not JSX after all (e.g. a generic arrow function): undo and treat '<' as an operator
+      for (let k = i; k < end; k++) out[k] = text[k]
+    }
+    if (/[\w$]/.test(c)) {
+      let j = i + 1
+      while (j < end && /[\w$]/.test(text[j])) j++
+      word = text.slice(i, j)
+      prev = 'a'
+      i = j
+      continue
+    }
+    if (c === '(' || c === '[' || c === '{') depth++
+    else if ((c === ')' || c === ']' || c === '}') && depth > 0) depth--
+    if (!/\s/.test(c)) prev = c
+    i++
+  }
+  return end
+}
+
+// Blank the contents of a '...' or "..." literal; unterminated literals end at the line break
+function maskQuotedString(text: string, out: string[], start: number, end: number): number {
+  const quote = text[start]
+  let j = start + 1
+  while (j < end) {
+    const c = text[j]
+    if (c === '\\') {
+      j += 2
+      continue
+    }
+    if (c === quote) {
+      blankRange(out, start + 1, j)
+      return j + 1
+    }
+    if (c === '\n') break
+    j++
+  }
+  j = Math.min(j, end)
+  blankRange(out, start + 1, j)
+  return j
+}
+
+// Blank the static parts of a template literal; ${...} expressions stay code
+function maskTemplateLiteral(text: string, out: string[], start: number, end: number, jsx: boolean): number {
+  let segmentStart = start + 1
+  let j = start + 1
+  while (j < end) {
+    const c = text[j]
+    if (c === '\\') {
+      j += 2
+      continue
+    }
+    if (c === '`') {
+      blankRange(out, segmentStart, j)
+      return j + 1
+    }
+    if (c === '$' && text[j + 1] === '{') {
+      blankRange(out, segmentStart, j)
+      j = maskJsCode(text, out, j + 2, end, jsx, '}') + 1
+      segmentStart = j
+      continue
+    }
+    j++
+  }
+  blankRange(out, segmentStart, end)
+  return end
+}
+
+function maskRegexLiteral(text: string, out: string[], start: number, end: number): number {
+  let inClass = false
+  let j = start + 1
+  while (j < end && text[j] !== '\n') {
+    const c = text[j]
+    if (c === '\\') {
+      j += 2
+      continue
+    }
+    if (c === '[') inClass = true
+    else if (c === ']') inClass = false
+    else if (c === '/' && !inClass) {
+      blankRange(out, start + 1, j)
+      j++
+      while (j < end && /[a-z]/i.test(text[j])) j++
+      return j
+    }
+    j++
+  }
+  blankRange(out, start + 1, j)
+  return j
+}
+
+/**
+ * Mask a JSX element starting at '<': text children and string attributes are blanked,
+ * {expressions} stay code. Returns the offset after the element, or -1 when it is not JSX.
+ */
+function maskJsxElement(text: string, out: string[], start: number, end: number): number {
+  const nameRx = /[A-Za-z][\w.:-]*/y
+  nameRx.lastIndex = start + 1
+  const name = nameRx.exec(text)?.[0] ?? ''
+  let j = start + 1 + name.length
+  for (;;) {
+    if (j >= end) return -1
+    const c = text[j]
+    if (c === '{') {
+      j = maskJsCode(text, out, j + 1, end, true, '}')
+      if (j >= end) return -1
+      j++
+    } else if (c === '"' || c === "'") {
+      const close = text.indexOf(c, j + 1)
+      if (close === -1 || close >= end) return -1
+      blankRange(out, j + 1, close)
+      j = close + 1
+    } else if (c === '/' && text[j + 1] === '>') {
+      return j + 2
+    } else if (c === '<') {
+      return -1
+    } else if (c === '>') {
+      j++
+      break
+    } else {
+      j++
+    }
+  }
+  let textStart = j
+  while (j < end) {
+    const c = text[j]
+    if (c === '{') {
+      blankRange(out, textStart, j)
+      j = maskJsCode(text, out, j + 1, end, true, '}')
+      if (j >= end) return -1
+      j++
+      textStart = j
+      continue
+    }
+    if (c === '<') {
+      blankRange(out, textStart, j)
+      if (text[j + 1] === '/') {
+        const close = text.indexOf('>', j)
+        if (close === -1 || close >= end || text.slice(j + 2, close).trim() !== name) return -1
+        return close + 1
+      }
+      if (!/[A-Za-z>]/.test(text[j + 1] || '')) return -1
+      j = maskJsxElement(text, out, j, end)
+      if (j === -1) return -1
+      textStart = j
+      continue
+    }
+    j++
+  }
+  return -1
+}
+
+// Mask Vue template markup: only {{ }} interpolations and directive values (:x, @x, #x, v-x) are code
+function maskVueMarkup(text: string, out: string[], start: number, end: number): void {
+  let textStart = start
+  let j = start
+  while (j < end) {
+    if (text.startsWith('<!--', j)) {
+      const close = text.indexOf('-->', j + 4)
+      j = close === -1 || close + 3 > end ? end : close + 3
+      blankRange(out, textStart, j)
+      textStart = j
+    } else if (text.startsWith('{{', j)) {
+      blankRange(out, textStart, j + 2)
+      j = maskJsCode(text, out, j + 2, end, false, '}}')
+      blankRange(out, j, Math.min(j + 2, end))
+      j = Math.min(j + 2, end)
+      textStart = j
+    } else if (text[j] === '<' && /[A-Za-z/]/.test(text[j + 1] || '')) {
+      blankRange(out, textStart, j)
+      j = maskVueTag(text, out, j, end)
+      textStart = j
+    } else {
+      j++
+    }
+  }
+  blankRange(out, textStart, end)
+}
+
+function maskVueTag(text: string, out: string[], start: number, end: number): number {
+  let segmentStart = start
+  let j = start + 1
+  while (j < end && text[j] !== '>') {
+    const quote = text[j]
+    if (quote !== '"' && quote !== "'") {
+      j++
+      continue
+    }
+    const attr = /([^\s=<>"'/]+)\s*=\s*$/.exec(text.slice(start, j))
+    if (attr && /^(?::|@|#|v-)/.test(attr[1])) {
+      blankRange(out, segmentStart, j + 1)
+      j = maskJsCode(text, out, j + 1, end, false, quote)
+      segmentStart = j
+      j++
+    } else {
+      const close = text.indexOf(quote, j + 1)
+      j = close === -1 ? end : close + 1
+    }
+  }
+  const tagEnd = Math.min(j + 1, end)
+  blankRange(out, segmentStart, tagEnd)
+  return tagEnd
+}
+
+// Mask Svelte markup: {expressions}, also inside attribute values, are code; text and <style> blocks are not
+function maskSvelteMarkup(text: string, out: string[], start: number, end: number): void {
+  let textStart = start
+  let j = start
+  while (j < end) {
+    if (text.startsWith('<!--', j)) {
+      const close = text.indexOf('-->', j + 4)
+      j = close === -1 || close + 3 > end ? end : close + 3
+    } else if (/^<style[\s>]/i.test(text.slice(j, j + 7))) {
+      const close = text.indexOf('</style>', j)
+      j = close === -1 || close + 8 > end ? end : close + 8
+    } else if (text[j] === '{') {
+      blankRange(out, textStart, j + 1)
+      j = maskJsCode(text, out, j + 1, end, false, '}')
+      // The closing brace is blanked with the text that follows
+      textStart = j
+      j++
+    } else if (text[j] === '<' && /[A-Za-z/]/.test(text[j + 1] || '')) {
+      blankRange(out, textStart, j)
+      j = maskSvelteTag(text, out, j, end)
+      textStart = j
+    } else {
+      j++
+    }
+  }
+  blankRange(out, textStart, end)
+}
+
+function maskSvelteTag(text: string, out: string[], start: number, end: number): number {
+  let segmentStart = start
+  let quote: string | null = null
+  let j = start + 1
+  while (j < end) {
+    const c = text[j]
+    if (c === '{') {
+      blankRange(out, segmentStart, j + 1)
+      j = maskJsCode(text, out, j + 1, end, false, '}')
+      segmentStart = j
+    } else if (quote) {
+      if (c === quote) quote = null
+    } else if (c === '"' || c === "'") {
+      quote = c
+    } else if (c === '>') {
+      break
+    }
+    j++
+  }
+  const tagEnd = Math.min(j + 1, end)
+  blankRange(out, segmentStart, tagEnd)
+  return tagEnd
+}
+
+let maskedSourceCache: { text: string; kind: SourceKind; code: string } | null = null
+
+/**
+ * Return the source with comments, string contents and markup text replaced by spaces
+ */
+function maskNonCode(text: string, kind: SourceKind): string {
+  if (maskedSourceCache && maskedSourceCache.kind === kind && maskedSourceCache.text === text) return maskedSourceCache.code
+  const out = text.split('')
+  if (kind === 'vue' || kind === 'svelte') {
+    const maskMarkup = kind === 'vue' ? maskVueMarkup : maskSvelteMarkup
+    let markupStart = 0
+    for (const r of getScriptRanges(text)) {
+      maskMarkup(text, out, markupStart, r.start)
+      maskJsCode(text, out, r.start, r.end, false, null)
+      markupStart = r.end
+    }
+    maskMarkup(text, out, markupStart, text.length)
+  } else {
+    maskJsCode(text, out, 0, text.length, kind === 'jsx', null)
+  }
+  const code = out.join('')
+  maskedSourceCache = { text, kind, code }
+  return code
+}
+
+/**
+ * Split the argument list of the call whose '(' is at `open` in masked code.
+ * Returns trimmed argument ranges and the offset after ')', or null when the call is unterminated.
+ */
+function findCallArguments(code: string, open: number): { args: Array<{ start: number; end: number }>; end: number } | null {
+  const args: Array<{ start: number; end: number }> = []
+  let depth = 0
+  let argStart = open + 1
+  const pushArg = (argEnd: number) => {
+    let s = argStart
+    let e = argEnd
+    while (s < e && /\s/.test(code[s])) s++
+    while (e > s && /\s/.test(code[e - 1])) e--
+    if (e > s) args.push({ start: s, end: e })
+  }
+  for (let i = open + 1; i < code.length; i++) {
+    const c = code[i]
+    if (c === '(' || c === '[' || c === '{') {
+      depth++
+    } else if (c === ')' || c === ']' || c === '}') {
+      if (depth > 0) {
+        depth--
+        continue
+      }
+      if (c !== ')') return null
+      pushArg(i)
+      return { args, end: i + 1 }
+    } else if (c === ',' && depth === 0) {
+      pushArg(i)
+      argStart = i + 1
+    }
+  }
+  return null
+}
+
+/**
+ * Text of the string literal spanning exactly `range` in masked code. A template literal with ${...}
+ * parts is not a static key, so it yields null like readLeadingLiteral.
+ */
+function getStringLiteralValue(text: string, code: string, range: { start: number; end: number }): string | null {
+  const quote = code[range.start]
+  if (quote !== "'" && quote !== '"' && quote !== '`') return null
+  if (range.end - range.start < 2 || code[range.end - 1] !== quote) return null
+  // Not 'a' + 'b': the closing quote must be the first one after the opening quote
+  const inner = code.slice(range.start + 1, range.end - 1)
+  if (inner.includes(quote) || inner.includes('${')) return null
+  return text.slice(range.start + 1, range.end - 1)
+}
+
+/**
+ * Find translation calls whose first argument is a single string literal. Calls inside comments
+ * and strings are ignored; arguments may nest parentheses and span lines. Functions bound by
+ * useTranslations('ns') / useTranslation('ns', { keyPrefix }) are found under their own names too.
+ */
+function findTCallsInText(text: string, filePath = ''): TCallMatch[] {
+  const results: TCallMatch[] = []
+  const { code, calls } = scanTranslationCalls(text, filePath)
+  for (const call of calls) {
+    const first = call.args[0]
+    const key = getStringLiteralValue(text, code, first)
+    // Other quote characters are part of the key (a gettext msgid like "It's done"); escapes are not read
+    if (!key || /[\\\r\n]/.test(key)) continue
+    results.push({ ...call, key, keyStart: first.start + 1 })
+  }
+  return results
+}
+
+/**
+ * Static start of keys built at runtime, like `nav.` for t(`nav.${id}`), with the scope of the t function applied.
+ * They are not usages of one key, but keep every key under them in use.
+ */
+function findDynamicKeyPrefixesInText(text: string, filePath = ''): string[] {
+  const { code, calls } = scanTranslationCalls(text, filePath)
+  const prefixes: string[] = []
+  for (const call of calls) {
+    const first = call.args[0]
+    if (code[first.start] !== '`' || code[first.end - 1] !== '`') continue
+    const dynamic = code.indexOf('${', first.start)
+    if (dynamic === -1 || dynamic >= first.end) continue
+    prefixes.push(applyKeyScope(text.slice(first.start + 1, dynamic), call.scope))
+  }
+  return prefixes
+}
+
+// Translation calls with at least one argument, found in the masked code of a file
+function scanTranslationCalls(text: string, filePath: string): { code: string; calls: Array<Omit<TCallMatch, 'key' | 'keyStart'>> } {
+  const calls: Array<Omit<TCallMatch, 'key' | 'keyStart'>> = []
+  const { names, checks } = getTranslationFunctionNames()
+  const code = maskNonCode(text, getSourceKind(filePath))
+  const scopes = findKeyScopesInText(text, filePath)
+  const checkNames = new Set([...checks, ...scopes.flatMap(getScopedCheckNames)])
+  const callees = toCalleePattern([...names, ...checkNames, ...scopes.flatMap(getScopedCalleeNames)])
+  const rx = new RegExp(`(?<![\\w$])(${callees})\\s*\\(`, 'g')
+  for (let m: RegExpExecArray | null = rx.exec(code); m; m = rx.exec(code)) {
+    const call = findCallArguments(code, m.index + m[0].length - 1)
+    if (!call || call.args.length === 0) continue
+    calls.push({
+      start: m.index,
+      end: call.end,
+      check: checkNames.has(m[1]),
+      args: call.args,
+      scope: getKeyScopeAt(scopes, m[1], m.index)
+    })
+  }
+  return { code, calls }
+}
+
+// ---------- Scoped translation functions (next-intl namespaces, react-i18next keyPrefix) ----------
+interface KeyScope {
+  binding: string // variable holding the scoped t function
+  prefix: string // prepended to keys as written: 'Dashboard.' (next-intl), 'common:' or 'common:nav.' (react-i18next)
+  members: boolean // next-intl: t.rich / t.markup / t.raw take keys too and t.has checks one
+  start: number // the binding applies from its declaration to the end of the enclosing block
+  end: number
+}
+
+const SCOPED_KEY_MEMBERS = ['rich', 'markup', 'raw']
+
+function getScopedCalleeNames(scope: KeyScope): string[] {
+  return [scope.binding, ...(scope.members ? SCOPED_KEY_MEMBERS.map((m) => `${scope.binding}.${m}`) : [])]
+}
+
+function getScopedCheckNames(scope: KeyScope): string[] {
+  return scope.members ? [`${scope.binding}.has`] : []
+}
+
+// Offset just after the block that encloses `offset` in masked code; the end of the text at top level
+function getEnclosingBlockEnd(code: string, offset: number): number {
+  let depth = 0
+  for (let i = offset - 1; i >= 0; i--) {
+    if (code[i] === '}') depth++
+    else if (code[i] === '{' && depth-- === 0) {
+      let inner = 0
+      for (let j = i; j < code.length; j++) {
+        if (code[j] === '{') inner++
+        else if (code[j] === '}' && --inner === 0) return j + 1
+      }
+      return code.length
+    }
+  }
+  return code.length
+}
+
+// Static string literal at the start of text[pos, end), e.g. the first element of ['common', 'nav']
+function readLeadingLiteral(text: string, code: string, pos: number, end: number): string | null {
+  while (pos < end && /\s/.test(code[pos])) pos++
+  const quote = code[pos]
+  if (quote !== "'" && quote !== '"' && quote !== '`') return null
+  const close = code.indexOf(quote, pos + 1)
+  if (close === -1 || close >= end) return null
+  const value = text.slice(pos + 1, close)
+  return value.includes('${') ? null : value
+}
+
+// Value of a static string property like `namespace: 'Dashboard'` inside an object literal argument
+function readLiteralProperty(text: string, code: string, range: { start: number; end: number }, name: string): string | null {
+  if (code[range.start] !== '{') return null
+  const m = new RegExp(`(?<![\\w$])${name}\\s*:`).exec(code.slice(range.start, range.end))
+  return m ? readLeadingLiteral(text, code, range.start + m.index + m[0].length, range.end) : null
+}
+
+/**
+ * Find scoped translation functions: next-intl `const t = useTranslations('Dashboard')` (or
+ * `await getTranslations(...)`) and react-i18next `const { t } = useTranslation('ns', { keyPrefix })`
+ */
+function findKeyScopesInText(text: string, filePath = ''): KeyScope[] {
+  const code = maskNonCode(text, getSourceKind(filePath))
+  const scopes: KeyScope[] = []
+  const rx = /\b(?:const|let|var)\s+(?:([A-Za-z_$][\w$]*)|\{([^}]*)\})\s*=\s*(?:await\s+)?(useTranslations|getTranslations|useTranslation)\s*\(/g
+  for (let m: RegExpExecArray | null = rx.exec(code); m; m = rx.exec(code)) {
+    const call = findCallArguments(code, m.index + m[0].length - 1)
+    if (!call) continue
+    const [first, second] = call.args
+    let binding: string | null = null
+    let prefix = ''
+    if (m[3] === 'useTranslation') {
+      // const { t } = useTranslation(...) or const { t: tCommon } = useTranslation(...)
+      const destructured = m[2] && /(?:^|,)\s*t\s*(?::\s*([A-Za-z_$][\w$]*)\s*)?(?:,|$)/.exec(m[2])
+      if (destructured) binding = destructured[1] || 't'
+      const namespace = first ? readLeadingLiteral(text, code, code[first.start] === '[' ? first.start + 1 : first.start, first.end) : null
+      const keyPrefix = second ? readLiteralProperty(text, code, second, 'keyPrefix') : null
+      prefix = (namespace ? `${namespace}:` : '') + (keyPrefix ? `${keyPrefix}.` : '')
+    } else {
+      binding = m[1] || null
+      const namespace = first
+        ? code[first.start] === '{'
+          ? readLiteralProperty(text, code, first, 'namespace')
+          : getStringLiteralValue(text, code, first)
+        : null
+      prefix = namespace ? `${namespace}.` : ''
+    }
+    if (!binding) continue
+    scopes.push({ binding, prefix, members: m[3] !== 'useTranslation', start: m.index, end: getEnclosingBlockEnd(code, m.index) })
+  }
+  return scopes
+}
+
+// Prefix of the innermost scoped t function `callee` refers to at `offset`
+function getKeyScopeAt(scopes: KeyScope[], callee: string, offset: number): string {
+  const binding = callee.split('.')[0]
+  let found: KeyScope | null = null
+  for (const scope of scopes) {
+    if (scope.binding === binding && scope.start <= offset && offset < scope.end) found = scope
+  }
+  return found ? found.prefix : ''
+}
+
+/**
+ * Key as the locale files see it: the scope prefix goes in front, but an explicit `ns:` in the key
+ * wins over the namespace the t function was created with
+ */
+function applyKeyScope(key: string, prefix: string): string {
+  if (!prefix) return key
+  const ns = key.match(/^[^.:]+:/)
+  if (ns && /^[^.:]+:/.test(prefix)) return ns[0] + prefix.replace(/^[^.:]+:/, '') + key.slice(ns[0].length)
+  return prefix + key
+}
+
+/**
+ * Key to write inside a scoped t() call for a key in written form (`ns:key` or dotted), or the key
+ * unchanged when it lies outside the scope
+ */
+function removeKeyScope(key: string, prefix: string): string {
+  const dotted = prefix.replace(/^([^.:]+):/, '$1.')
+  const normalized = key.replace(/^([^.:]+):/, '$1.')
+  return dotted && normalized.startsWith(dotted) ? normalized.slice(dotted.length) : key
+}
+
+/**
+ * Dotted locale path a scope prefix points at in this locale data, without the trailing dot.
+ * A react-i18next namespace counts only when the data is split into namespaces or has it as a top-level key.
+ */
+function getScopeKeyPath(prefix: string, data: Record<string, any>): string {
+  const ns = prefix.match(/^([^.:]+):/)
+  let rest = prefix
+  if (ns) {
+    rest = prefix.slice(ns[0].length)
+    if (namespacedLocaleData.has(data) || ns[1] in data) rest = `${ns[1]}.${rest}`
+  }
+  return rest.replace(/\.$/, '')
+}
+
+/**
+ * A full locale key as a scoped t function takes it (relative to `scopePath`), or null when that function
+ * cannot reach the key. In the namespaced layout a scope without a namespace sits below the key's namespace.
+ */
+function getKeyBelowScope(fullKey: string, scopePath: string, namespaced: boolean): string | null {
+  if (fullKey.startsWith(scopePath + '.')) return fullKey.slice(scopePath.length + 1)
+  const rest = fullKey.slice(fullKey.indexOf('.') + 1)
+  if (namespaced && fullKey.includes('.') && rest.startsWith(scopePath + '.')) return rest.slice(scopePath.length + 1)
+  return null
+}
+
+// Component props and directives that take an i18n key. Each pattern ends with the key's closing quote.
+const KEY_ATTRIBUTE_PATTERNS = [
+  // vue-i18n <i18n-t keypath="...">
+  /<(?:i18n-t|i18nt)\b[^>]*?(?<![\w-])keypath\s*=\s*(['"])([^'"\n]+?)\1/gi,
+  // react-i18next <Trans i18nKey="..."> or i18nKey={'...'}
+  /<Trans\b[^>]*?(?<![\w-])i18nKey\s*=\s*\{?\s*(['"`])([^'"`\n]+?)\1/g,
+  // react-intl <FormattedMessage id="...">
+  /<FormattedMessage\b[^>]*?(?<![\w-])id\s*=\s*\{?\s*(['"`])([^'"`\n]+?)\1/g,
+  // vue-i18n v-t="'key'" and v-t="{ path: 'key', ... }"
+  /(?<![\w-])v-t\s*=\s*"\s*(?:\{[^}"]*?\bpath\s*:\s*)?(')([^'"\n]+?)\1/g,
+  /(?<![\w-])v-t\s*=\s*'\s*(?:\{[^}']*?\bpath\s*:\s*)?(")([^'"\n]+?)\1/g
+]
+
+/**
+ * If the line text before the cursor ends inside the key argument of t('...') or a key attribute
+ * (keypath="...", i18nKey="...", <FormattedMessage id="...">, v-t="'...'"), return the partially typed key
+ * and the function it is passed to (null for attributes); otherwise null.
+ * `extraCallees` are names bound in the file, like a scoped `const tNav = useTranslations('Nav')`.
+ */
+function getTypedKeyBeforeCursor(linePrefix: string, extraCallees: string[] = []): { typed: string; callee: string | null } | null {
+  const { names, checks } = getTranslationFunctionNames()
+  const prefixes = [
+    `(?<![\\w$])(${toCalleePattern([...names, ...checks, ...extraCallees])})\\(\\s*`,
+    `(?<![\\w-])(?:keypath|i18nKey)\\s*=\\s*\\{?\\s*`,
+    `<FormattedMessage\\b[^>]*?(?<![\\w-])id\\s*=\\s*\\{?\\s*`,
+    `(?<![\\w-])v-t\\s*=\\s*["']\\s*(?:\\{[^}]*?\\bpath\\s*:\\s*)?`
+  ]
+  const rx = new RegExp(`(?:${prefixes.join('|')})(['"\`])([^'"\`]*)$`)
+  const m = linePrefix.match(rx)
+  return m ? { typed: m[3], callee: m[1] || null } : null
+}
+
+// Detect component keys: <i18n-t keypath>, <Trans i18nKey>, <FormattedMessage id> and v-t
+function findKeyAttributesInText(text: string): Array<{ key: string; keyStart: number }> {
+  const results: Array<{ key: string; keyStart: number }> = []
+  for (const rx of KEY_ATTRIBUTE_PATTERNS) {
+    rx.lastIndex = 0
+    for (let m: RegExpExecArray | null = rx.exec(text); m; m = rx.exec(text)) {
+      const key = m[2]
+      // The match ends with the closing quote, so the key sits right before it
+      results.push({ key, keyStart: m.index + m[0].length - 1 - key.length })
+    }
+  }
+  return results.sort((x, y) => x.keyStart - y.keyStart)
+}
+
+// ============================================================================
+// WORKSPACE KEY USAGE INDEX
+// Maps i18n keys back to every place they are used in source files
+// ============================================================================
+
+// Source files that can contain t('...') usages (mirrors the context menu file types)
+const SOURCE_FILE_GLOB = '**/*.{js,jsx,ts,tsx,vue,svelte,mdx,md}'
+const SOURCE_FILE_EXCLUDE = '**/{node_modules,dist,build,coverage,.git,.next,.nuxt,.output,.svelte-kit}/**'
+
+interface KeyUsage {
+  key: string // with the scope of its t function applied
+  location: vscode.Location // range of the key text inside the quotes
+  scope: string // prefix to strip again when rewriting the key in place
+}
+
+interface FileKeyUsages {
+  localesDir: string | null // locales folder the file resolves keys against
+  usages: KeyUsage[]
+  dynamicPrefixes: string[] // see findDynamicKeyPrefixesInText
+}
+
+// uri -> usages in that file; null until the first full workspace scan
+let keyUsageIndex: Map<string, FileKeyUsages> | null = null
+let keyUsageIndexBuild: Promise<Map<string, FileKeyUsages>> | null = null
+const keyUsageIndexChanged = new vscode.EventEmitter<void>()
+
+function isExcludedSourcePath(filePath: string): boolean {
+  return /[\\/](node_modules|dist|build|coverage|\.git|\.next|\.nuxt|\.output|\.svelte-kit)[\\/]/.test(filePath)
+}
+
+/**
+ * Build a fast offset -> position converter for raw file content
+ */
+function createPositionMapper(text: string): (offset: number) => vscode.Position {
+  const lineStarts = [0]
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') lineStarts.push(i + 1)
+  }
+  return (offset: number) => {
+    let lo = 0
+    let hi = lineStarts.length - 1
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1
+      if (lineStarts[mid] <= offset) lo = mid
+      else hi = mid - 1
+    }
+    return new vscode.Position(lo, offset - lineStarts[lo])
+  }
+}
+
+function collectKeyUsages(uri: vscode.Uri, text: string): FileKeyUsages {
+  const toPosition = createPositionMapper(text)
+  const found = [
+    ...findTCallsInText(text, uri.fsPath),
+    ...findKeyAttributesInText(text).map((m) => ({ ...m, scope: '' }))
+  ]
+  const usages = found.map(({ key, keyStart, scope }) => ({
+    key: applyKeyScope(key, scope),
+    location: new vscode.Location(uri, new vscode.Range(toPosition(keyStart), toPosition(keyStart + key.length))),
+    scope
+  }))
+  const dynamicPrefixes = findDynamicKeyPrefixesInText(text, uri.fsPath)
+  const workspaceRoot = vscode.workspace.getWorkspaceFolder(uri)?.uri.fsPath
+  const ctx = usages.length + dynamicPrefixes.length > 0 ? getProjectContextForFile(uri.fsPath, workspaceRoot) : null
+  return { localesDir: ctx ? ctx.localesDir : null, usages, dynamicPrefixes }
+}
+
+async function readSourceText(uri: vscode.Uri): Promise<string | null> {
+  // Prefer the editor buffer so unsaved changes are reflected
+  const open = vscode.workspace.textDocuments.find((d) => d.uri.toString() === uri.toString())
+  if (open) return open.getText()
+  try {
+    return stripBOM(await fs.promises.readFile(uri.fsPath, 'utf-8'))
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Get the usage index, scanning the whole workspace on first use
+ */
+async function getKeyUsageIndex(): Promise<Map<string, FileKeyUsages>> {
+  if (keyUsageIndex) return keyUsageIndex
+  if (keyUsageIndexBuild) return keyUsageIndexBuild
+  keyUsageIndexBuild = (async () => {
+    const index = new Map<string, FileKeyUsages>()
+    const uris = await vscode.workspace.findFiles(SOURCE_FILE_GLOB, SOURCE_FILE_EXCLUDE)
+    debugLog(`getKeyUsageIndex: scanning ${uris.length} source files`)
+    for (const uri of uris) {
+      const text = await readSourceText(uri)
+      if (text === null) continue
+      const entry = collectKeyUsages(uri, text)
+      if (entry.usages.length + entry.dynamicPrefixes.length > 0) index.set(uri.toString(), entry)
+    }
+    keyUsageIndex = index
+    keyUsageIndexBuild = null
+    return index
+  })()
+  return keyUsageIndexBuild
+}
+
+/**
+ * Re-scan a single source file after it changed on disk or in the editor. Listeners hear about it only
+ * when the file's usages changed (a key, or where it is: code lenses link to the locations).
+ */
+async function updateKeyUsagesForFile(uri: vscode.Uri, text?: string): Promise<void> {
+  if (!keyUsageIndex || uri.scheme !== 'file' || isExcludedSourcePath(uri.fsPath)) return
+  const content = text ?? (await readSourceText(uri))
+  if (!keyUsageIndex) return
+  const id = uri.toString()
+  const previous = keyUsageIndex.get(id)
+  const entry = content === null ? null : collectKeyUsages(uri, content)
+  if (entry && entry.usages.length + entry.dynamicPrefixes.length > 0) keyUsageIndex.set(id, entry)
+  else keyUsageIndex.delete(id)
+  if (getKeyUsageSignature(previous) !== getKeyUsageSignature(keyUsageIndex.get(id))) keyUsageIndexChanged.fire()
+}
+
+function getKeyUsageSignature(entry: FileKeyUsages | undefined): string {
+  if (!entry) return ''
+  const usages = entry.usages.map((u) => [u.key, u.scope, u.location.range.start.line, u.location.range.start.character])
+  return JSON.stringify([entry.localesDir, usages, entry.dynamicPrefixes])
+}
+
+function removeKeyUsagesForFile(uri: vscode.Uri): void {
+  if (keyUsageIndex && keyUsageIndex.delete(uri.toString())) keyUsageIndexChanged.fire()
+}
+
+/**
+ * Drop the whole index so the next lookup re-scans the workspace (e.g. translation function names changed)
+ */
+function resetKeyUsageIndex(): void {
+  if (!keyUsageIndex) return
+  keyUsageIndex = null
+  keyUsageIndexChanged.fire()
+}
+
+/**
+ * Group the usages that resolve against a locales folder by the full locale key they point at.
+ * Keys are resolved with the numeric-leaf fallback so t('a.b') counts for a.b.0242.
+ */
+function getUsagesForLocalesDir(index: Map<string, FileKeyUsages>, localesDir: string): KeyUsage[] {
+  return getIndexEntriesForLocalesDir(index, localesDir).flatMap((entry) => entry.usages)
+}
+
+function getIndexEntriesForLocalesDir(index: Map<string, FileKeyUsages>, localesDir: string): FileKeyUsages[] {
+  const target = normalizePathForComparison(localesDir)
+  // Files without a detected locales folder may belong to any project
+  return [...index.values()].filter((entry) => !entry.localesDir || normalizePathForComparison(entry.localesDir) === target)
+}
+
+function groupUsagesByLocaleKey(
+  index: Map<string, FileKeyUsages>,
+  localesDir: string,
+  localeData: Record<string, any>
+): Map<string, vscode.Location[]> {
+  const grouped = new Map<string, vscode.Location[]>()
+  for (const usage of getUsagesForLocalesDir(index, localesDir)) {
+    const resolved = resolveKeyPathLoose(localeData, usage.key)
+    const fullKey = resolved ? resolved.join('.') : usage.key
+    const list = grouped.get(fullKey)
+    if (list) list.push(usage.location)
+    else grouped.set(fullKey, [usage.location])
+  }
+  return grouped
+}
+
+/**
+ * List base-language leaf keys that no source file references.
+ * Dynamic keys such as t(`nav.${id}`) keep everything under their static prefix.
+ */
+function findUnusedLeafKeys(
+  baseData: Record<string, any>,
+  usages: KeyUsage[],
+  dynamicPrefixes: string[]
+): Array<{ key: string; value: string }> {
+  const usedKeys = new Set<string>()
+  const usedPrefixes = dynamicPrefixes.map((prefix) => prefix.replace(/^([^.:]+):/, '$1.'))
+  for (const usage of usages) {
+    const key = usage.key
+    const resolved = resolveKeyPathLoose(baseData, key)
+    if (resolved) usedKeys.add(resolved.join('.'))
+    usedKeys.add(key)
+    // A namespace passed to t() uses everything below it
+    const node = resolved && getDeepValue(baseData, resolved)
+    if (node && typeof node === 'object') usedPrefixes.push(resolved!.join('.') + '.')
+  }
+  return flattenLocale(baseData).filter(
+    ({ key }) => !usedKeys.has(key) && !usedPrefixes.some((prefix) => key.startsWith(prefix))
+  )
+}
+
+/**
+ * Write a renamed key the way the usage wrote the old one: `ns:key` keeps its colon, and a key
+ * found through a default namespace stays without it while it remains in that namespace
+ */
+function formatRenamedKeyUsage(writtenKey: string, fullKey: string, newFullKey: string): string {
+  if (/^[^.:]+:/.test(writtenKey)) return newFullKey.replace('.', ':')
+  const namespace = fullKey.split('.')[0]
+  if (writtenKey.split('.')[0] === namespace) return newFullKey
+  return newFullKey.startsWith(namespace + '.') ? newFullKey.slice(namespace.length + 1) : newFullKey.replace('.', ':')
+}
+
+// ============================================================================
+// TRANSLATOR HANDOFF (CSV / XLIFF)
+// Flattened keys go out with their base and target values and come back as translations to merge
+// ============================================================================
+
+interface TranslationRow {
+  key: string
+  source: string
+  targets: Record<string, string | null> // null when the language is missing the key
+}
+
+interface ImportedTranslation {
+  lang: string
+  key: string
+  source: string | null // base value the translator saw, when the file carries it
+  value: string
+}
+
+interface TranslationImportReview {
+  accepted: ImportedTranslation[]
+  conflicts: Array<ImportedTranslation & { current: string | null; reason: 'changed' | 'source' }>
+  unknownKeys: ImportedTranslation[]
+  placeholderMismatches: Array<ImportedTranslation & { expected: string[]; actual: string[] }>
+  unchanged: number
+}
+
+/**
+ * Translated leaf values by flattened key; untranslated entries (null, e.g. fuzzy gettext entries) are left out
+ */
+function getTranslatedValues(data: Record<string, any> | null): Map<string, string> {
+  const values = new Map<string, string>()
+  const walk = (obj: Record<string, any>, prefix: string) => {
+    for (const [key, value] of Object.entries(obj)) {
+      const fullKey = prefix ? `${prefix}.${key}` : key
+      if (value !== null && typeof value === 'object' && !Array.isArray(value)) walk(value, fullKey)
+      else if (value !== null && value !== undefined) values.set(fullKey, typeof value === 'string' ? value : JSON.stringify(value))
+    }
+  }
+  if (data) walk(data, '')
+  return values
+}
+
+function buildTranslationRows(
+  baseData: Record<string, any>,
+  targetData: Record<string, Record<string, any> | null>
+): TranslationRow[] {
+  const targetValues = Object.keys(targetData).map((lang) => ({ lang, values: getTranslatedValues(targetData[lang]) }))
+  return flattenLocale(baseData).map(({ key, value }) => {
+    const targets: Record<string, string | null> = {}
+    for (const { lang, values } of targetValues) {
+      const target = values.get(key)
+      targets[lang] = target ? target : null
+    }
+    return { key, source: value, targets }
+  })
+}
+
+function formatCsvField(value: string): string {
+  return /[",;\r\n]/.test(value) || /^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+/**
+ * One spreadsheet for every chosen language: key, base value, then each language's value and missing flag.
+ * Written with a BOM and CRLF so Excel opens UTF-8 text correctly.
+ */
+function buildTranslationCsv(rows: TranslationRow[], baseLanguage: string, languages: string[]): string {
+  const header = ['key', baseLanguage, ...languages.flatMap((lang) => [lang, `${lang} missing`])]
+  const lines = rows.map((row) =>
+    [row.key, row.source, ...languages.flatMap((lang) => [row.targets[lang] ?? '', row.targets[lang] === null ? 'yes' : ''])]
+      .map(formatCsvField)
+      .join(',')
+  )
+  return '\uFEFF' + [header.join(','), ...lines].join('\r\n') + '\r\n'
+}
+
+/**
+ * Parse CSV text (RFC 4180 quoting). The delimiter is ',' or ';', whichever the header line uses,
+ * since spreadsheet apps in some regions save with semicolons.
+ */
+function parseCsv(text: string): string[][] {
+  const content = stripBOM(text)
+  const firstLine = content.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, '')
+  const delimiter = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ','
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+  for (let i = 0; i < content.length; i++) {
+    const ch = content[i]
+    if (quoted) {
+      if (ch === '"' && content[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (ch === '"') {
+        quoted = false
+      } else {
+        field += ch
+      }
+    } else if (ch === '"' && field === '') {
+      quoted = true
+    } else if (ch === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && content[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += ch
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ''))
+}
+
+/**
+ * Read translations from a CSV laid out like buildTranslationCsv: a key column, the base language
+ * column (optional) and one column per target language; "missing" columns are skipped. Other columns
+ * (notes, context, ...) are not languages: they come back in `ignoredColumns`.
+ */
+function parseTranslationCsv(
+  text: string,
+  baseLanguage: string,
+  projectLanguages: string[]
+): { translations: ImportedTranslation[]; ignoredColumns: string[] } {
+  const [header, ...rows] = parseCsv(text)
+  if (!header) return { translations: [], ignoredColumns: [] }
+  const names = header.map((h) => h.trim())
+  const norm = (s: string) => s.toLowerCase().replace(/_/g, '-')
+  const keyColumn = Math.max(0, names.findIndex((h) => /^(key|id)$/i.test(h)))
+  const sourceColumn = names.findIndex((h) => norm(h) === norm(baseLanguage) || /^source$/i.test(h))
+  const columns = names
+    .map((name, index) => ({ name, index }))
+    .filter(({ name, index }) => index !== keyColumn && index !== sourceColumn && name && !/\smissing$/i.test(name))
+  const isLanguage = (name: string) => projectLanguages.some((lang) => norm(lang) === norm(name)) || isLocaleLanguageName(name)
+  const languageColumns = columns.filter(({ name }) => isLanguage(name))
+  const ignoredColumns = columns.filter(({ name }) => !isLanguage(name)).map(({ name }) => name)
+  const imported: ImportedTranslation[] = []
+  for (const row of rows) {
+    const key = (row[keyColumn] || '').trim()
+    if (!key) continue
+    for (const { name, index } of languageColumns) {
+      const value = row[index] ?? ''
+      if (value === '') continue
+      imported.push({ lang: name, key, source: sourceColumn === -1 ? null : row[sourceColumn] ?? null, value })
+    }
+  }
+  return { translations: imported, ignoredColumns }
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+function unescapeXml(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, (_m, cdata: string) => cdata.replace(/&/g, '&amp;').replace(/</g, '&lt;'))
+    .replace(/<[^>]+>/g, '') // inline markup such as <g> or <ph> around the text
+    .replace(/&#x([0-9a-fA-F]+);/g, (_m, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_m, dec: string) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+}
+
+/**
+ * Bilingual XLIFF document for one target language (1.2 or 2.0). Missing keys are marked
+ * as needing translation and carry an empty target.
+ */
+function buildTranslationXliff(
+  rows: TranslationRow[],
+  baseLanguage: string,
+  lang: string,
+  original: string,
+  version: '1.2' | '2.0'
+): string {
+  const out = ['<?xml version="1.0" encoding="UTF-8"?>']
+  if (version === '1.2') {
+    out.push('<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">')
+    out.push(
+      `  <file source-language="${escapeXml(baseLanguage)}" target-language="${escapeXml(lang)}" datatype="plaintext" original="${escapeXml(original)}">`
+    )
+    out.push('    <body>')
+    for (const row of rows) {
+      const target = row.targets[lang]
+      out.push(`      <trans-unit id="${escapeXml(row.key)}" resname="${escapeXml(row.key)}">`)
+      out.push(`        <source>${escapeXml(row.source)}</source>`)
+      out.push(`        <target state="${target === null ? 'needs-translation' : 'translated'}">${escapeXml(target ?? '')}</target>`)
+      out.push('      </trans-unit>')
+    }
+    out.push('    </body>', '  </file>', '</xliff>')
+  } else {
+    out.push(
+      `<xliff xmlns="urn:oasis:names:tc:xliff:document:2.0" version="2.0" srcLang="${escapeXml(baseLanguage)}" trgLang="${escapeXml(lang)}">`
+    )
+    out.push(`  <file id="f1" original="${escapeXml(original)}">`)
+    // Unit ids must be NMTOKENs, so the key travels in the name attribute
+    rows.forEach((row, index) => {
+      const target = row.targets[lang]
+      out.push(`    <unit id="u${index + 1}" name="${escapeXml(row.key)}">`)
+      out.push(`      <segment state="${target === null ? 'initial' : 'translated'}">`)
+      out.push(`        <source>${escapeXml(row.source)}</source>`)
+      out.push(`        <target>${escapeXml(target ?? '')}</target>`)
+      out.push('      </segment>', '    </unit>')
+    })
+    out.push('  </file>', '</xliff>')
+  }
+  return out.join('\n') + '\n'
+}
+
+/**
+ * Read translations from an XLIFF 1.2 or 2.0 document; units with an empty target are skipped
+ */
+function parseTranslationXliff(text: string): ImportedTranslation[] {
+  const content = stripBOM(text)
+  const attr = (tag: string, name: string) => {
+    const m = tag.match(new RegExp(`\\s${name}\\s*=\\s*("([^"]*)"|'([^']*)')`))
+    return m ? unescapeXml(m[2] ?? m[3]) : null
+  }
+  const element = (body: string, name: string) => {
+    const m = body.match(new RegExp(`<${name}(?:\\s[^>]*)?>([\\s\\S]*?)</${name}>`))
+    return m ? unescapeXml(m[1]) : null
+  }
+  const root = content.match(/<xliff\b[^>]*>/)
+  if (!root) throw new Error('Not an XLIFF document')
+  const imported: ImportedTranslation[] = []
+  if (attr(root[0], 'version') === '2.0' || /document:2\.\d/.test(root[0])) {
+    const lang = attr(root[0], 'trgLang')
+    if (!lang) throw new Error('The XLIFF file has no trgLang')
+    const unitRx = /<unit\b([^>]*)>([\s\S]*?)<\/unit>/g
+    for (let m = unitRx.exec(content); m; m = unitRx.exec(content)) {
+      const key = attr(m[1], 'name') || attr(m[1], 'id')
+      const value = element(m[2], 'target')
+      if (key && value) imported.push({ lang, key, source: element(m[2], 'source'), value })
+    }
+    return imported
+  }
+  const fileRx = /<file\b([^>]*)>([\s\S]*?)<\/file>/g
+  for (let f = fileRx.exec(content); f; f = fileRx.exec(content)) {
+    const lang = attr(f[1], 'target-language')
+    if (!lang) continue
+    const unitRx = /<trans-unit\b([^>]*)>([\s\S]*?)<\/trans-unit>/g
+    for (let m = unitRx.exec(f[2]); m; m = unitRx.exec(f[2])) {
+      const key = attr(m[1], 'resname') || attr(m[1], 'id')
+      const value = element(m[2], 'target')
+      if (key && value) imported.push({ lang, key, source: element(m[2], 'source'), value })
+    }
+  }
+  return imported
+}
+
+/**
+ * Placeholders a translation has to keep: {name}, {{ name }}, %{name}, %s / %1$d and @:linked.key
+ */
+function extractPlaceholders(text: string): string[] {
+  const matches = text.match(/\{\{\s*[\w.]+\s*\}\}|%?\{[\w.]+\}|%(?:\d+\$)?[sdif@]|@:[\w.]+/g) || []
+  return matches.map((p) => p.replace(/\s+/g, '')).sort()
+}
+
+/**
+ * Sort imported translations into what can be written and what needs attention, before anything is written
+ */
+function reviewImportedTranslations(
+  imported: ImportedTranslation[],
+  baseData: Record<string, any>,
+  getTargetData: (lang: string) => Record<string, any> | null
+): TranslationImportReview {
+  const baseValues = new Map(flattenLocale(baseData).map((e) => [e.key, e.value]))
+  const targetValues = new Map<string, Map<string, string>>()
+  const review: TranslationImportReview = { accepted: [], conflicts: [], unknownKeys: [], placeholderMismatches: [], unchanged: 0 }
+  for (const item of imported) {
+    const base = baseValues.get(item.key)
+    if (base === undefined) {
+      review.unknownKeys.push(item)
+      continue
+    }
+    const expected = extractPlaceholders(base)
+    const actual = extractPlaceholders(item.value)
+    if (expected.join('\u0000') !== actual.join('\u0000')) {
+      review.placeholderMismatches.push({ ...item, expected, actual })
+      continue
+    }
+    if (!targetValues.has(item.lang)) targetValues.set(item.lang, getTranslatedValues(getTargetData(item.lang)))
+    const current = targetValues.get(item.lang)!.get(item.key) ?? null
+    if (current === item.value) {
+      review.unchanged++
+    } else if (item.source !== null && normalizeWhitespace(item.source) !== normalizeWhitespace(base)) {
+      // The base text changed after the file was exported
+      review.conflicts.push({ ...item, current, reason: 'source' })
+    } else if (current) {
+      review.conflicts.push({ ...item, current, reason: 'changed' })
+    } else {
+      review.accepted.push(item)
+    }
+  }
+  return review
+}
+
+// ---------- Simple Vue SFC context detection ----------
+function isVueFile(filePath: string): boolean {
+  return /\.vue$/i.test(filePath)
+}
+
+function getTemplateRange(source: string): { start: number; end: number } | null {
+  const open = source.match(/<template(?:\s[^>]*)?>/i)
+  if (!open || typeof open.index !== 'number') return null
+  const start = open.index + open[0].length
+  const closeIdx = source.indexOf('</template>', start)
+  if (closeIdx === -1) return null
+  return { start, end: closeIdx }
+}
+
+// Return all <script> block ranges inside a Vue SFC
+function getScriptRanges(source: string): Array<{ start: number; end: number }> {
+  const ranges: Array<{ start: number; end: number }> = []
+  const rx = /<script(?:\s[^>]*)?>/gi
+  for (let m = rx.exec(source); m; m = rx.exec(source)) {
+    const openIdx = (m.index as number) + m[0].length
+    const closeIdx = source.indexOf('</script>', openIdx)
+    if (closeIdx !== -1) {
+      ranges.push({ start: openIdx, end: closeIdx })
+    }
+  }
+  return ranges
+}
+
+function isInsideVueScript(source: string, offset: number): boolean {
+  const ranges = getScriptRanges(source)
+  for (const r of ranges) {
+    if (offset >= r.start && offset <= r.end) return true
+  }
+  return false
+}
+
+function isInsideOpeningOrClosingTag(source: string, offset: number): boolean {
+  const lastLt = source.lastIndexOf('<', offset)
+  const lastGt = source.lastIndexOf('>', offset)
+  return lastLt > lastGt
+}
+
+function isVueTemplateTextNode(source: string, offset: number): boolean {
+  const tpl = getTemplateRange(source)
+  if (!tpl) return false
+  if (offset < tpl.start || offset > tpl.end) return false
+  if (isInsideOpeningOrClosingTag(source, offset)) return false
+  return true
+}
+
+function getAttributeContext(
+  source: string,
+  offset: number
+):
+  | {
+      name: string
+      isBound: boolean
+      attrStart: number
+      valueStart: number
+      valueEnd: number
+    }
+  | null {
+  const tpl = getTemplateRange(source)
+  if (!tpl) return null
+  if (offset < tpl.start || offset > tpl.end) return null
+
+  if (!isInsideOpeningOrClosingTag(source, offset)) return null
+
+  const tagStart = source.lastIndexOf('<', offset)
+  const tagEnd = source.indexOf('>', tagStart + 1)
+  if (tagStart === -1 || tagEnd === -1 || tagEnd < offset) return null
+
+  const slice = source.slice(tagStart + 1, tagEnd)
+  const rel = offset - (tagStart + 1)
+  const eqRel = slice.lastIndexOf('=', rel)
+  if (eqRel === -1) return null
+  const eqAbs = tagStart + 1 + eqRel
+
+  let qIdx = eqAbs + 1
+  while (qIdx < tagEnd && /\s/.test(source[qIdx])) qIdx++
+  const quote = source[qIdx]
+  if (quote !== '"' && quote !== "'") return null
+  const valueStart = qIdx + 1
+  const valueEnd = source.indexOf(quote, valueStart)
+  if (valueEnd === -1 || offset < valueStart || offset > valueEnd) return null
+
+  let nEnd = eqAbs - 1
+  while (nEnd > tagStart && /\s/.test(source[nEnd])) nEnd--
+  let nStart = nEnd
+  while (nStart > tagStart && /[A-Za-z0-9_:\-]/.test(source[nStart - 1])) nStart--
+  let rawName = source.slice(nStart, nEnd + 1)
+  const isBound = rawName.startsWith(':') || rawName.startsWith('v-bind:')
+  const name = rawName.replace(/^:/, '').replace(/^v-bind:/, '')
+
+  return {
+    name,
+    isBound,
+    attrStart: nStart,
+    valueStart,
+    valueEnd
+  }
+}
+
+// ---------- Simple React/Next JSX helpers ----------
+function isJsxFile(filePath: string): boolean {
+  return /\.(jsx|tsx)$/i.test(filePath)
+}
+
+function isLikelyJsxUiContext(source: string, offset: number): boolean {
+  // Heuristic: inside a JSX element's content or attribute
+  const lastLt = source.lastIndexOf('<', offset)
+  const lastGt = source.lastIndexOf('>', offset)
+  const nextLt = source.indexOf('<', offset)
+  const nextGt = source.indexOf('>', offset)
+  if (lastLt === -1 || (nextGt === -1 && nextLt === -1)) return false
+  // Inside opening tag attributes
+  if (lastLt > lastGt) return true
+  // Between tags = text content
+  if (lastGt > lastLt && nextLt !== -1 && lastGt <= offset && offset <= nextLt) return true
+  return false
+}
+
+function getJsxAttributeContext(
+  source: string,
+  offset: number
+):
+  | {
+      name: string
+      nameStart: number
+      valueStartQuote: number
+      valueEndQuote: number
+    }
+  | null {
+  const tagStart = source.lastIndexOf('<', offset)
+  const tagEnd = source.indexOf('>', tagStart + 1)
+  if (tagStart === -1 || tagEnd === -1 || tagEnd < offset) return null
+  const slice = source.slice(tagStart + 1, tagEnd)
+  const rel = offset - (tagStart + 1)
+  const eqRel = slice.lastIndexOf('=', rel)
+  if (eqRel === -1) return null
+  const eqAbs = tagStart + 1 + eqRel
+  // Find attribute name
+  let nEnd = eqAbs - 1
+  while (nEnd > tagStart && /\s/.test(source[nEnd])) nEnd--
+  let nStart = nEnd
+  while (nStart > tagStart && /[A-Za-z0-9_:\-]/.test(source[nStart - 1])) nStart--
+  const rawName = source.slice(nStart, nEnd + 1)
+  // Find quoted value following '='
+  let qIdx = eqAbs + 1
+  while (qIdx < tagEnd && /\s/.test(source[qIdx])) qIdx++
+  const quote = source[qIdx]
+  if (quote !== '"' && quote !== "'") return null
+  const valueStartQuote = qIdx
+  const valueEndQuote = source.indexOf(quote, valueStartQuote + 1)
+  if (valueEndQuote === -1 || offset < valueStartQuote || offset > valueEndQuote) return null
+  return { name: rawName, nameStart: nStart, valueStartQuote, valueEndQuote }
+}
+
+/**
+ * Whether a key usage at this offset is subject to missing-key checks:
+ * Vue template text, attributes and scripts, JSX UI and attributes, and plain script code
+ */
+function isMissingKeyCheckContext(source: string, offset: number, isVue: boolean, isJsx: boolean): boolean {
+  const inVueTemplate = isVue && isVueTemplateTextNode(source, offset)
+  const inJsxUi = isJsx && isLikelyJsxUiContext(source, offset)
+  const inVueAttr = isVue && !!getAttributeContext(source, offset)
+  const inJsxAttr = isJsx && !!getJsxAttributeContext(source, offset)
+  const inVueScript = isVue && isInsideVueScript(source, offset)
+  // Generic script contexts: non-Vue non-JSX files, or JSX outside UI/attr
+  const inGenericScript = (!isVue && !isJsx) || (isJsx && !inJsxUi && !inJsxAttr)
+  return inVueTemplate || inJsxUi || inVueAttr || inJsxAttr || inVueScript || inGenericScript
+}
+
+// ---------- Simple Svelte helpers ----------
+function isSvelteFile(filePath: string): boolean {
+  return /\.svelte$/i.test(filePath)
+}
+
+function getStyleRanges(source: string): Array<{ start: number; end: number }> {
+  const ranges: Array<{ start: number; end: number }> = []
+  const rx = /<style(?:\s[^>]*)?>/gi
+  for (let m = rx.exec(source); m; m = rx.exec(source)) {
+    const openIdx = m.index + m[0].length
+    const closeIdx = source.indexOf('</style>', openIdx)
+    if (closeIdx !== -1) ranges.push({ start: openIdx, end: closeIdx })
+  }
+  return ranges
+}
+
+// Svelte markup is everything outside the <script> and <style> blocks
+function isSvelteMarkup(source: string, offset: number): boolean {
+  return ![...getScriptRanges(source), ...getStyleRanges(source)].some((r) => offset >= r.start && offset <= r.end)
+}
+
+// ---------- Hardcoded UI string detection ----------
+interface HardcodedString {
+  start: number // offset of the text (attribute values exclude the quotes)
+  end: number
+  text: string
+  kind: 'text' | 'attribute'
+  attrName?: string
+}
+
+// Attributes whose literal values are shown to users
+const TRANSLATABLE_ATTRIBUTES = ['placeholder', 'title', 'alt', 'aria-label']
+
+function hasTranslatableLetters(value: string): boolean {
+  return /\p{L}/u.test(value.replace(/&[a-zA-Z]+;|&#\d+;/g, ' '))
+}
+
+/**
+ * Offsets excluded by @stringer-ignore-next-line and @stringer-ignore-from-here markers
+ */
+function getIgnoredRanges(source: string): Array<{ start: number; end: number }> {
+  const ranges: Array<{ start: number; end: number }> = []
+  const rx = /@stringer-ignore-next-line/g
+  for (let m = rx.exec(source); m; m = rx.exec(source)) {
+    const lineEnd = source.indexOf('\n', m.index)
+    if (lineEnd === -1) continue
+    const nextEnd = source.indexOf('\n', lineEnd + 1)
+    ranges.push({ start: lineEnd + 1, end: nextEnd === -1 ? source.length : nextEnd })
+  }
+  const fromHere = source.indexOf('@stringer-ignore-from-here')
+  if (fromHere !== -1) ranges.push({ start: fromHere, end: source.length })
+  return ranges
+}
+
+function findTranslatableAttributes(source: string, tagStart: number, tag: string, kind: 'vue' | 'jsx'): HardcodedString[] {
+  const results: HardcodedString[] = []
+  const rx = new RegExp(`\\s(${TRANSLATABLE_ATTRIBUTES.join('|')})\\s*=\\s*(["'])([^"']*)\\2`, 'g')
+  for (let m = rx.exec(tag); m; m = rx.exec(tag)) {
+    const value = m[3]
+    if (!hasTranslatableLetters(value)) continue
+    const start = tagStart + m.index + m[0].length - 1 - value.length
+    // Confirm with the same attribute helpers used when adding keys; bound values are expressions
+    if (kind === 'vue') {
+      const attr = getAttributeContext(source, start)
+      if (!attr || attr.isBound || attr.name !== m[1]) continue
+    } else {
+      const attr = getJsxAttributeContext(source, start)
+      if (!attr || attr.name !== m[1]) continue
+    }
+    results.push({ start, end: start + value.length, text: value, kind: 'attribute', attrName: m[1] })
+  }
+  return results
+}
+
+/**
+ * Find user-visible hardcoded text in Vue templates or JSX: text nodes and translatable attributes.
+ * Honors @stringer-ignore (whole file), @stringer-ignore-next-line and @stringer-ignore-from-here.
+ */
+function findHardcodedStrings(source: string, kind: 'vue' | 'jsx'): HardcodedString[] {
+  if (/@stringer-ignore(?![-\w])/.test(source)) return []
+  const results: HardcodedString[] = []
+  let scanStart = 0
+  let scanEnd = source.length
+  if (kind === 'vue') {
+    const tpl = getTemplateRange(source)
+    if (!tpl) return []
+    scanStart = tpl.start - 1 // include the '>' that closes <template>
+    scanEnd = tpl.end
+  }
+
+  // Returns the offset of the tag that ends at `gt`, or -1 when it is not markup
+  const tagStartFor = (gt: number): number => {
+    const lt = source.lastIndexOf('<', gt)
+    if (lt < scanStart) return -1
+    const tag = source.slice(lt, gt + 1)
+    if (!/^<(\/?[A-Za-z][\w.:-]*(\s[^<>]*)?\/?|\/?)>$/.test(tag)) return -1
+    // Generics like useState<string>() follow an identifier; JSX tags do not
+    if (kind === 'jsx' && lt > 0 && /[\w$.)\]]/.test(source[lt - 1])) return -1
+    return lt
+  }
+
+  // Text nodes between tags
+  const textRx = />([^<>]+)</g
+  textRx.lastIndex = scanStart
+  for (let m = textRx.exec(source); m && m.index < scanEnd; m = textRx.exec(source)) {
+    const raw = m[1]
+    const gt = m.index
+    textRx.lastIndex = gt + 1 + raw.length // allow the closing '<' to start the next tag
+    if (tagStartFor(gt) === -1) continue
+    if (kind === 'jsx' && source[gt - 1] === '=') continue // arrow function
+    const literal = kind === 'vue' ? raw.replace(/\{\{[\s\S]*?\}\}/g, ' ') : raw.replace(/\{[^{}]*\}/g, ' ')
+    if (!hasTranslatableLetters(literal)) continue
+    const lead = raw.length - raw.trimStart().length
+    const text = raw.trim()
+    const start = gt + 1 + lead
+    if (kind === 'vue' && !isVueTemplateTextNode(source, start)) continue
+    if (kind === 'jsx' && !isLikelyJsxUiContext(source, start)) continue
+    results.push({ start, end: start + text.length, text, kind: 'text' })
+  }
+
+  // Translatable attributes inside opening tags
+  const tagRx = /<[A-Za-z][\w.:-]*(?:\s[^<>]*)?>/g
+  tagRx.lastIndex = scanStart
+  for (let m = tagRx.exec(source); m && m.index < scanEnd; m = tagRx.exec(source)) {
+    if (kind === 'jsx' && m.index > 0 && /[\w$.)\]]/.test(source[m.index - 1])) continue
+    results.push(...findTranslatableAttributes(source, m.index, m[0], kind))
+  }
+
+  const ignored = getIgnoredRanges(source)
+  return results
+    .filter((r) => !ignored.some((i) => r.start >= i.start && r.start <= i.end))
+    .sort((a, b) => a.start - b.start)
+}
+
+// ---------- Minimal text edits ----------
+// Replacements are expressed in offsets of the text they apply to
+interface TextReplacement {
+  start: number
+  end: number
+  text: string
+}
+
+/**
+ * The single span that differs between two texts (common prefix and suffix trimmed), or null when equal
+ */
+function getMinimalReplacement(oldText: string, newText: string): TextReplacement | null {
+  if (oldText === newText) return null
+  let start = 0
+  const max = Math.min(oldText.length, newText.length)
+  while (start < max && oldText[start] === newText[start]) start++
+  let oldEnd = oldText.length
+  let newEnd = newText.length
+  while (oldEnd > start && newEnd > start && oldText[oldEnd - 1] === newText[newEnd - 1]) {
+    oldEnd--
+    newEnd--
+  }
+  return { start, end: oldEnd, text: newText.slice(start, newEnd) }
+}
+
+/**
+ * Replacements that turn `oldText` into `newText`, one per changed group of lines, each trimmed to what differs.
+ * Made for changes that add lines in a few places (an import, a hook declaration): every old line is matched
+ * with its next occurrence in the new text, and the lines skipped over are what was inserted.
+ */
+function getLineReplacements(oldText: string, newText: string): TextReplacement[] {
+  const oldLines = oldText.split(/(?<=\n)/)
+  const newLines = newText.split(/(?<=\n)/)
+  const hunks: Array<{ start: number; end: number; newStart: number; newEnd: number }> = []
+  const addHunk = (start: number, end: number, newStart: number, newEnd: number) => {
+    const last = hunks[hunks.length - 1]
+    if (last && last.end === start && last.newEnd === newStart) {
+      last.end = end
+      last.newEnd = newEnd
+    } else {
+      hunks.push({ start, end, newStart, newEnd })
+    }
+  }
+  // A blank line matches too easily: prefer the occurrence that is followed by the next old line as well
+  const findNext = (i: number, from: number): number => {
+    const first = newLines.indexOf(oldLines[i], from)
+    if (first === -1 || i + 1 >= oldLines.length) return first
+    for (let k = first; k !== -1; k = newLines.indexOf(oldLines[i], k + 1)) {
+      if (newLines[k + 1] === oldLines[i + 1]) return k
+    }
+    return first
+  }
+  let offset = 0
+  let newOffset = 0
+  let j = 0
+  for (let i = 0; i < oldLines.length; i++) {
+    const line = oldLines[i]
+    const k = findNext(i, j)
+    if (k === -1) {
+      // Changed or removed: the new text for it goes in with the next insertion
+      addHunk(offset, offset + line.length, newOffset, newOffset)
+    } else {
+      const inserted = newLines.slice(j, k).join('')
+      if (inserted) addHunk(offset, offset, newOffset, newOffset + inserted.length)
+      newOffset += inserted.length + line.length
+      j = k + 1
+    }
+    offset += line.length
+  }
+  const rest = newLines.slice(j).join('')
+  if (rest) addHunk(offset, offset, newOffset, newOffset + rest.length)
+
+  const edits: TextReplacement[] = []
+  for (const hunk of hunks) {
+    const change = getMinimalReplacement(oldText.slice(hunk.start, hunk.end), newText.slice(hunk.newStart, hunk.newEnd))
+    if (change) edits.push({ start: hunk.start + change.start, end: hunk.start + change.end, text: change.text })
+  }
+  return edits
+}
+
+/**
+ * Edits that apply non-overlapping `replacements` to `text` and then `transform` (e.g. adding the t declaration),
+ * each kept as small as possible and in offsets of the original text, so nothing else in the file is rewritten
+ */
+function getSourceEdits(text: string, replacements: TextReplacement[], transform: (text: string) => string): TextReplacement[] {
+  const sorted = [...replacements].sort((a, b) => a.start - b.start)
+  let replaced = ''
+  let cursor = 0
+  for (const r of sorted) {
+    replaced += text.slice(cursor, r.start) + r.text
+    cursor = r.end
+  }
+  replaced += text.slice(cursor)
+  const transformed = transform(replaced)
+  const extras = getLineReplacements(replaced, transformed)
+  if (extras.length === 0) return sorted
+
+  // Map the transform's change back to original offsets; it must fall strictly between replacements
+  const toOriginal = (offset: number): number | null => {
+    let shift = 0
+    for (const r of sorted) {
+      const start = r.start + shift
+      if (offset < start) break
+      if (offset <= start + r.text.length) return null
+      shift += r.text.length - (r.end - r.start)
+    }
+    return offset - shift
+  }
+  const mapped: TextReplacement[] = []
+  for (const extra of extras) {
+    const start = toOriginal(extra.start)
+    const end = toOriginal(extra.end)
+    if (start === null || end === null || sorted.some((r) => r.start < end && r.end > start)) {
+      const whole = getMinimalReplacement(text, transformed)
+      return whole ? [whole] : []
+    }
+    mapped.push({ start, end, text: extra.text })
+  }
+  return [...sorted, ...mapped].sort((a, b) => a.start - b.start)
+}
+
+// ---------- Ensure Vue t() availability ----------
+function hasUseI18nTDeclaration(block: string): boolean {
+  return /const\s*\{\s*t\s*\}\s*=\s*useI18n\s*\(\s*\)/.test(block)
+}
+
+/**
+ * Return the text with `const { t } = useI18n()` added to the first <script> block (or a new one)
+ */
+function withVueTDeclaration(text: string): string {
+  if (hasUseI18nTDeclaration(text)) return text
+
+  // Find existing script block
+  const scriptOpen = text.match(/<script(?:\s[^>]*)?>/i)
+  if (scriptOpen && typeof scriptOpen.index === 'number') {
+    const openIdx = scriptOpen.index
+    const insertPos = openIdx + scriptOpen[0].length
+    const closeIdx = text.indexOf('</script>', insertPos)
+    const scriptBlock = closeIdx !== -1 ? text.slice(insertPos, closeIdx) : ''
+    if (hasUseI18nTDeclaration(scriptBlock)) return text
+    return text.slice(0, insertPos) + '\nconst { t } = useI18n()\n' + text.slice(insertPos)
+  }
+
+  // No script block -> create one before <template>
+  const tplIdx = text.search(/<template(?:\s[^>]*)?>/i)
+  const scriptTag = '<script setup lang="ts">\nconst { t } = useI18n()\n</script>\n\n'
+  if (tplIdx !== -1) {
+    return text.slice(0, tplIdx) + scriptTag + text.slice(tplIdx)
+  }
+  return scriptTag + text
+}
+
+// ---------- Ensure Svelte $_ availability ----------
+const SVELTE_I18N_IMPORT = "import { _ } from 'svelte-i18n'"
+
+function hasSvelteI18nImport(block: string): boolean {
+  return /import\s*\{[^}]*(?<![\w$])_(?![\w$])[^}]*\}\s*from\s*['"]svelte-i18n['"]/.test(block)
+}
+
+/**
+ * Return the text with `import { _ } from 'svelte-i18n'` added to the instance <script> block (or a new one).
+ * The module script (context="module") is skipped: it cannot subscribe to the $_ store.
+ */
+function withSvelteI18nImport(text: string): string {
+  const rx = /<script(?:\s[^>]*)?>/gi
+  for (let m = rx.exec(text); m; m = rx.exec(text)) {
+    if (/\bcontext\s*=\s*["']module["']/.test(m[0])) continue
+    const insertPos = m.index + m[0].length
+    const closeIdx = text.indexOf('</script>', insertPos)
+    const block = closeIdx !== -1 ? text.slice(insertPos, closeIdx) : text.slice(insertPos)
+    if (hasSvelteI18nImport(block)) return text
+    // Match the indentation of the script's first line
+    const indent = (block.match(/^\s*?\n?([ \t]*)\S/) || ['', ''])[1]
+    const updated = /^\s*import\b/m.test(block)
+      ? ensureImported(block, indent + SVELTE_I18N_IMPORT).updated
+      : '\n' + indent + SVELTE_I18N_IMPORT + block
+    return text.slice(0, insertPos) + updated + text.slice(insertPos + block.length)
+  }
+  return `<script>\n  ${SVELTE_I18N_IMPORT}\n</script>\n\n` + text
+}
+
+// ---------- Ensure React/Next t() availability ----------
+function ensureImported(text: string, importLine: string): { updated: string; changed: boolean } {
+  if (new RegExp('^\\s*' + importLine.replace(/[.*+?^${}()|\\[\\]\\\\]/g, '\\$&'), 'm').test(text)) {
+    return { updated: text, changed: false }
+  }
+  // Insert after last import (or at top)
+  const rx = /^\s*import\b.*$/gm
+  let lastMatch: RegExpExecArray | null = null
+  for (let m = rx.exec(text); m; m = rx.exec(text)) lastMatch = m
+  if (lastMatch) {
+    const idx = (lastMatch.index || 0) + lastMatch[0].length
+    return { updated: text.slice(0, idx) + '\n' + importLine + text.slice(idx), changed: true }
+  }
+  return { updated: importLine + '\n' + text, changed: true }
+}
+
+/**
+ * Add the hook import and declaration inside the nearest function before `selectionOffset`.
+ * Nothing is added where `t` is already bound, scoped or not (e.g. `useTranslations('Dashboard')`).
+ */
+function withHookTDeclaration(
+  text: string,
+  selectionOffset: number,
+  filePath: string,
+  importLine: string,
+  declaration: string,
+  declarationRx: RegExp
+): string {
+  const scopes = findKeyScopesInText(text, filePath)
+  if (scopes.some((s) => s.binding === 't' && s.start <= selectionOffset && selectionOffset < s.end)) return text
+  // 1) Ensure import
+  const { updated: withImport } = ensureImported(text, importLine)
+  let working = withImport
+  // The import lands above the selection, so shift the offset by what it added
+  const offset = selectionOffset + (withImport.length - text.length)
+  // 2) Ensure the declaration inside nearest function before selection
+  const fnIdx = (() => {
+    // Find nearest "function" or "=>" block start before selection
+    const before = working.slice(0, offset)
+    const lastFunc = Math.max(before.lastIndexOf('function '), before.lastIndexOf('=>'))
+    if (lastFunc === -1) return -1
+    const brace = working.indexOf('{', lastFunc)
+    return brace !== -1 ? brace + 1 : -1
+  })()
+  if (fnIdx !== -1) {
+    // Check if already declared in function block following fnIdx (first 300 chars of that block)
+    const blockEnd = getEnclosingBlockEnd(maskNonCode(working, getSourceKind(filePath)), fnIdx)
+    const lookahead = working.slice(fnIdx, Math.min(fnIdx + 300, blockEnd))
+    if (!declarationRx.test(lookahead)) {
+      working = working.slice(0, fnIdx) + '\n' + declaration + '\n' + working.slice(fnIdx)
+    }
+  }
+  return working
+}
+
+function withReactTDeclaration(text: string, selectionOffset: number, filePath = ''): string {
+  const style = vscode.workspace.getConfiguration('stringerHelper').get<string>('reactInjection', 'react-i18next')
+  if (style !== 'react-i18next') return text
+  return withHookTDeclaration(
+    text,
+    selectionOffset,
+    filePath,
+    "import { useTranslation } from 'react-i18next'",
+    'const { t } = useTranslation()',
+    /\bconst\s*\{\s*t\s*[,}][^}]*\}?\s*=\s*useTranslation\s*\(/
+  )
+}
+
+function withNextTDeclaration(text: string, selectionOffset: number, filePath = ''): string {
+  const style = vscode.workspace.getConfiguration('stringerHelper').get<string>('nextInjection', 'next-intl')
+  if (style !== 'next-intl') return text
+  return withHookTDeclaration(
+    text,
+    selectionOffset,
+    filePath,
+    "import { useTranslations } from 'next-intl'",
+    'const t = useTranslations()',
+    /\bconst\s*t\s*=\s*(?:await\s+)?(?:useTranslations|getTranslations)\s*\(/
+  )
+}
+
+/**
+ * Pick react or next for JSX files from the `framework` setting, falling back to package.json
+ */
+function detectJsxFramework(projectRoot: string): 'react' | 'next' {
+  const framework = (vscode.workspace.getConfiguration('stringerHelper').get<string>('framework', 'auto') || 'auto') as
+    | 'auto'
+    | 'vue'
+    | 'react'
+    | 'next'
+  if (framework === 'react' || framework === 'next') return framework
+  try {
+    const pkgPath = path.join(projectRoot, 'package.json')
+    const pkg = JSON.parse(fs.readFileSync(pkgPath, 'utf-8'))
+    const deps = { ...(pkg.dependencies || {}), ...(pkg.devDependencies || {}) }
+    if (deps.next) return 'next'
+    return 'react'
+  } catch { return 'react' }
+}
+
+function isEscaped(source: string, index: number): boolean {
+  let backslashes = 0
+  for (let i = index - 1; i >= 0 && source[i] === '\\'; i--) backslashes++
+  return backslashes % 2 === 1
+}
+
+function findEnclosingStringLiteralBounds(
+  source: string,
+  offset: number
+): { quote: '"' | "'" | '`'; qStart: number; qEnd: number } | null {
+  // Search backward for an opening quote that is not escaped
+  let qStart = -1
+  let quote: '"' | "'" | '`' | null = null
+  for (let i = offset; i >= 0; i--) {
+    const ch = source[i]
     if ((ch === '"' || ch === "'" || ch === '`') && !isEscaped(source, i)) {
       qStart = i
       quote = ch as any
       break
     }
-    // Stop if we hit a newline and haven't found a quote (heuristic)
-    if (ch === '\n') break
+    // Stop if we hit a newline and haven't found a quote (heuristic)
+    if (ch === '\n') break
+  }
+  if (qStart < 0 || !quote) return null
+
+  // Ensure offset is after the opening quote (inside the literal)
+  if (offset <= qStart) return null
+
+  // Search forward for the closing quote of the same type
+  for (let j = qStart + 1; j < source.length; j++) {
+    const ch = source[j]
+    if (ch === quote && !isEscaped(source, j)) {
+      return { quote, qStart, qEnd: j }
+    }
+    // For template literals, skip simple ${ ... } blocks (best-effort)
+    if (quote === '`' && ch === '$' && source[j + 1] === '{') {
+      // Jump to matching '}'
+      let depth = 1
+      j += 2
+      while (j < source.length && depth > 0) {
+        if (source[j] === '{') depth++
+        else if (source[j] === '}') depth--
+        // Handle string-like chars inside expression naively by skipping escapes
+        if (source[j] === '\\') j++
+        j++
+      }
+      j--
+    }
+  }
+  return null
+}
+
+export async function activate(context: vscode.ExtensionContext) {
+  async function ensureProjectContext(editor?: vscode.TextEditor | null): Promise<boolean> {
+    const ed = editor ?? vscode.window.activeTextEditor
+    if (!ed) return false
+    const workspaceFolders = vscode.workspace.workspaceFolders
+    debugLog(`ensureProjectContext: CWD=${process.cwd()}`)
+    debugLog(`ensureProjectContext: workspaceFolders=${workspaceFolders?.map(f => f.uri.fsPath).join(', ') || 'none'}`)
+    const folder = vscode.workspace.getWorkspaceFolder(ed.document.uri) || (workspaceFolders && workspaceFolders[0])
+    
+    // Handle orphan file case (no workspace folder)
+    if (!folder) {
+      debugLog(`ensureProjectContext: no workspace folder found, trying orphan file search`)
+      const orphanLocales = findLocalesFolderForOrphanFile(ed.document.uri.fsPath, 5)
+      if (orphanLocales) {
+        debugLog(`ensureProjectContext: found locales for orphan file: ${orphanLocales}`)
+        const orphanRoot = path.dirname(orphanLocales)
+        let baseLanguage = 'en'
+        try {
+          const langs = listLocaleLanguages(orphanLocales)
+          if (langs.includes('en')) baseLanguage = 'en'
+          else if (langs.length > 0) baseLanguage = langs[0]
+        } catch {}
+        projectContext = { projectRoot: orphanRoot, localesDir: orphanLocales, baseLanguage }
+        activePreviewLanguage = baseLanguage
+        await preloadLocales()
+        return true
+      }
+      debugLog(`ensureProjectContext: no locales found for orphan file`)
+      return false
+    }
+    
+    const projectRoot = folder.uri.fsPath
+    debugLog(`ensureProjectContext: projectRoot=${projectRoot}`)
+    const config = await loadCliProjectConfig(projectRoot)
+
+    // Always rely on a user-selected locales folder (persisted per workspace)
+    let localesDir: string | null = null
+    let baseLanguage: string = config?.baseLanguage || 'en'
+
+    const stateKey = `stringer.localesDir.${projectRoot}`
+    try {
+      const saved = context.workspaceState.get<string | undefined>(stateKey)
+      if (typeof saved === 'string' && saved && fs.existsSync(saved)) localesDir = saved
+    } catch {}
+
+      if (!localesDir) {
+        // Try auto-detection: search UP from active file toward workspace root
+        debugLog(`ensureProjectContext: auto-detecting locales folder from file ${ed.document.uri.fsPath}`)
+        const autoDetected = findLocalesFolderFromFile(ed.document.uri.fsPath, projectRoot)
+        if (autoDetected) {
+          localesDir = autoDetected
+          debugLog(`ensureProjectContext: auto-detected locales folder: ${localesDir}`)
+          try { await context.workspaceState.update(stateKey, localesDir) } catch {}
+        } else {
+          // No locales folder found - user can manually select via the 🌐Stringer menu
+          debugLog(`ensureProjectContext: no locales folder found, returning false`)
+          return false
+        }
+      }
+
+    // Infer base language from files if possible
+    try {
+      const langs = listLocaleLanguages(localesDir)
+      debugLog(`ensureProjectContext: locale languages in ${localesDir}: ${langs.join(', ')}`)
+      if (langs.includes('en')) baseLanguage = 'en'
+      else if (langs.length > 0) baseLanguage = langs[0]
+      debugLog(`ensureProjectContext: detected baseLanguage: ${baseLanguage}`)
+    } catch (e) {
+      debugLog(`ensureProjectContext: error reading locale files: ${e}`)
+    }
+
+    projectContext = { projectRoot, localesDir: localesDir!, baseLanguage }
+    debugLog(`ensureProjectContext: set projectContext = { projectRoot: ${projectRoot}, localesDir: ${localesDir}, baseLanguage: ${baseLanguage} }`)
+
+    // Initialize preview language from settings or base language
+    const extConfig = vscode.workspace.getConfiguration('stringerHelper')
+    const preferred = extConfig.get<string>('defaultPreviewLanguage')
+    // Derive available languages from actual filenames (or language folders) in localesDir
+    const available = listLocaleLanguages(localesDir)
+    // Choose active language strictly from available filenames
+    if (preferred && available.includes(preferred)) activePreviewLanguage = preferred
+    else if (available.includes(baseLanguage)) activePreviewLanguage = baseLanguage
+    else activePreviewLanguage = available[0] || baseLanguage
+
+    // Setup locale watcher
+    if (localeWatcher) {
+      localeWatcher.dispose()
+      localeWatcher = null
+    }
+    try {
+      // One level deeper too, for namespaced language folders
+      const pattern = new vscode.RelativePattern(localesDir, `**/${LOCALE_FILE_GLOB}`)
+      localeWatcher = vscode.workspace.createFileSystemWatcher(pattern)
+      const reload = async () => {
+        localeCache = {}
+        // Also clear per-project caches for monorepo support
+        clearAllProjectContextCaches()
+        await preloadLocales()
+        refreshActiveEditorDecorations()
+        refreshDiagnostics()
+      }
+      localeWatcher.onDidChange(reload)
+      localeWatcher.onDidCreate(reload)
+      localeWatcher.onDidDelete(reload)
+      context.subscriptions.push(localeWatcher)
+    } catch {}
+
+    // Setup sync watcher to detect base language changes
+    if (syncWatcher) {
+      syncWatcher.dispose()
+      syncWatcher = null
+    }
+    try {
+      const baseLangPattern = new vscode.RelativePattern(localesDir, `${baseLanguage}{${[...LOCALE_FILE_EXTENSIONS, ...LOCALE_FILE_EXTENSIONS.map((ext) => `/*${ext}`)].join(',')}}`)
+      syncWatcher = vscode.workspace.createFileSystemWatcher(baseLangPattern)
+      
+      const checkAndNotifySync = async () => {
+        if (!projectContext) return
+        const status = checkSyncStatus(projectContext.localesDir, projectContext.baseLanguage)
+        if (status && !status.inSync && !pendingSyncAlert) {
+          pendingSyncAlert = true
+          const summary = getSyncChangeSummary(status)
+          const alignNow = vscode.l10n.t('Align Now')
+          const remindLater = vscode.l10n.t('Remind Later')
+          
+          const choice = await vscode.window.showInformationMessage(
+            vscode.l10n.t(
+              'Stringer: Your base language file has changed ({0}). Run Align to update translations.',
+              summary
+            ),
+            alignNow,
+            remindLater
+          )
+          
+          if (choice === alignNow) {
+            const workspaceFolders = vscode.workspace.workspaceFolders
+            const folder = vscode.window.activeTextEditor
+              ? vscode.workspace.getWorkspaceFolder(vscode.window.activeTextEditor.document.uri)
+              : (workspaceFolders && workspaceFolders[0])
+            if (folder) {
+              await runAlignInTerminal(folder.uri.fsPath)
+            }
+          }
+          
+          // Reset pending alert after user responds or after a delay
+          setTimeout(() => {
+            pendingSyncAlert = false
+          }, 60000) // Don't re-alert for 1 minute
+        }
+      }
+      
+      syncWatcher.onDidChange(checkAndNotifySync)
+      context.subscriptions.push(syncWatcher)
+    } catch {}
+
+    await preloadLocales()
+    return true
+  }
+
+  async function promptOpenWorkspaceFolder(): Promise<void> {
+    const pick = await vscode.window.showOpenDialog({
+      canSelectFiles: false,
+      canSelectFolders: true,
+      canSelectMany: false,
+      title: vscode.l10n.t('Open a folder to use Stringer Helper')
+    })
+    if (pick && pick[0]) {
+      await vscode.commands.executeCommand('vscode.openFolder', pick[0], false)
+    }
+  }
+
+  function getValueByPath(obj: any, keyPath: string): any {
+    if (!obj) return undefined
+    for (const candidate of getKeyPathCandidates(obj, keyPath)) {
+      const value = getDeepValue(obj, splitLocaleKeyPath(obj, candidate))
+      if (typeof value === 'string') return value
+    }
+    return undefined
+  }
+  // Support numeric-leaf patterns where the key may be the leaf id (e.g., 4-digit code)
+  function getValueByPathLoose(obj: any, keyPath: string): any {
+    if (!obj) return undefined
+    for (const candidate of getKeyPathCandidates(obj, keyPath)) {
+      const value = getSingleValueByPathLoose(obj, candidate)
+      if (value !== undefined) return value
+    }
+    return undefined
+  }
+  function getSingleValueByPathLoose(obj: any, keyPath: string): any {
+    const parts = splitLocaleKeyPath(obj, keyPath)
+    let node = obj
+    for (let i = 0; i < parts.length; i++) {
+      const part = parts[i]
+      if (node && typeof node === 'object' && part in node) {
+        node = node[part]
+        continue
+      }
+      // If this is the last part and the parent is an object with a single 4-digit key, return that
+      // BUT: only do this fallback if the requested key is NOT itself a 4-digit number
+      // (if user explicitly requests a specific 4-digit key that doesn't exist, return undefined)
+      const isLast = i === parts.length - 1
+      const isRequestingSpecific4Digit = /^\d{4}$/.test(part)
+      if (isLast && node && typeof node === 'object' && !isRequestingSpecific4Digit) {
+        const leafKeys = Object.keys(node)
+        const four = leafKeys.find((k) => /^\d{4}$/.test(k) && typeof node[k] === 'string')
+        if (four) return node[four]
+      }
+      return undefined
+    }
+    return typeof node === 'string' ? node : undefined
+  }
+
+  async function loadLocale(lang: string): Promise<Record<string, any> | null> {
+    if (!projectContext) return null
+    if (localeCache[lang]) return localeCache[lang]
+    const tryPaths = (() => {
+      const variants = new Set<string>()
+      const L = (lang || '').trim()
+      const low = L.toLowerCase()
+      const dash = low.replace(/_/g, '-')
+      variants.add(L)
+      variants.add(low)
+      variants.add(dash)
+      if (dash.includes('-')) variants.add(dash.split('-')[0])
+      return Array.from(variants).flatMap((v) => [
+        ...LOCALE_FILE_EXTENSIONS.map((ext) => path.join(projectContext!.localesDir, `${v}${ext}`)),
+        path.join(projectContext!.localesDir, v)
+      ])
+    })()
+    try {
+      for (const fp of tryPaths) {
+        try {
+          if (isDirectory(fp)) {
+            if (!isLocaleLanguageDir(fp)) continue
+            const data = readLocaleData(fp)
+            localeCache[lang] = data
+            return data
+          }
+          const txt = await fs.promises.readFile(fp, 'utf-8')
+          // Strips the BOM for Windows compatibility
+          const json = parseLocaleText(fp, txt)
+          localeCache[lang] = json
+          return json
+        } catch {}
+      }
+      return null
+    } catch {
+      return null
+    }
+  }
+
+  async function preloadLocales(): Promise<void> {
+    if (!projectContext) return
+    await loadLocale(projectContext.baseLanguage)
+    if (activePreviewLanguage && activePreviewLanguage !== projectContext.baseLanguage) {
+      await loadLocale(activePreviewLanguage)
+    }
+  }
+
+  function getTranslation(keyPath: string): string | null {
+    if (!projectContext) return null
+    const lang = activePreviewLanguage || projectContext.baseLanguage
+    // Try direct match
+    const primary = getValueByPath(localeCache[lang], keyPath)
+    if (primary) return primary
+    // Try loose match (handles numeric leaf keys)
+    const loose = getValueByPathLoose(localeCache[lang], keyPath)
+    if (loose) return loose
+    // Fallback to base language
+    const fallbackBase = getValueByPath(localeCache[projectContext.baseLanguage], keyPath)
+    if (fallbackBase) return fallbackBase
+    const fallbackLoose = getValueByPathLoose(localeCache[projectContext.baseLanguage], keyPath)
+    if (fallbackLoose) return fallbackLoose
+    // Last-resort: try any loaded locale (helps if baseLanguage file is missing)
+    for (const k of Object.keys(localeCache)) {
+      const v = getValueByPath(localeCache[k], keyPath) || getValueByPathLoose(localeCache[k], keyPath)
+      if (typeof v === 'string') return v
+    }
+    return null
+  }
+
+  function findTTupleRanges(
+    doc: vscode.TextDocument
+  ): Array<{ range: vscode.Range; key: string; keyRange: vscode.Range; check: boolean; scope: string }> {
+    // key is the full key: the namespace or keyPrefix of a scoped t function is applied
+    return findTCallsInText(doc.getText(), doc.uri.fsPath).map((m) => ({
+      range: new vscode.Range(doc.positionAt(m.start), doc.positionAt(m.end)),
+      key: applyKeyScope(m.key, m.scope),
+      keyRange: new vscode.Range(doc.positionAt(m.keyStart), doc.positionAt(m.keyStart + m.key.length)),
+      check: m.check,
+      scope: m.scope
+    }))
+  }
+
+  // Detect component keys like <i18n-t keypath="...">, <Trans i18nKey="..."> and v-t="'...'"
+  function findKeyAttributeRanges(
+    doc: vscode.TextDocument
+  ): Array<{ range: vscode.Range; key: string; isAttribute?: boolean }> {
+    return findKeyAttributesInText(doc.getText()).map((m) => ({
+      range: new vscode.Range(doc.positionAt(m.keyStart), doc.positionAt(m.keyStart + m.key.length)),
+      key: m.key,
+      isAttribute: true
+    }))
+  }
+
+  function getTTupleAtPosition(doc: vscode.TextDocument, position: vscode.Position): { range: vscode.Range; key: string } | null {
+    const ranges = findTTupleRanges(doc)
+    for (const r of ranges) {
+      if (r.range.contains(position)) return r
+    }
+    return null
+  }
+
+  // Locate the key string under the cursor for t('...') calls and component key attributes
+  function getKeyAtPosition(doc: vscode.TextDocument, position: vscode.Position): { key: string; range: vscode.Range } | null {
+    for (const t of findTTupleRanges(doc)) {
+      if (t.range.contains(position)) return { key: t.key, range: t.keyRange }
+    }
+    for (const a of findKeyAttributeRanges(doc)) {
+      if (a.range.contains(position)) return { key: a.key, range: a.range }
+    }
+    return null
+  }
+
+  // Fallback: find first t('...') or component key attribute occurring on the given line
+  function getTTupleOnLine(doc: vscode.TextDocument, line: number): { range: vscode.Range; key: string } | null {
+    const tuples = findTTupleRanges(doc)
+    for (const t of tuples) {
+      if (t.range.start.line <= line && line <= t.range.end.line) return t
+    }
+    const attrs = findKeyAttributeRanges(doc)
+    for (const a of attrs) {
+      if (a.range.start.line <= line && line <= a.range.end.line) return { range: a.range, key: a.key }
+    }
+    return null
+  }
+
+  function escapeHtmlAttr(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;')
+  }
+
+  function escapeJsString(value: string, quote: '"' | "'" = '"'): string {
+    const q = quote === '"' ? '"' : "'"
+    return value
+      .replace(/\\/g, '\\\\')
+      .replace(/\n/g, '\\n')
+      .replace(/\r/g, '\\r')
+      .replace(new RegExp(q.replace(/[-/\\^$*+?.()|[\]{}]/g, '\\$&'), 'g'), `\\${q}`)
+  }
+
+  function findEnclosingMustache(source: string, offset: number): { start: number; end: number } | null {
+    const openIdx = source.lastIndexOf('{{', offset)
+    if (openIdx === -1) return null
+    const closeIdx = source.indexOf('}}', openIdx + 2)
+    if (closeIdx === -1) return null
+    if (offset < openIdx || offset > closeIdx) return null
+    return { start: openIdx, end: closeIdx + 2 }
+  }
+
+  // The {expression} around the offset in Svelte markup
+  function findEnclosingSvelteExpression(source: string, offset: number): { start: number; end: number } | null {
+    const openIdx = source.lastIndexOf('{', offset)
+    if (openIdx === -1 || source.lastIndexOf('}', offset - 1) > openIdx) return null
+    const closeIdx = source.indexOf('}', offset)
+    if (closeIdx === -1) return null
+    return { start: openIdx, end: closeIdx + 1 }
+  }
+
+  /**
+   * Resolve the project context used for a document: the per-file locales folder when one is found,
+   * otherwise the global project context if the document belongs to the same project
+   */
+  function getEffectiveProjectContext(document: vscode.TextDocument): PerProjectContext | null {
+    const filePath = document.uri.fsPath
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri)
+    const workspaceRoot = workspaceFolder?.uri.fsPath
+
+    // Try to get per-file project context (monorepo support)
+    const fileCtx = getProjectContextForFile(filePath, workspaceRoot)
+    debugLog(`getEffectiveProjectContext: fileCtx=${fileCtx ? `localesDir=${fileCtx.localesDir}, baseLanguage=${fileCtx.baseLanguage}` : 'null'}`)
+    
+    // Only fall back to global projectContext if:
+    // 1. Per-file detection failed, AND
+    // 2. The file is in the same workspace as the global context
+    // This prevents showing wrong translations in multi-root workspaces
+    let effectiveCtx = fileCtx
+    if (!effectiveCtx && projectContext) {
+      const globalRoot = projectContext.projectRoot
+      // Normalize paths for cross-platform comparison (Windows case-insensitive)
+      const normalizedWorkspaceRoot = workspaceRoot ? normalizePathForComparison(workspaceRoot) : undefined
+      const normalizedGlobalRoot = normalizePathForComparison(globalRoot)
+      const normalizedFilePath = normalizePathForComparison(filePath)
+      
+      // Ensure paths don't have trailing separators for consistent comparison
+      const trimSep = (p: string) => p.replace(/[/\\]+$/, '')
+      const trimmedGlobalRoot = trimSep(normalizedGlobalRoot)
+      const trimmedFilePath = trimSep(normalizedFilePath)
+      const trimmedWorkspaceRoot = normalizedWorkspaceRoot ? trimSep(normalizedWorkspaceRoot) : undefined
+      
+      // Check if file is in the same project:
+      // 1. Workspace roots match exactly, OR
+      // 2. File path starts with the project root + separator (file is inside project)
+      // 3. File path equals project root (edge case)
+      const isInSameProject = 
+        (trimmedWorkspaceRoot && trimmedWorkspaceRoot === trimmedGlobalRoot) || 
+        (trimmedGlobalRoot && (
+          trimmedFilePath === trimmedGlobalRoot ||
+          trimmedFilePath.startsWith(trimmedGlobalRoot + path.sep) ||
+          trimmedFilePath.startsWith(trimmedGlobalRoot + '/')  // Handle mixed separators
+        ))
+      debugLog(`getEffectiveProjectContext: isInSameProject check: trimmedWorkspaceRoot=${trimmedWorkspaceRoot}, trimmedGlobalRoot=${trimmedGlobalRoot}, trimmedFilePath=${trimmedFilePath}`)
+      if (isInSameProject) {
+        debugLog(`getEffectiveProjectContext: using global projectContext as effectiveCtx`)
+        effectiveCtx = {
+          localesDir: projectContext.localesDir,
+          baseLanguage: projectContext.baseLanguage,
+          localeData: localeCache,
+          availableLanguages: []
+        }
+      } else {
+        debugLog(`getEffectiveProjectContext: file not in same project, effectiveCtx remains ${effectiveCtx ? 'set' : 'null'}`)
+      }
+    }
+    
+    return effectiveCtx
+  }
+
+  function decorateEditor(editor: vscode.TextEditor) {
+    const cfg = vscode.workspace.getConfiguration('stringerHelper')
+    const enable = cfg.get<boolean>('enableInlinePreview', true)
+    const keyMode = (cfg.get<string>('inlinePreviewKeyMode') || 'hidden') as 'hidden' | 'full' | 'leaf'
+    const hoverShowsKey = cfg.get<boolean>('hoverShowsKey', true)
+    const previewBg = (cfg.get<string>('previewBackgroundColor') || 'hsl(270, 55%, 43%)') as any
+    if (!enable) {
+      // Ensure all decoration layers are cleared when preview is disabled
+      editor.setDecorations(decorationType, [])
+      editor.setDecorations(hiddenTextDecorationType, [])
+      editor.setDecorations(valueBeforeDecorationType, [])
+      return
+    }
+    // Existence checks like te('key') are neither previewed nor flagged as missing
+    const found = [
+      ...findTTupleRanges(editor.document).filter((t) => !t.check),
+      ...findKeyAttributeRanges(editor.document)
+    ]
+    const decorations: vscode.DecorationOptions[] = []
+    const hiddenRanges: vscode.DecorationOptions[] = []
+    const hiddenModeValueDecorations: vscode.DecorationOptions[] = []
+    const docText = editor.document.getText()
+    const filePath = editor.document.uri.fsPath
+    const isVue = isVueFile(filePath)
+    const isJsx = isJsxFile(filePath)
+    const isSvelte = isSvelteFile(filePath)
+    
+    debugLog(`decorateEditor: file=${filePath}`)
+    debugLog(`decorateEditor: projectContext=${projectContext ? `localesDir=${projectContext.localesDir}, baseLanguage=${projectContext.baseLanguage}` : 'null'}`)
+    
+    const effectiveCtx = getEffectiveProjectContext(editor.document)
+    
+    debugLog(`decorateEditor: effectiveCtx=${effectiveCtx ? `localesDir=${effectiveCtx.localesDir}` : 'null'}, found ${found.length} t() calls`)
+    
+    for (const item of found) {
+      // Use per-file context for translation lookup
+      const value = effectiveCtx 
+        ? getTranslationForProject(effectiveCtx, item.key)
+        : getTranslation(item.key)
+      debugLog(`decorateEditor: key=${item.key}, value=${value ?? 'NOT FOUND'}`)
+      const textToShow = value ?? ''
+      const startOffset = editor.document.offsetAt(item.range.start)
+      const inVueTemplate = isVue && isVueTemplateTextNode(docText, startOffset)
+      const inJsxUi = isJsx && isLikelyJsxUiContext(docText, startOffset)
+      const inSvelteMarkup = isSvelte && isSvelteMarkup(docText, startOffset)
+      // Missing is determined against the ACTIVE locale file only (no fallback),
+      // so removing a key from the active file turns it red immediately.
+      const lang = (activePreviewLanguage || effectiveCtx?.baseLanguage || projectContext?.baseLanguage) as string
+      // Ensure locale is loaded before checking activeDirect
+      let activeDirect: any = undefined
+      if (effectiveCtx) {
+        // Determine the effective "active" language for THIS project.
+        // If global activePreviewLanguage isn't available for this project (common for orphan files),
+        // use the project's base language for missing checks.
+        const missingLang =
+          activePreviewLanguage && effectiveCtx.availableLanguages.includes(activePreviewLanguage)
+            ? activePreviewLanguage
+            : effectiveCtx.baseLanguage
+
+        // Explicitly load the locale file(s) if not already loaded
+        loadLocaleForProject(effectiveCtx, missingLang)
+        if (missingLang !== effectiveCtx.baseLanguage) {
+          loadLocaleForProject(effectiveCtx, effectiveCtx.baseLanguage)
+        }
+
+        const missingLangData = effectiveCtx.localeData[missingLang]
+        if (missingLangData) {
+          activeDirect = getValueByPathLoose(missingLangData, item.key)
+        }
+        // If the project doesn't have the selected language loaded, fall back to base language
+        if (!activeDirect && missingLang !== effectiveCtx.baseLanguage && effectiveCtx.localeData[effectiveCtx.baseLanguage]) {
+          activeDirect = getValueByPathLoose(effectiveCtx.localeData[effectiveCtx.baseLanguage], item.key)
+        }
+      } else if (projectContext) {
+        // Determine the effective "active" language for the global project context.
+        const missingLang = (activePreviewLanguage && localeCache[activePreviewLanguage])
+          ? activePreviewLanguage
+          : projectContext.baseLanguage
+        // Use both strict and loose matching for consistency
+        activeDirect = getValueByPath(localeCache[missingLang], item.key) || getValueByPathLoose(localeCache[missingLang], item.key)
+        if (!activeDirect && missingLang !== projectContext.baseLanguage) {
+          activeDirect =
+            getValueByPath(localeCache[projectContext.baseLanguage], item.key) ||
+            getValueByPathLoose(localeCache[projectContext.baseLanguage], item.key)
+        }
+      }
+      const isMissing = !activeDirect && isMissingKeyCheckContext(docText, startOffset, isVue, isJsx)
+      // If there is no value to show (and not a missing-key case) and we're not in hidden mode, skip rendering
+      if (!textToShow && !isMissing && keyMode !== 'hidden') continue
+      // In hidden mode we want to show only the locale value and hide the original code everywhere
+      const displayLang = activePreviewLanguage || effectiveCtx?.baseLanguage || ''
+      const hover = new vscode.MarkdownString()
+      if (hoverShowsKey) hover.appendMarkdown(vscode.l10n.t('Key: {0}', `\`${item.key}\``))
+      hover.appendMarkdown('\n\n')
+      hover.appendMarkdown(vscode.l10n.t('Value ({0}): {1}', displayLang, String(value ?? '')))
+      const leaf = item.key.split('.').pop() || item.key
+      // Key+locale mode should not duplicate the key (code already shows it)
+      // Leaf mode shows a compact key prefix; Hidden mode shows only value and hides the code
+      const keyLabel = keyMode === 'leaf' ? `[${leaf}] ` : ''
+      // Expand preview/hidden range to include surrounding template/JSX braces when applicable
+      let previewRange = item.range
+      if (inVueTemplate) {
+        const must = findEnclosingMustache(docText, startOffset)
+        if (must) {
+          previewRange = new vscode.Range(
+            editor.document.positionAt(must.start),
+            editor.document.positionAt(must.end)
+          )
+        }
+      } else if ((!isVue && isJsx && inJsxUi) || inSvelteMarkup) {
+        let left = editor.document.offsetAt(item.range.start) - 1
+        while (left >= 0 && /\s/.test(docText[left])) left--
+        let right = editor.document.offsetAt(item.range.end)
+        while (right < docText.length && /\s/.test(docText[right])) right++
+        if (docText[left] === '{' && docText[right] === '}') {
+          previewRange = new vscode.Range(
+            editor.document.positionAt(left),
+            editor.document.positionAt(right + 1)
+          )
+        }
+      }
+
+      if (keyMode === 'hidden') {
+        // 1) Hide the original text entirely (collapsed width)
+        hiddenRanges.push({ range: previewRange })
+        // 2) Render the value via a separate decoration so opacity does not affect it
+        hiddenModeValueDecorations.push({
+          range: previewRange,
+          // Avoid duplicate hover (decoration + provider); provider will handle it
+          renderOptions: {
+            // Use `before` to ensure visibility even when the original range is fully hidden
+            before: {
+              contentText: `${truncateForPreview(isMissing ? vscode.l10n.t('Locale Key Missing!!') : textToShow)}`,
+              backgroundColor: (isMissing ? 'hsl(0, 70%, 50%)' : previewBg) as any,
+              color: '#ffffff' as any,
+              margin: '0 0 0 0.15em',
+              border: '1px solid',
+              borderColor: (isMissing ? 'hsl(0, 70%, 50%)' : previewBg) as any,
+              textDecoration: 'border-radius: 6px; padding: 0 4px;'
+            }
+          }
+        })
+      } else {
+        decorations.push({
+          range: item.range,
+          hoverMessage: hover,
+          renderOptions: {
+            after: {
+              contentText: `${keyLabel}${truncateForPreview(isMissing ? vscode.l10n.t('Locale Key Missing!!') : textToShow)}`,
+              backgroundColor: (isMissing ? 'hsl(0, 70%, 50%)' : previewBg) as any,
+              color: '#ffffff' as any,
+              margin: '0 0 0 0.15em',
+              border: '1px solid',
+              borderColor: (isMissing ? 'hsl(0, 70%, 50%)' : previewBg) as any,
+              textDecoration: 'border-radius: 6px; padding: 0 4px;'
+            }
+          }
+        })
+      }
+    }
+    // Apply decorations per mode
+    if (keyMode === 'hidden') {
+      editor.setDecorations(valueBeforeDecorationType, hiddenModeValueDecorations)
+      editor.setDecorations(hiddenTextDecorationType, hiddenRanges)
+      editor.setDecorations(decorationType, [])
+    } else {
+      editor.setDecorations(decorationType, decorations)
+      editor.setDecorations(hiddenTextDecorationType, [])
+      editor.setDecorations(valueBeforeDecorationType, [])
+    }
   }
-  if (qStart < 0 || !quote) return null
 
-  // Ensure offset is after the opening quote (inside the literal)
-  if (offset <= qStart) return null
+  function refreshActiveEditorDecorations() {
+    const ed = vscode.window.activeTextEditor
+    if (!ed) return
+    decorateEditor(ed)
+  }
 
-  // Search forward for the closing quote of the same type
-  for (let j = qStart + 1; j < source.length; j++) {
-    const ch = source[j]
-    if (ch === quote && !isEscaped(source, j)) {
-      return { quote, qStart, qEnd: j }
+  // ---------- Missing key diagnostics (Problems panel, scrollbar, F8) ----------
+  const missingKeyDiagnostics = vscode.languages.createDiagnosticCollection('stringer')
+  context.subscriptions.push(missingKeyDiagnostics)
+  const diagnosticTimers = new Map<string, NodeJS.Timeout>()
+  // uri -> key/language behind each published diagnostic (used by the quick fixes)
+  const missingKeyDiagnosticInfo = new Map<
+    string,
+    Array<{ range: vscode.Range; message: string; key: string; lang: string; scope: string }>
+  >()
+
+  function isDiagnosableDocument(document: vscode.TextDocument): boolean {
+    return (
+      document.uri.scheme === 'file' &&
+      /\.(js|jsx|ts|tsx|vue|svelte|mdx|md)$/i.test(document.uri.fsPath) &&
+      !isExcludedSourcePath(document.uri.fsPath)
+    )
+  }
+
+  // One warning per unresolved key per language, using the same context rules as the inline badges
+  function updateMissingKeyDiagnostics(document: vscode.TextDocument): void {
+    const cfg = vscode.workspace.getConfiguration('stringerHelper')
+    if (!cfg.get<boolean>('missingKeyDiagnostics', true) || !isDiagnosableDocument(document)) {
+      clearMissingKeyDiagnostics(document.uri)
+      return
     }
-    // For template literals, skip simple ${ ... } blocks (best-effort)
-    if (quote === '`' && ch === '$' && source[j + 1] === '{') {
-      // Jump to matching '}'
-      let depth = 1
-      j += 2
-      while (j < source.length && depth > 0) {
-        if (source[j] === '{') depth++
-        else if (source[j] === '}') depth--
-        // Handle string-like chars inside expression naively by skipping escapes
-        if (source[j] === '\\') j++
-        j++
+    const ctx = getEffectiveProjectContext(document)
+    if (!ctx) {
+      clearMissingKeyDiagnostics(document.uri)
+      return
+    }
+    const docText = document.getText()
+    const filePath = document.uri.fsPath
+    const isVue = isVueFile(filePath)
+    const isJsx = isJsxFile(filePath)
+    const languages = listLocaleLanguages(ctx.localesDir)
+    const items = [
+      ...findTTupleRanges(document)
+        .filter((t) => !t.check)
+        .map((t) => ({ key: t.key, range: t.keyRange, scope: t.scope })),
+      ...findKeyAttributeRanges(document).map((a) => ({ key: a.key, range: a.range, scope: '' }))
+    ]
+    const diagnostics: vscode.Diagnostic[] = []
+    const info: Array<{ range: vscode.Range; message: string; key: string; lang: string; scope: string }> = []
+    for (const item of items) {
+      if (!isMissingKeyCheckContext(docText, document.offsetAt(item.range.start), isVue, isJsx)) continue
+      for (const lang of languages) {
+        const data = loadLocaleForProject(ctx, lang)
+        if (!data || getValueByPathLoose(data, item.key)) continue
+        const diagnostic = new vscode.Diagnostic(
+          item.range,
+          vscode.l10n.t("Missing translation for '{0}' in {1}", item.key, lang),
+          vscode.DiagnosticSeverity.Warning
+        )
+        diagnostic.source = 'Stringer'
+        diagnostic.code = 'missing-key'
+        diagnostics.push(diagnostic)
+        info.push({ range: item.range, message: diagnostic.message, key: item.key, lang, scope: item.scope })
       }
-      j--
     }
+    missingKeyDiagnostics.set(document.uri, diagnostics)
+    missingKeyDiagnosticInfo.set(document.uri.toString(), info)
   }
-  return null
-}
 
-export async function activate(context: vscode.ExtensionContext) {
-  async function ensureProjectContext(editor?: vscode.TextEditor | null): Promise<boolean> {
-    const ed = editor ?? vscode.window.activeTextEditor
-    if (!ed) return false
-    const workspaceFolders = vscode.workspace.workspaceFolders
-    debugLog(`ensureProjectContext: CWD=${process.cwd()}`)
-    debugLog(`ensureProjectContext: workspaceFolders=${workspaceFolders?.map(f => f.uri.fsPath).join(', ') || 'none'}`)
-    const folder = vscode.workspace.getWorkspaceFolder(ed.document.uri) || (workspaceFolders && workspaceFolders[0])
-    
-    // Handle orphan file case (no workspace folder)
-    if (!folder) {
-      debugLog(`ensureProjectContext: no workspace folder found, trying orphan file search`)
-      const orphanLocales = findLocalesFolderForOrphanFile(ed.document.uri.fsPath, 5)
-      if (orphanLocales) {
-        debugLog(`ensureProjectContext: found locales for orphan file: ${orphanLocales}`)
-        const orphanRoot = path.dirname(orphanLocales)
-        let baseLanguage = 'en'
-        try {
-          const files = fs.readdirSync(orphanLocales).filter((f) => isLocaleFileName(f))
-          if (files.includes('en.json')) baseLanguage = 'en'
-          else if (files.length > 0) baseLanguage = files[0].replace(/\.json$/, '')
-        } catch {}
-        projectContext = { projectRoot: orphanRoot, localesDir: orphanLocales, baseLanguage }
-        activePreviewLanguage = baseLanguage
-        await preloadLocales()
-        return true
-      }
-      debugLog(`ensureProjectContext: no locales found for orphan file`)
-      return false
-    }
-    
-    const projectRoot = folder.uri.fsPath
-    debugLog(`ensureProjectContext: projectRoot=${projectRoot}`)
-    const config = await loadCliProjectConfig(projectRoot)
+  function clearMissingKeyDiagnostics(uri: vscode.Uri): void {
+    missingKeyDiagnostics.delete(uri)
+    missingKeyDiagnosticInfo.delete(uri.toString())
+  }
 
-    // Always rely on a user-selected locales folder (persisted per workspace)
-    let localesDir: string | null = null
-    let baseLanguage: string = config?.baseLanguage || 'en'
+  function scheduleDiagnostics(document: vscode.TextDocument): void {
+    const id = document.uri.toString()
+    const pending = diagnosticTimers.get(id)
+    if (pending) clearTimeout(pending)
+    diagnosticTimers.set(
+      id,
+      setTimeout(() => {
+        diagnosticTimers.delete(id)
+        updateDocumentDiagnostics(document)
+      }, 300)
+    )
+  }
 
-    const stateKey = `stringer.localesDir.${projectRoot}`
+  // ---------- Hardcoded string diagnostics (opt-in) ----------
+  const hardcodedStringDiagnostics = vscode.languages.createDiagnosticCollection('stringer-hardcoded')
+  context.subscriptions.push(hardcodedStringDiagnostics)
+
+  function updateHardcodedStringDiagnostics(document: vscode.TextDocument): void {
+    const cfg = vscode.workspace.getConfiguration('stringerHelper')
+    const filePath = document.uri.fsPath
+    const kind = isVueFile(filePath) ? 'vue' : isJsxFile(filePath) ? 'jsx' : null
+    if (!cfg.get<boolean>('hardcodedStringDiagnostics', false) || !kind || !isDiagnosableDocument(document)) {
+      hardcodedStringDiagnostics.delete(document.uri)
+      return
+    }
+    const diagnostics = findHardcodedStrings(document.getText(), kind).map((item) => {
+      const preview = item.text.length > 40 ? item.text.slice(0, 40) + '…' : item.text
+      const diagnostic = new vscode.Diagnostic(
+        new vscode.Range(document.positionAt(item.start), document.positionAt(item.end)),
+        item.attrName
+          ? vscode.l10n.t('Hardcoded string in {0}: "{1}"', item.attrName, preview)
+          : vscode.l10n.t('Hardcoded string: "{0}"', preview),
+        vscode.DiagnosticSeverity.Information
+      )
+      diagnostic.source = 'Stringer'
+      diagnostic.code = 'hardcoded-string'
+      return diagnostic
+    })
+    hardcodedStringDiagnostics.set(document.uri, diagnostics)
+  }
+
+  // ---------- Locale parse errors (Problems panel + status bar) ----------
+  // A broken locale file would otherwise only show up as a screen full of missing translations
+  const localeParseDiagnostics = vscode.languages.createDiagnosticCollection('stringer-locale')
+  context.subscriptions.push(localeParseDiagnostics)
+  const localeErrorStatusItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 101)
+  localeErrorStatusItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground')
+  localeErrorStatusItem.command = 'workbench.actions.view.problems'
+  context.subscriptions.push(localeErrorStatusItem)
+
+  function updateLocaleParseDiagnostics(filePath: string, text = readLocaleTextPreferOpen(filePath)): void {
+    const uri = vscode.Uri.file(filePath)
     try {
-      const saved = context.workspaceState.get<string | undefined>(stateKey)
-      if (typeof saved === 'string' && saved && fs.existsSync(saved)) localesDir = saved
-    } catch {}
+      if (text !== undefined) parseLocaleText(filePath, text)
+      localeParseDiagnostics.delete(uri)
+    } catch (err) {
+      const content = text || ''
+      const start = offsetToPosition(content, getLocaleParseErrorOffset(err, content))
+      // The position is shown by the Problems panel, so drop it from the message
+      const reason = (err instanceof Error ? err.message : String(err))
+        .replace(/ at offset \d+$/, '')
+        .replace(/^(?:YAML|PO) line \d+: /, '')
+      const diagnostic = new vscode.Diagnostic(
+        new vscode.Range(start, start.translate(0, 1)),
+        vscode.l10n.t('Locale file could not be parsed: {0}. Its translations show as missing until it is fixed.', reason),
+        vscode.DiagnosticSeverity.Error
+      )
+      diagnostic.source = 'Stringer'
+      diagnostic.code = 'invalid-locale-file'
+      localeParseDiagnostics.set(uri, [diagnostic])
+    }
+    updateLocaleErrorStatus()
+  }
 
-      if (!localesDir) {
-        // Try auto-detection: search UP from active file toward workspace root
-        debugLog(`ensureProjectContext: auto-detecting locales folder from file ${ed.document.uri.fsPath}`)
-        const autoDetected = findLocalesFolderFromFile(ed.document.uri.fsPath, projectRoot)
-        if (autoDetected) {
-          localesDir = autoDetected
-          debugLog(`ensureProjectContext: auto-detected locales folder: ${localesDir}`)
-          try { await context.workspaceState.update(stateKey, localesDir) } catch {}
-        } else {
-          // No locales folder found - user can manually select via the 🌐Stringer menu
-          debugLog(`ensureProjectContext: no locales folder found, returning false`)
-          return false
-        }
+  // Check every locale file of the known locales folders, including namespace files
+  function validateLocaleFolders(): void {
+    localeParseDiagnostics.forEach((uri) => {
+      if (!fs.existsSync(uri.fsPath)) localeParseDiagnostics.delete(uri)
+    })
+    const folders = new Map<string, string>()
+    for (const ctx of projectContextCache.values()) folders.set(normalizePathForComparison(ctx.localesDir), ctx.localesDir)
+    if (projectContext) folders.set(normalizePathForComparison(projectContext.localesDir), projectContext.localesDir)
+    for (const localesDir of folders.values()) {
+      for (const lang of listLocaleLanguages(localesDir)) {
+        const localePath = getLocalePath(localesDir, lang)
+        if (!localePath) continue
+        const files = isNamespacedLocalePath(localePath)
+          ? listNamespaceFiles(localePath).map((file) => path.join(localePath, file))
+          : [localePath]
+        for (const filePath of files) updateLocaleParseDiagnostics(filePath)
       }
+    }
+    updateLocaleErrorStatus()
+  }
 
-    // Infer base language from files if possible
-    try {
-      const files = fs.readdirSync(localesDir).filter((f) => isLocaleFileName(f))
-      debugLog(`ensureProjectContext: locale files in ${localesDir}: ${files.join(', ')}`)
-      if (files.includes('en.json')) baseLanguage = 'en'
-      else if (files.length > 0) baseLanguage = files[0].replace(/\.json$/, '')
-      debugLog(`ensureProjectContext: detected baseLanguage: ${baseLanguage}`)
-    } catch (e) {
-      debugLog(`ensureProjectContext: error reading locale files: ${e}`)
+  function updateLocaleErrorStatus(): void {
+    const broken: string[] = []
+    localeParseDiagnostics.forEach((uri, diagnostics) => {
+      if (diagnostics.length > 0) broken.push(vscode.workspace.asRelativePath(uri))
+    })
+    if (broken.length === 0) {
+      localeErrorStatusItem.hide()
+      return
+    }
+    localeErrorStatusItem.text =
+      broken.length === 1
+        ? `$(warning) ${vscode.l10n.t('Invalid locale file')}`
+        : `$(warning) ${vscode.l10n.t('{0} invalid locale files', broken.length)}`
+    localeErrorStatusItem.tooltip = [
+      vscode.l10n.t('Stringer could not parse these locale files, so their translations show as missing:'),
+      ...broken
+    ].join('\n')
+    localeErrorStatusItem.show()
+  }
+
+  function updateDocumentDiagnostics(document: vscode.TextDocument): void {
+    updateMissingKeyDiagnostics(document)
+    updateHardcodedStringDiagnostics(document)
+    if (isLocaleDocument(document)) updateLocaleParseDiagnostics(document.uri.fsPath, document.getText())
+  }
+
+  function refreshDiagnostics(): void {
+    for (const document of vscode.workspace.textDocuments) {
+      updateDocumentDiagnostics(document)
     }
+    validateLocaleFolders()
+  }
 
-    projectContext = { projectRoot, localesDir: localesDir!, baseLanguage }
-    debugLog(`ensureProjectContext: set projectContext = { projectRoot: ${projectRoot}, localesDir: ${localesDir}, baseLanguage: ${baseLanguage} }`)
+  context.subscriptions.push(
+    vscode.workspace.onDidOpenTextDocument((document) => updateDocumentDiagnostics(document)),
+    vscode.workspace.onDidChangeTextDocument((e) => scheduleDiagnostics(e.document)),
+    vscode.workspace.onDidCloseTextDocument((document) => {
+      clearMissingKeyDiagnostics(document.uri)
+      hardcodedStringDiagnostics.delete(document.uri)
+      // Unsaved edits are gone; the file on disk decides again
+      if (localeParseDiagnostics.has(document.uri)) updateLocaleParseDiagnostics(document.uri.fsPath, readFileIfExists(document.uri.fsPath))
+    })
+  )
 
-    // Initialize preview language from settings or base language
-    const extConfig = vscode.workspace.getConfiguration('stringerHelper')
-    const preferred = extConfig.get<string>('defaultPreviewLanguage')
-    // Derive available languages from actual filenames in localesDir
-    let available: string[] = []
-    try {
-      available = fs
-        .readdirSync(localesDir)
-        .filter((f) => isLocaleFileName(f))
-        .map((f) => f.replace(/\.json$/, ''))
-    } catch {}
-    // Choose active language strictly from available filenames
-    if (preferred && available.includes(preferred)) activePreviewLanguage = preferred
-    else if (available.includes(baseLanguage)) activePreviewLanguage = baseLanguage
-    else activePreviewLanguage = available[0] || baseLanguage
+  // ---------- Quick fixes for missing keys ----------
+  async function reloadLocalesAndRefresh(): Promise<void> {
+    localeCache = {}
+    clearAllProjectContextCaches()
+    await preloadLocales()
+    refreshActiveEditorDecorations()
+    refreshDiagnostics()
+  }
 
-    // Setup locale watcher
-    if (localeWatcher) {
-      localeWatcher.dispose()
-      localeWatcher = null
+  // Write one value into a locale file through the same setDeepValue path used when adding keys
+  async function writeLocaleValue(ctx: PerProjectContext, lang: string, keyPath: string, value: string): Promise<boolean> {
+    if (!(await waitForStringerCli())) return false
+    const localePath = getLocalePath(ctx.localesDir, lang) || getNewLocalePath(ctx.localesDir, lang)
+    let data: Record<string, any> = {}
+    try {
+      if (fs.existsSync(localePath)) data = readLocaleData(localePath)
+    } catch {
+      vscode.window.showErrorMessage(
+        vscode.l10n.t('{0} could not be parsed. Please fix it and try again.', getLocaleFileLabel(ctx.localesDir, lang))
+      )
+      return false
     }
+    // Use the base language's namespace for keys written without one
+    const baseData = loadLocaleForProject(ctx, ctx.baseLanguage)
+    const candidates = getKeyPathCandidates(baseData, keyPath)
+    const target = candidates.find((c) => getDeepValue(baseData || {}, splitLocaleKeyPath(baseData, c)) !== undefined) || candidates[0]
+    setValueByKeyPath(data, target, value)
     try {
-      const pattern = new vscode.RelativePattern(localesDir, '*.json')
-      localeWatcher = vscode.workspace.createFileSystemWatcher(pattern)
-      const reload = async () => {
-        localeCache = {}
-        // Also clear per-project caches for monorepo support
-        clearAllProjectContextCaches()
-        await preloadLocales()
-        refreshActiveEditorDecorations()
-      }
-      localeWatcher.onDidChange(reload)
-      localeWatcher.onDidCreate(reload)
-      localeWatcher.onDidDelete(reload)
-      context.subscriptions.push(localeWatcher)
-    } catch {}
+      writeLocaleData(localePath, data)
+    } catch (err: any) {
+      vscode.window.showErrorMessage(err?.message || String(err))
+      return false
+    }
+    return true
+  }
 
-    // Setup sync watcher to detect base language changes
-    if (syncWatcher) {
-      syncWatcher.dispose()
-      syncWatcher = null
+  function getContextForUri(uri: vscode.Uri): PerProjectContext | null {
+    const document = vscode.workspace.textDocuments.find((d) => d.uri.toString() === uri.toString())
+    return document ? getEffectiveProjectContext(document) : null
+  }
+
+  const addMissingKeyCmd = vscode.commands.registerCommand(
+    'stringer.addMissingKeyToBase',
+    async (uri: vscode.Uri, key: string) => {
+      const ctx = getContextForUri(uri)
+      if (!ctx) return
+      const value = await vscode.window.showInputBox({
+        title: vscode.l10n.t('Add {0} to {1}', key, getLocaleFileLabel(ctx.localesDir, ctx.baseLanguage)),
+        prompt: vscode.l10n.t('Value for {0}', key)
+      })
+      if (value === undefined) return
+      if (await writeLocaleValue(ctx, ctx.baseLanguage, key, value)) await reloadLocalesAndRefresh()
     }
-    try {
-      const baseLangPattern = new vscode.RelativePattern(localesDir, `${baseLanguage}.json`)
-      syncWatcher = vscode.workspace.createFileSystemWatcher(baseLangPattern)
-      
-      const checkAndNotifySync = async () => {
-        if (!projectContext) return
-        const status = checkSyncStatus(projectContext.localesDir, projectContext.baseLanguage)
-        if (status && !status.inSync && !pendingSyncAlert) {
-          pendingSyncAlert = true
-          const summary = getSyncChangeSummary(status)
-          const alignNow = vscode.l10n.t('Align Now')
-          const remindLater = vscode.l10n.t('Remind Later')
-          
-          const choice = await vscode.window.showInformationMessage(
-            vscode.l10n.t(
-              'Stringer: Your base language file has changed ({0}). Run Align to update translations.',
-              summary
-            ),
-            alignNow,
-            remindLater
-          )
-          
-          if (choice === alignNow) {
-            const workspaceFolders = vscode.workspace.workspaceFolders
-            const folder = vscode.window.activeTextEditor
-              ? vscode.workspace.getWorkspaceFolder(vscode.window.activeTextEditor.document.uri)
-              : (workspaceFolders && workspaceFolders[0])
-            if (folder) {
-              await runAlignInTerminal(folder.uri.fsPath)
+  )
+  const copyBaseValueCmd = vscode.commands.registerCommand(
+    'stringer.copyBaseValueToLocale',
+    async (uri: vscode.Uri, key: string, lang: string) => {
+      const ctx = getContextForUri(uri)
+      if (!ctx) return
+      const baseValue = getValueByPathLoose(loadLocaleForProject(ctx, ctx.baseLanguage), key)
+      if (typeof baseValue !== 'string') return
+      if (await writeLocaleValue(ctx, lang, key, baseValue)) await reloadLocalesAndRefresh()
+    }
+  )
+  context.subscriptions.push(addMissingKeyCmd, copyBaseValueCmd)
+
+  const missingKeyCodeActionProvider = vscode.languages.registerCodeActionsProvider(
+    { scheme: 'file' },
+    {
+      provideCodeActions(document, _range, actionContext) {
+        const info = missingKeyDiagnosticInfo.get(document.uri.toString())
+        if (!info) return undefined
+        const ctx = getEffectiveProjectContext(document)
+        if (!ctx) return undefined
+        const baseData = loadLocaleForProject(ctx, ctx.baseLanguage) || {}
+        const actions: vscode.CodeAction[] = []
+        const titles = new Set<string>()
+        const push = (action: vscode.CodeAction, diagnostic: vscode.Diagnostic) => {
+          if (titles.has(action.title)) return
+          titles.add(action.title)
+          action.diagnostics = [diagnostic]
+          actions.push(action)
+        }
+
+        for (const diagnostic of actionContext.diagnostics) {
+          if (diagnostic.source !== 'Stringer' || diagnostic.code !== 'missing-key') continue
+          const hit = info.find((i) => i.range.isEqual(diagnostic.range) && i.message === diagnostic.message)
+          if (!hit) continue
+          const baseValue = getValueByPathLoose(baseData, hit.key)
+
+          if (!baseValue) {
+            const add = new vscode.CodeAction(vscode.l10n.t('Add key to base language with value…'), vscode.CodeActionKind.QuickFix)
+            add.command = { command: 'stringer.addMissingKeyToBase', title: add.title, arguments: [document.uri, hit.key] }
+            push(add, diagnostic)
+          } else if (hit.lang !== ctx.baseLanguage) {
+            const copy = new vscode.CodeAction(
+              vscode.l10n.t('Copy base value into {0}', getLocaleFileLabel(ctx.localesDir, hit.lang)),
+              vscode.CodeActionKind.QuickFix
+            )
+            copy.command = {
+              command: 'stringer.copyBaseValueToLocale',
+              title: copy.title,
+              arguments: [document.uri, hit.key, hit.lang]
+            }
+            push(copy, diagnostic)
+          }
+
+          if (!baseValue) {
+            let closest = findClosestKey(hit.key, flattenLocale(baseData).map((e) => e.key))
+            if (closest && hit.scope && removeKeyScope(closest, hit.scope) !== closest) closest = removeKeyScope(closest, hit.scope)
+            else if (closest && namespacedLocaleData.has(baseData)) closest = toNamespacedKeyUsage(closest, document.getText())
+            if (closest) {
+              const replace = new vscode.CodeAction(
+                vscode.l10n.t('Replace with closest existing key: {0}', closest),
+                vscode.CodeActionKind.QuickFix
+              )
+              replace.edit = new vscode.WorkspaceEdit()
+              replace.edit.replace(document.uri, hit.range, closest)
+              replace.isPreferred = true
+              push(replace, diagnostic)
             }
           }
-          
-          // Reset pending alert after user responds or after a delay
-          setTimeout(() => {
-            pendingSyncAlert = false
-          }, 60000) // Don't re-alert for 1 minute
         }
+        return actions
       }
+    },
+    { providedCodeActionKinds: [vscode.CodeActionKind.QuickFix] }
+  )
+  context.subscriptions.push(missingKeyCodeActionProvider)
+
+  // Provide hover in any file type
+  const hoverProvider = vscode.languages.registerHoverProvider({ scheme: 'file' }, {
+    provideHover(document, position) {
+      const filePath = document.uri.fsPath
+      const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri)
+      const workspaceRoot = workspaceFolder?.uri.fsPath
       
-      syncWatcher.onDidChange(checkAndNotifySync)
-      context.subscriptions.push(syncWatcher)
+      // Get per-file context for monorepo support
+      const fileCtx = getProjectContextForFile(filePath, workspaceRoot)
+      
+      const ranges = [...findTTupleRanges(document), ...findKeyAttributeRanges(document)]
+      for (const r of ranges) {
+        if (r.range.contains(position)) {
+          // Use per-file context if available, otherwise fall back to global
+          const value = fileCtx 
+            ? getTranslationForProject(fileCtx, r.key)
+            : getTranslation(r.key)
+          const displayLang = activePreviewLanguage || fileCtx?.baseLanguage || ''
+          const md = new vscode.MarkdownString()
+          md.appendMarkdown(`Key: \`${r.key}\``)
+          if (value) md.appendMarkdown(`\n\nValue (${displayLang}): ${value}`)
+          return new vscode.Hover(md, r.range)
+        }
+      }
+      return undefined
+    }
+  })
+  context.subscriptions.push(hoverProvider)
+
+  // Go to Definition: jump from a key in code to the line that defines it in the locale files.
+  // The base language comes first; every other locale defining the key is offered in the peek list.
+  const definitionProvider = vscode.languages.registerDefinitionProvider({ scheme: 'file' }, {
+    provideDefinition(document, position) {
+      const hit = getKeyAtPosition(document, position)
+      if (!hit) return undefined
+      const ctx = getEffectiveProjectContext(document)
+      if (!ctx) return undefined
+
+      const langs = listLocaleLanguages(ctx.localesDir)
+      const ordered = [ctx.baseLanguage, ...langs.filter((l) => l !== ctx.baseLanguage)]
+      const seen = new Set<string>()
+      const links: vscode.LocationLink[] = []
+      for (const lang of ordered) {
+        const localePath = getLocalePath(ctx.localesDir, lang)
+        if (!localePath || seen.has(normalizePathForComparison(localePath))) continue
+        seen.add(normalizePathForComparison(localePath))
+        let filePath = localePath
+        try {
+          const resolved = resolveKeyPathLoose(readLocaleData(localePath), hit.key)
+          const keyFile = resolved && getLocaleKeyFile(localePath, resolved)
+          if (!keyFile) continue
+          filePath = keyFile.filePath
+          const content = stripBOM(fs.readFileSync(filePath, 'utf-8'))
+          const loc = findLocaleKey(filePath, content, keyFile.pathParts)
+          if (!loc) continue
+          const targetRange = new vscode.Range(
+            offsetToPosition(content, loc.keyStart),
+            offsetToPosition(content, loc.keyEnd)
+          )
+          links.push({
+            originSelectionRange: hit.range,
+            targetUri: vscode.Uri.file(filePath),
+            targetRange,
+            targetSelectionRange: targetRange
+          })
+        } catch (e) {
+          debugLog(`provideDefinition: error reading ${filePath}: ${e}`)
+        }
+      }
+      return links
+    }
+  })
+  context.subscriptions.push(definitionProvider)
+
+  // Key autocompletion inside t('...') and key attributes: suggests one key segment at a time
+  // from the base locale, showing the value in the active preview language
+  const keyCompletionProvider = vscode.languages.registerCompletionItemProvider(
+    ['vue', 'javascript', 'typescript', 'javascriptreact', 'typescriptreact', 'svelte', 'mdx', 'markdown'].map(
+      (language) => ({ scheme: 'file', language })
+    ),
+    {
+      provideCompletionItems(document, position) {
+        const linePrefix = document.lineAt(position.line).text.slice(0, position.character)
+        const scopes = findKeyScopesInText(document.getText(), document.uri.fsPath)
+        const hit = getTypedKeyBeforeCursor(linePrefix, scopes.flatMap(getScopedCalleeNames))
+        if (hit === null) return undefined
+        const ctx = getEffectiveProjectContext(document)
+        if (!ctx) return undefined
+        const baseData = loadLocaleForProject(ctx, ctx.baseLanguage)
+        if (!baseData) return undefined
+
+        // Inside a scoped t function, suggest keys below its namespace / keyPrefix
+        const { typed, callee } = hit
+        const scope = callee ? getKeyScopeAt(scopes, callee, document.offsetAt(position)) : ''
+        const scopePath = scope ? getScopeKeyPath(scope, baseData) : ''
+        const lastDot = typed.lastIndexOf('.')
+        const parentPath = [scopePath, lastDot === -1 ? '' : typed.slice(0, lastDot)].filter(Boolean).join('.')
+        let node: any = baseData
+        for (const part of parentPath.split('.').filter(Boolean)) {
+          node = node && typeof node === 'object' ? node[part] : undefined
+        }
+        if (!node || typeof node !== 'object') return undefined
+
+        // Replace only the segment being typed
+        const segmentStart = position.translate(0, -(typed.length - lastDot - 1))
+        const range = new vscode.Range(segmentStart, position)
+        const items: vscode.CompletionItem[] = []
+        for (const [key, value] of Object.entries(node)) {
+          const fullKey = parentPath ? `${parentPath}.${key}` : key
+          let item: vscode.CompletionItem
+          if (value && typeof value === 'object' && !Array.isArray(value)) {
+            item = new vscode.CompletionItem(key, vscode.CompletionItemKind.Module)
+            item.insertText = `${key}.`
+            item.detail = vscode.l10n.t('{0} keys', Object.keys(value).length)
+            // Immediately suggest the next segment
+            item.command = { command: 'editor.action.triggerSuggest', title: '' }
+          } else {
+            item = new vscode.CompletionItem(key, vscode.CompletionItemKind.Text)
+            const translated = getTranslationForProject(ctx, fullKey) ?? String(value)
+            item.detail = truncateForPreview(translated, 80)
+            const md = new vscode.MarkdownString()
+            md.appendMarkdown(vscode.l10n.t('Key: {0}', `\`${fullKey}\``))
+            md.appendMarkdown('\n\n')
+            md.appendMarkdown(vscode.l10n.t('Value ({0}): {1}', activePreviewLanguage || ctx.baseLanguage, translated))
+            item.documentation = md
+          }
+          item.range = range
+          items.push(item)
+        }
+        return items
+      }
+    },
+    '.', "'", '"', '`'
+  )
+  context.subscriptions.push(keyCompletionProvider)
+
+  // Locale file content, preferring unsaved changes of an open editor
+  function readLocaleTextPreferOpen(filePath: string): string | undefined {
+    const target = normalizePathForComparison(filePath)
+    const doc = vscode.workspace.textDocuments.find(
+      (d) => d.uri.scheme === 'file' && normalizePathForComparison(d.uri.fsPath) === target
+    )
+    return doc ? doc.getText() : readFileIfExists(filePath)
+  }
+
+  // Usages of locale keys for the locale file open in the editor, grouped by full key
+  async function getUsagesForLocaleDocument(document: vscode.TextDocument): Promise<Map<string, vscode.Location[]>> {
+    const info = getLocaleFileInfo(document.uri.fsPath)
+    let data: Record<string, any> = {}
+    try {
+      // A namespace file is resolved together with the other namespaces of its language
+      data = info?.namespace
+        ? readLocaleData(path.dirname(document.uri.fsPath), readLocaleTextPreferOpen)
+        : parseLocaleText(document.uri.fsPath, document.getText())
     } catch {}
+    const index = await getKeyUsageIndex()
+    return groupUsagesByLocaleKey(index, info?.localesDir ?? path.dirname(document.uri.fsPath), data)
+  }
 
-    await preloadLocales()
-    return true
+  function isLocaleDocument(document: vscode.TextDocument): boolean {
+    return document.uri.scheme === 'file' && !!getLocaleFileInfo(document.uri.fsPath)
   }
 
-  async function promptOpenWorkspaceFolder(): Promise<void> {
-    const pick = await vscode.window.showOpenDialog({
-      canSelectFiles: false,
-      canSelectFolders: true,
-      canSelectMany: false,
-      title: vscode.l10n.t('Open a folder to use Stringer Helper')
-    })
-    if (pick && pick[0]) {
-      await vscode.commands.executeCommand('vscode.openFolder', pick[0], false)
+  // Full key of a key found in a locale file, including the namespace of a namespace file
+  function getLocaleDocumentKey(document: vscode.TextDocument, loc: LocaleKeyLocation): string {
+    const namespace = getLocaleFileInfo(document.uri.fsPath)?.namespace
+    return (namespace ? [namespace, ...loc.pathParts] : loc.pathParts).join('.')
+  }
+
+  // Find All References: from a key in a locale file to every usage in source files
+  const localeReferenceProvider = vscode.languages.registerReferenceProvider({ scheme: 'file', pattern: `**/${LOCALE_FILE_GLOB}` }, {
+    async provideReferences(document, position, refContext) {
+      if (!isLocaleDocument(document)) return undefined
+      const loc = getLocaleKeyAtOffset(document.uri.fsPath, document.getText(), document.offsetAt(position))
+      if (!loc) return undefined
+      const grouped = await getUsagesForLocaleDocument(document)
+      const fullKey = getLocaleDocumentKey(document, loc)
+      const results: vscode.Location[] = [...(grouped.get(fullKey) || [])]
+      if (loc.isContainer) {
+        // A namespace key references everything below it
+        for (const [key, locations] of grouped) {
+          if (key.startsWith(fullKey + '.')) results.push(...locations)
+        }
+      }
+      if (refContext.includeDeclaration) {
+        const declRange = new vscode.Range(document.positionAt(loc.keyStart), document.positionAt(loc.keyEnd))
+        results.unshift(new vscode.Location(document.uri, declRange))
+      }
+      return results
+    }
+  })
+  context.subscriptions.push(localeReferenceProvider)
+
+  // "N usages" CodeLens above every leaf key of a locale file
+  const localeUsageCodeLensProvider = vscode.languages.registerCodeLensProvider({ scheme: 'file', pattern: `**/${LOCALE_FILE_GLOB}` }, {
+    onDidChangeCodeLenses: keyUsageIndexChanged.event,
+    async provideCodeLenses(document) {
+      const cfg = vscode.workspace.getConfiguration('stringerHelper')
+      if (!cfg.get<boolean>('showKeyUsageCodeLens', true) || !isLocaleDocument(document)) return []
+      const grouped = await getUsagesForLocaleDocument(document)
+      const lenses: vscode.CodeLens[] = []
+      scanLocaleKeys(document.uri.fsPath, document.getText(), (loc) => {
+        if (loc.isContainer) return
+        const range = new vscode.Range(document.positionAt(loc.keyStart), document.positionAt(loc.keyEnd))
+        const locations = grouped.get(getLocaleDocumentKey(document, loc)) || []
+        const title = locations.length === 1 ? vscode.l10n.t('1 usage') : vscode.l10n.t('{0} usages', locations.length)
+        lenses.push(
+          new vscode.CodeLens(range, {
+            title,
+            command: locations.length > 0 ? 'editor.action.showReferences' : '',
+            arguments: locations.length > 0 ? [document.uri, range.start, locations] : undefined
+          })
+        )
+      })
+      return lenses
     }
+  })
+  context.subscriptions.push(localeUsageCodeLensProvider)
+
+  // ---------- Rename i18n keys across locale files and source ----------
+  interface RenameTarget {
+    key: string
+    range: vscode.Range // key text (without quotes)
+    ctx: PerProjectContext
   }
 
-  function getValueByPath(obj: any, keyPath: string): any {
-    if (!obj) return undefined
-    const parts = keyPath.split('.').filter(Boolean)
-    let node = obj
-    for (const part of parts) {
-      if (node && typeof node === 'object' && part in node) node = node[part]
-      else return undefined
+  function resolveRenameTarget(document: vscode.TextDocument, position: vscode.Position): RenameTarget | null {
+    if (isLocaleDocument(document)) {
+      const loc = getLocaleKeyAtOffset(document.uri.fsPath, document.getText(), document.offsetAt(position))
+      const info = getLocaleFileInfo(document.uri.fsPath)
+      const ctx = info && getOrCreateProjectContext(info.localesDir)
+      if (!loc || !ctx) return null
+      // Quoted keys (always in JSON, optional in YAML) exclude the quotes
+      const quoted = /["']/.test(document.getText().charAt(loc.keyStart)) ? 1 : 0
+      const range = new vscode.Range(document.positionAt(loc.keyStart + quoted), document.positionAt(loc.keyEnd - quoted))
+      return { key: getLocaleDocumentKey(document, loc), range, ctx }
     }
-    return typeof node === 'string' ? node : undefined
+    const hit = getKeyAtPosition(document, position)
+    const ctx = getEffectiveProjectContext(document)
+    if (!hit || !ctx) return null
+    // Rename the key as written when it exists (leaf or namespace), otherwise what it resolves to
+    const baseData = loadLocaleForProject(ctx, ctx.baseLanguage) || {}
+    if (getDeepValue(baseData, splitLocaleKeyPath(baseData, hit.key)) !== undefined) return { key: hit.key, range: hit.range, ctx }
+    const resolved = resolveKeyPathLoose(baseData, hit.key)
+    return { key: resolved ? resolved.join('.') : hit.key, range: hit.range, ctx }
   }
-  // Support numeric-leaf patterns where the key may be the leaf id (e.g., 4-digit code)
-  function getValueByPathLoose(obj: any, keyPath: string): any {
-    if (!obj) return undefined
-    const parts = keyPath.split('.').filter(Boolean)
-    let node = obj
-    for (let i = 0; i < parts.length; i++) {
-      const part = parts[i]
-      if (node && typeof node === 'object' && part in node) {
-        node = node[part]
-        continue
+
+  /**
+   * Build one WorkspaceEdit that moves a key (or namespace) in every locale file of the project
+   * and rewrites every matching usage in source files
+   */
+  async function buildRenameKeyEdit(ctx: PerProjectContext, oldKey: string, newKey: string): Promise<vscode.WorkspaceEdit> {
+    if (newKey.split('.').some((p) => !p) || /[\s'"`]/.test(newKey)) {
+      throw new Error(vscode.l10n.t('"{0}" is not a valid i18n key.', newKey))
+    }
+
+    const edit = new vscode.WorkspaceEdit()
+    let baseData: Record<string, any> = {}
+    let renamed = false
+    for (const lang of listLocaleLanguages(ctx.localesDir)) {
+      const localePath = getLocalePath(ctx.localesDir, lang) || getNewLocalePath(ctx.localesDir, lang)
+      let data: Record<string, any>
+      try {
+        data = readLocaleData(localePath, readLocaleTextPreferOpen)
+      } catch {
+        throw new Error(
+          vscode.l10n.t('{0} could not be parsed. Please fix it and try again.', getLocaleFileLabel(ctx.localesDir, lang))
+        )
       }
-      // If this is the last part and the parent is an object with a single 4-digit key, return that
-      // BUT: only do this fallback if the requested key is NOT itself a 4-digit number
-      // (if user explicitly requests a specific 4-digit key that doesn't exist, return undefined)
-      const isLast = i === parts.length - 1
-      const isRequestingSpecific4Digit = /^\d{4}$/.test(part)
-      if (isLast && node && typeof node === 'object' && !isRequestingSpecific4Digit) {
-        const leafKeys = Object.keys(node)
-        const four = leafKeys.find((k) => /^\d{4}$/.test(k) && typeof node[k] === 'string')
-        if (four) return node[four]
+      if (lang === ctx.baseLanguage) {
+        baseData = cloneLocaleData(data)
+      }
+      const result = moveDeepValue(data, splitLocaleKeyPath(data, oldKey), splitLocaleKeyPath(data, newKey))
+      if (result === 'conflict') {
+        throw new Error(vscode.l10n.t('Key "{0}" already exists in {1}.', newKey, getLocaleFileLabel(ctx.localesDir, lang)))
+      }
+      if (result === 'moved') {
+        // Moving a key into a new namespace creates its file
+        await addLocaleWritesToEdit(edit, getLocaleWrites(localePath, data, readLocaleTextPreferOpen))
+        renamed = true
       }
-      return undefined
     }
-    return typeof node === 'string' ? node : undefined
-  }
+    if (!renamed) {
+      throw new Error(vscode.l10n.t('Key "{0}" was not found in any locale file.', oldKey))
+    }
 
-  async function loadLocale(lang: string): Promise<Record<string, any> | null> {
-    if (!projectContext) return null
-    if (localeCache[lang]) return localeCache[lang]
-    const tryPaths = (() => {
-      const variants = new Set<string>()
-      const L = (lang || '').trim()
-      const low = L.toLowerCase()
-      const dash = low.replace(/_/g, '-')
-      variants.add(L)
-      variants.add(low)
-      variants.add(dash)
-      if (dash.includes('-')) variants.add(dash.split('-')[0])
-      return Array.from(variants).map((v) => path.join(projectContext!.localesDir, `${v}.json`))
-    })()
-    try {
-      for (const fp of tryPaths) {
-        try {
-          const txt = await fs.promises.readFile(fp, 'utf-8')
-          // Strip BOM for Windows compatibility
-          const json = JSON.parse(stripBOM(txt))
-          localeCache[lang] = json
-          return json
-        } catch {}
-      }
-      return null
-    } catch {
+    const rewrite = (key: string): string | null => {
+      if (key === oldKey || key.startsWith(oldKey + '.')) return newKey + key.slice(oldKey.length)
       return null
     }
+    const index = await getKeyUsageIndex()
+    for (const usage of getUsagesForLocalesDir(index, ctx.localesDir)) {
+      let fullKey = usage.key.replace(/^([^.:]+):/, '$1.')
+      let replacement = rewrite(fullKey)
+      if (replacement === null) {
+        const resolved = resolveKeyPathLoose(baseData, usage.key)
+        if (resolved) {
+          fullKey = resolved.join('.')
+          replacement = rewrite(fullKey)
+        }
+      }
+      if (replacement !== null) {
+        const written = formatRenamedKeyUsage(usage.key, fullKey, replacement)
+        edit.replace(usage.location.uri, usage.location.range, removeKeyScope(written, usage.scope))
+      }
+    }
+    return edit
   }
 
-  async function preloadLocales(): Promise<void> {
-    if (!projectContext) return
-    await loadLocale(projectContext.baseLanguage)
-    if (activePreviewLanguage && activePreviewLanguage !== projectContext.baseLanguage) {
-      await loadLocale(activePreviewLanguage)
+  const keyRenameProvider = vscode.languages.registerRenameProvider({ scheme: 'file' }, {
+    prepareRename(document, position) {
+      const target = resolveRenameTarget(document, position)
+      if (!target) return undefined
+      return { range: target.range, placeholder: target.key }
+    },
+    async provideRenameEdits(document, position, newName) {
+      const target = resolveRenameTarget(document, position)
+      if (!target || newName === target.key) return undefined
+      if (!(await waitForStringerCli())) return undefined
+      const edit = await buildRenameKeyEdit(target.ctx, target.key, newName)
+      renamedLocaleUris.clear()
+      for (const [uri] of edit.entries()) {
+        if (getLocaleFileInfo(uri.fsPath)) renamedLocaleUris.add(uri.toString())
+      }
+      return edit
     }
-  }
+  })
+  context.subscriptions.push(keyRenameProvider)
+
+  // VS Code applies an F2 rename after provideRenameEdits returns. Like stringer.renameKey, save the locale files
+  // it changed and reload, so previews, diagnostics and the CLI see the new keys. Locale files changed while no
+  // editor shows them (undoing a rename) are saved the same way.
+  const renamedLocaleUris = new Set<string>()
+  const changedLocaleDocuments = new Set<vscode.TextDocument>()
+  let localeSaveTimer: NodeJS.Timeout | undefined
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeTextDocument((e) => {
+      if (e.contentChanges.length === 0 || !isLocaleDocument(e.document)) return
+      const id = e.document.uri.toString()
+      const visible = vscode.window.visibleTextEditors.some((editor) => editor.document === e.document)
+      if (visible && !renamedLocaleUris.has(id)) return
+      renamedLocaleUris.delete(id)
+      changedLocaleDocuments.add(e.document)
+      if (localeSaveTimer) clearTimeout(localeSaveTimer)
+      localeSaveTimer = setTimeout(async () => {
+        localeSaveTimer = undefined
+        const documents = [...changedLocaleDocuments]
+        changedLocaleDocuments.clear()
+        renamedLocaleUris.clear()
+        for (const doc of documents) {
+          if (doc.isDirty) await doc.save()
+        }
+        await reloadLocalesAndRefresh()
+      }, 300)
+    })
+  )
 
-  function getTranslation(keyPath: string): string | null {
-    if (!projectContext) return null
-    const lang = activePreviewLanguage || projectContext.baseLanguage
-    // Try direct match
-    const primary = getValueByPath(localeCache[lang], keyPath)
-    if (primary) return primary
-    // Try loose match (handles numeric leaf keys)
-    const loose = getValueByPathLoose(localeCache[lang], keyPath)
-    if (loose) return loose
-    // Fallback to base language
-    const fallbackBase = getValueByPath(localeCache[projectContext.baseLanguage], keyPath)
-    if (fallbackBase) return fallbackBase
-    const fallbackLoose = getValueByPathLoose(localeCache[projectContext.baseLanguage], keyPath)
-    if (fallbackLoose) return fallbackLoose
-    // Last-resort: try any loaded locale (helps if baseLanguage file is missing)
-    for (const k of Object.keys(localeCache)) {
-      const v = getValueByPath(localeCache[k], keyPath) || getValueByPathLoose(localeCache[k], keyPath)
-      if (typeof v === 'string') return v
+  const renameKeyCmd = vscode.commands.registerCommand('stringer.renameKey', async () => {
+    const editor = vscode.window.activeTextEditor
+    const target = editor ? resolveRenameTarget(editor.document, editor.selection.active) : null
+    const ctx = target?.ctx ?? (editor ? getEffectiveProjectContext(editor.document) : null)
+    if (!ctx) {
+      vscode.window.showErrorMessage(vscode.l10n.t('No locales folder found for this file.'))
+      return
+    }
+    const title = vscode.l10n.t('Stringer: Rename i18n Key')
+    const oldKey =
+      target?.key ??
+      (await vscode.window.showInputBox({ title, prompt: vscode.l10n.t('Key or namespace to rename') }))
+    if (!oldKey) return
+    const newKey = await vscode.window.showInputBox({
+      title,
+      prompt: vscode.l10n.t('New name for {0}', oldKey),
+      value: oldKey,
+      valueSelection: [oldKey.lastIndexOf('.') + 1, oldKey.length]
+    })
+    if (!newKey || newKey === oldKey) return
+    if (!(await waitForStringerCli())) return
+    try {
+      const edit = await buildRenameKeyEdit(ctx, oldKey, newKey)
+      if (!(await vscode.workspace.applyEdit(edit))) return
+      // Save locale files so previews and the CLI see the renamed keys
+      for (const [uri] of edit.entries()) {
+        if (!getLocaleFileInfo(uri.fsPath)) continue
+        const doc = vscode.workspace.textDocuments.find((d) => d.uri.toString() === uri.toString())
+        if (doc) await doc.save()
+      }
+      await reloadLocalesAndRefresh()
+    } catch (e) {
+      vscode.window.showErrorMessage(e instanceof Error ? e.message : String(e))
     }
-    return null
-  }
+  })
+  context.subscriptions.push(renameKeyCmd)
 
-  function findTTupleRanges(doc: vscode.TextDocument): Array<{ range: vscode.Range; key: string }> {
-    const text = doc.getText()
-    const results: Array<{ range: vscode.Range; key: string }> = []
-  // Best-effort regex for t('...') calls; support optional second arg like t('key', {...})
-  const rx = /\bt\(\s*(['"`])([^'"`]+?)\1(?:\s*,[^)]*)?\s*\)/g
-    for (let m: RegExpExecArray | null = rx.exec(text); m; m = rx.exec(text)) {
-      const key = m[2]
-      const start = m.index
-      const end = m.index + m[0].length
-      const range = new vscode.Range(doc.positionAt(start), doc.positionAt(end))
-      results.push({ range, key })
+  // ---------- Unused key detection and cleanup ----------
+  function getContextForActiveEditor(): PerProjectContext | null {
+    const editor = vscode.window.activeTextEditor
+    if (editor) {
+      const info = isLocaleDocument(editor.document) ? getLocaleFileInfo(editor.document.uri.fsPath) : null
+      if (info) {
+        const localeCtx = getOrCreateProjectContext(info.localesDir)
+        if (localeCtx) return localeCtx
+      }
+      const ctx = getEffectiveProjectContext(editor.document)
+      if (ctx) return ctx
     }
-    return results
+    return projectContext ? getOrCreateProjectContext(projectContext.localesDir) : null
   }
 
-  // Detect <i18n-t keypath="..."> usages inside Vue templates
-  function findI18nKeypathRanges(
-    doc: vscode.TextDocument
-  ): Array<{ range: vscode.Range; key: string; isAttribute?: boolean }> {
-    const text = doc.getText()
-    const results: Array<{ range: vscode.Range; key: string; isAttribute?: boolean }> = []
-    const rx = /<i18n-t[^>]*\bkeypath\s*=\s*(['"])([^'"\n]+?)\1/gi
-    for (let m: RegExpExecArray | null = rx.exec(text); m; m = rx.exec(text)) {
-      const key = m[2]
-      const full = m[0]
-      const rel = full.indexOf(key)
-      const start = m.index + (rel >= 0 ? rel : 0)
-      const end = start + key.length
-      const range = new vscode.Range(doc.positionAt(start), doc.positionAt(end))
-      results.push({ range, key, isAttribute: true })
+  const findUnusedKeysCmd = vscode.commands.registerCommand('stringer.findUnusedKeys', async () => {
+    let ctx = getContextForActiveEditor()
+    if (!ctx && (await ensureProjectContext(vscode.window.activeTextEditor)) && projectContext) {
+      ctx = getOrCreateProjectContext(projectContext.localesDir)
+    }
+    if (!ctx) {
+      vscode.window.showErrorMessage(vscode.l10n.t('No locales folder found for this file.'))
+      return
+    }
+    const localesDir = ctx.localesDir
+    const baseLanguage = ctx.baseLanguage
+    const basePath = getLocalePath(localesDir, baseLanguage)
+    let baseData: Record<string, any>
+    try {
+      baseData = readLocaleData(basePath || '')
+    } catch {
+      vscode.window.showErrorMessage(
+        vscode.l10n.t('Base language file could not be parsed. Please fix it and try again. No changes were made.')
+      )
+      return
     }
-    return results
-  }
 
-  function getTTupleAtPosition(doc: vscode.TextDocument, position: vscode.Position): { range: vscode.Range; key: string } | null {
-    const ranges = findTTupleRanges(doc)
-    for (const r of ranges) {
-      if (r.range.contains(position)) return r
+    const unused = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: vscode.l10n.t('Stringer: Scanning for unused keys…') },
+      async () => {
+        const entries = getIndexEntriesForLocalesDir(await getKeyUsageIndex(), localesDir)
+        return findUnusedLeafKeys(
+          baseData,
+          entries.flatMap((entry) => entry.usages),
+          entries.flatMap((entry) => entry.dynamicPrefixes)
+        )
+      }
+    )
+    if (unused.length === 0) {
+      vscode.window.showInformationMessage(vscode.l10n.t('No unused keys found in {0}.', getLocaleFileLabel(localesDir, baseLanguage)))
+      return
     }
-    return null
-  }
 
-  // Fallback: find first t('...') or <i18n-t keypath="..."> occurring on the given line
-  function getTTupleOnLine(doc: vscode.TextDocument, line: number): { range: vscode.Range; key: string } | null {
-    const tuples = findTTupleRanges(doc)
-    for (const t of tuples) {
-      if (t.range.start.line <= line && line <= t.range.end.line) return t
+    const picks = await vscode.window.showQuickPick(
+      unused.map(({ key, value }) => ({ label: key, description: truncateForPreview(value, 80), picked: true })),
+      {
+        canPickMany: true,
+        title: vscode.l10n.t('Stringer: Unused Keys ({0})', unused.length),
+        placeHolder: vscode.l10n.t('Select the keys to delete from every locale file')
+      }
+    )
+    if (!picks || picks.length === 0) return
+
+    const languages = listLocaleLanguages(localesDir)
+    const deleteLabel = vscode.l10n.t('Delete')
+    const confirm = await vscode.window.showWarningMessage(
+      vscode.l10n.t('Delete {0} keys from {1} locale files?', picks.length, languages.length),
+      { modal: true },
+      deleteLabel
+    )
+    if (confirm !== deleteLabel) return
+    if (!(await waitForStringerCli())) return
+
+    const failed: string[] = []
+    const deletedKeys = new Set<string>()
+    let updatedFiles = 0
+    for (const lang of languages) {
+      const localePath = getLocalePath(localesDir, lang) || getNewLocalePath(localesDir, lang)
+      try {
+        const data = readLocaleData(localePath)
+        const deleted = picks.filter((pick) => deleteDeepValue(data, splitLocaleKeyPath(data, pick.label)))
+        if (deleted.length === 0) continue
+        writeLocaleData(localePath, data)
+        updatedFiles++
+        for (const pick of deleted) deletedKeys.add(pick.label)
+      } catch {
+        failed.push(getLocaleFileLabel(localesDir, lang))
+      }
     }
-    const attrs = findI18nKeypathRanges(doc)
-    for (const a of attrs) {
-      if (a.range.start.line <= line && line <= a.range.end.line) return { range: a.range, key: a.key }
+    await reloadLocalesAndRefresh()
+    if (failed.length > 0) {
+      vscode.window.showErrorMessage(vscode.l10n.t('Could not update {0}: the file could not be parsed.', failed.join(', ')))
+      return
     }
-    return null
-  }
+    vscode.window.showInformationMessage(
+      vscode.l10n.t('Deleted {0} unused keys from {1} locale files.', deletedKeys.size, updatedFiles)
+    )
+  })
+  context.subscriptions.push(findUnusedKeysCmd)
 
-  function escapeHtmlAttr(value: string): string {
-    return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;')
-  }
+  const exportForTranslationCmd = vscode.commands.registerCommand('stringer.exportForTranslation', async () => {
+    let ctx = getContextForActiveEditor()
+    if (!ctx && (await ensureProjectContext(vscode.window.activeTextEditor)) && projectContext) {
+      ctx = getOrCreateProjectContext(projectContext.localesDir)
+    }
+    if (!ctx) {
+      vscode.window.showErrorMessage(vscode.l10n.t('No locales folder found for this file.'))
+      return
+    }
+    const localesDir = ctx.localesDir
+    const baseLanguage = ctx.baseLanguage
+    const basePath = getLocalePath(localesDir, baseLanguage)
+    let baseData: Record<string, any>
+    try {
+      baseData = readLocaleData(basePath || '')
+    } catch {
+      vscode.window.showErrorMessage(
+        vscode.l10n.t('Base language file could not be parsed. Please fix it and try again. No changes were made.')
+      )
+      return
+    }
+    const targetLanguages = listLocaleLanguages(localesDir).filter((lang) => lang !== baseLanguage)
+    if (targetLanguages.length === 0) {
+      vscode.window.showInformationMessage(vscode.l10n.t('There are no target languages next to {0} yet.', getLocaleFileLabel(localesDir, baseLanguage)))
+      return
+    }
 
-  function escapeJsString(value: string, quote: '"' | "'" = '"'): string {
-    const q = quote === '"' ? '"' : "'"
-    return value
-      .replace(/\\/g, '\\\\')
-      .replace(/\n/g, '\\n')
-      .replace(/\r/g, '\\r')
-      .replace(new RegExp(q.replace(/[-/\\^$*+?.()|[\]{}]/g, '\\$&'), 'g'), `\\${q}`)
-  }
+    const targetData: Record<string, Record<string, any> | null> = {}
+    for (const lang of targetLanguages) {
+      try {
+        targetData[lang] = readLocaleData(getLocalePath(localesDir, lang) || '')
+      } catch {
+        targetData[lang] = null
+      }
+    }
+    const rows = buildTranslationRows(baseData, targetData)
+    const langPicks = await vscode.window.showQuickPick(
+      targetLanguages.map((lang) => ({
+        label: lang,
+        description: vscode.l10n.t('{0} missing', rows.filter((row) => row.targets[lang] === null).length),
+        picked: true
+      })),
+      { canPickMany: true, title: vscode.l10n.t('Stringer: Export for Translation'), placeHolder: vscode.l10n.t('Select the languages to export') }
+    )
+    if (!langPicks || langPicks.length === 0) return
+    const languages = langPicks.map((p) => p.label)
 
-  function findEnclosingMustache(source: string, offset: number): { start: number; end: number } | null {
-    const openIdx = source.lastIndexOf('{{', offset)
-    if (openIdx === -1) return null
-    const closeIdx = source.indexOf('}}', openIdx + 2)
-    if (closeIdx === -1) return null
-    if (offset < openIdx || offset > closeIdx) return null
-    return { start: openIdx, end: closeIdx + 2 }
-  }
+    const format = await vscode.window.showQuickPick(
+      [
+        { id: 'csv', label: 'CSV', description: vscode.l10n.t('One spreadsheet for all selected languages') },
+        { id: '1.2', label: 'XLIFF 1.2', description: vscode.l10n.t('One file per language') },
+        { id: '2.0', label: 'XLIFF 2.0', description: vscode.l10n.t('One file per language') }
+      ],
+      { title: vscode.l10n.t('Stringer: Export for Translation'), placeHolder: vscode.l10n.t('Choose a file format') }
+    )
+    if (!format) return
+
+    const exportDir = path.dirname(localesDir)
+    const original = path.basename(basePath || getNewLocalePath(localesDir, baseLanguage))
+    const outputs: Array<{ filePath: string; text: string }> = []
+    if (format.id === 'csv') {
+      const target = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.file(path.join(exportDir, `translations-${baseLanguage}.csv`)),
+        filters: { CSV: ['csv'] }
+      })
+      if (!target) return
+      outputs.push({ filePath: target.fsPath, text: buildTranslationCsv(rows, baseLanguage, languages) })
+    } else {
+      const version = format.id as '1.2' | '2.0'
+      if (languages.length === 1) {
+        const target = await vscode.window.showSaveDialog({
+          defaultUri: vscode.Uri.file(path.join(exportDir, `${baseLanguage}-${languages[0]}.xlf`)),
+          filters: { XLIFF: ['xlf', 'xliff'] }
+        })
+        if (!target) return
+        outputs.push({ filePath: target.fsPath, text: buildTranslationXliff(rows, baseLanguage, languages[0], original, version) })
+      } else {
+        const pick = await vscode.window.showOpenDialog({
+          canSelectFolders: true,
+          canSelectFiles: false,
+          canSelectMany: false,
+          title: vscode.l10n.t('Select a folder for the XLIFF files'),
+          defaultUri: vscode.Uri.file(exportDir)
+        })
+        if (!pick || pick.length === 0) return
+        for (const lang of languages) {
+          outputs.push({
+            filePath: path.join(pick[0].fsPath, `${baseLanguage}-${lang}.xlf`),
+            text: buildTranslationXliff(rows, baseLanguage, lang, original, version)
+          })
+        }
+      }
+    }
 
-  function decorateEditor(editor: vscode.TextEditor) {
-    const cfg = vscode.workspace.getConfiguration('stringerHelper')
-    const enable = cfg.get<boolean>('enableInlinePreview', true)
-    const keyMode = (cfg.get<string>('inlinePreviewKeyMode') || 'hidden') as 'hidden' | 'full' | 'leaf'
-    const hoverShowsKey = cfg.get<boolean>('hoverShowsKey', true)
-    const previewBg = (cfg.get<string>('previewBackgroundColor') || 'hsl(270, 55%, 43%)') as any
-    if (!enable) {
-      // Ensure all decoration layers are cleared when preview is disabled
-      editor.setDecorations(decorationType, [])
-      editor.setDecorations(hiddenTextDecorationType, [])
-      editor.setDecorations(valueBeforeDecorationType, [])
+    try {
+      for (const output of outputs) fs.writeFileSync(output.filePath, output.text, 'utf8')
+    } catch (err: any) {
+      vscode.window.showErrorMessage(vscode.l10n.t('Could not write {0}: {1}', outputs[0].filePath, err?.message || String(err)))
       return
     }
-    const found = [
-      ...findTTupleRanges(editor.document),
-      ...findI18nKeypathRanges(editor.document)
-    ]
-    const decorations: vscode.DecorationOptions[] = []
-    const hiddenRanges: vscode.DecorationOptions[] = []
-    const hiddenModeValueDecorations: vscode.DecorationOptions[] = []
-    const docText = editor.document.getText()
-    const filePath = editor.document.uri.fsPath
-    const isVue = isVueFile(filePath)
-    const isJsx = isJsxFile(filePath)
-    
-    // Get workspace folder for this file
-    const workspaceFolder = vscode.workspace.getWorkspaceFolder(editor.document.uri)
-    const workspaceRoot = workspaceFolder?.uri.fsPath
-    
-    debugLog(`decorateEditor: file=${filePath}`)
-    debugLog(`decorateEditor: workspaceRoot=${workspaceRoot}`)
-    debugLog(`decorateEditor: projectContext=${projectContext ? `localesDir=${projectContext.localesDir}, baseLanguage=${projectContext.baseLanguage}` : 'null'}`)
-    
-    // Try to get per-file project context (monorepo support)
-    const fileCtx = getProjectContextForFile(filePath, workspaceRoot)
-    debugLog(`decorateEditor: fileCtx=${fileCtx ? `localesDir=${fileCtx.localesDir}, baseLanguage=${fileCtx.baseLanguage}` : 'null'}`)
-    
-    // Only fall back to global projectContext if:
-    // 1. Per-file detection failed, AND
-    // 2. The file is in the same workspace as the global context
-    // This prevents showing wrong translations in multi-root workspaces
-    let effectiveCtx = fileCtx
-    if (!effectiveCtx && projectContext) {
-      const globalRoot = projectContext.projectRoot
-      // Normalize paths for cross-platform comparison (Windows case-insensitive)
-      const normalizedWorkspaceRoot = workspaceRoot ? normalizePathForComparison(workspaceRoot) : undefined
-      const normalizedGlobalRoot = normalizePathForComparison(globalRoot)
-      const normalizedFilePath = normalizePathForComparison(filePath)
-      
-      // Ensure paths don't have trailing separators for consistent comparison
-      const trimSep = (p: string) => p.replace(/[/\\]+$/, '')
-      const trimmedGlobalRoot = trimSep(normalizedGlobalRoot)
-      const trimmedFilePath = trimSep(normalizedFilePath)
-      const trimmedWorkspaceRoot = normalizedWorkspaceRoot ? trimSep(normalizedWorkspaceRoot) : undefined
-      
-      // Check if file is in the same project:
-      // 1. Workspace roots match exactly, OR
-      // 2. File path starts with the project root + separator (file is inside project)
-      // 3. File path equals project root (edge case)
-      const isInSameProject = 
-        (trimmedWorkspaceRoot && trimmedWorkspaceRoot === trimmedGlobalRoot) || 
-        (trimmedGlobalRoot && (
-          trimmedFilePath === trimmedGlobalRoot ||
-          trimmedFilePath.startsWith(trimmedGlobalRoot + path.sep) ||
-          trimmedFilePath.startsWith(trimmedGlobalRoot + '/')  // Handle mixed separators
-        ))
-      debugLog(`decorateEditor: isInSameProject check: trimmedWorkspaceRoot=${trimmedWorkspaceRoot}, trimmedGlobalRoot=${trimmedGlobalRoot}, trimmedFilePath=${trimmedFilePath}`)
-      if (isInSameProject) {
-        debugLog(`decorateEditor: using global projectContext as effectiveCtx`)
-        effectiveCtx = {
-          localesDir: projectContext.localesDir,
-          baseLanguage: projectContext.baseLanguage,
-          localeData: localeCache,
-          availableLanguages: []
-        }
+    const openLabel = vscode.l10n.t('Open')
+    const choice = await vscode.window.showInformationMessage(
+      vscode.l10n.t('Exported {0} keys for {1}.', rows.length, languages.join(', ')),
+      openLabel
+    )
+    if (choice === openLabel) {
+      await vscode.window.showTextDocument(vscode.Uri.file(outputs[0].filePath))
+    }
+  })
+  context.subscriptions.push(exportForTranslationCmd)
+
+  const importTranslationsCmd = vscode.commands.registerCommand('stringer.importTranslations', async () => {
+    let ctx = getContextForActiveEditor()
+    if (!ctx && (await ensureProjectContext(vscode.window.activeTextEditor)) && projectContext) {
+      ctx = getOrCreateProjectContext(projectContext.localesDir)
+    }
+    if (!ctx) {
+      vscode.window.showErrorMessage(vscode.l10n.t('No locales folder found for this file.'))
+      return
+    }
+    const localesDir = ctx.localesDir
+    const baseLanguage = ctx.baseLanguage
+    const pick = await vscode.window.showOpenDialog({
+      canSelectFiles: true,
+      canSelectFolders: false,
+      canSelectMany: false,
+      title: vscode.l10n.t('Select the translated CSV or XLIFF file'),
+      defaultUri: vscode.Uri.file(path.dirname(localesDir)),
+      filters: { [vscode.l10n.t('Translations')]: ['csv', 'xlf', 'xliff', 'xml'] }
+    })
+    if (!pick || pick.length === 0) return
+    const sourceFile = pick[0].fsPath
+
+    let baseData: Record<string, any>
+    try {
+      baseData = readLocaleData(getLocalePath(localesDir, baseLanguage) || '')
+    } catch {
+      vscode.window.showErrorMessage(
+        vscode.l10n.t('Base language file could not be parsed. Please fix it and try again. No changes were made.')
+      )
+      return
+    }
+    const projectLanguages = listLocaleLanguages(localesDir)
+    let imported: ImportedTranslation[]
+    let ignoredColumns: string[] = []
+    try {
+      const text = fs.readFileSync(sourceFile, 'utf8')
+      if (/\.csv$/i.test(sourceFile)) {
+        const csv = parseTranslationCsv(text, baseLanguage, projectLanguages)
+        imported = csv.translations
+        ignoredColumns = csv.ignoredColumns
       } else {
-        debugLog(`decorateEditor: file not in same project, effectiveCtx remains ${effectiveCtx ? 'set' : 'null'}`)
+        imported = parseTranslationXliff(text)
       }
+    } catch (err: any) {
+      vscode.window.showErrorMessage(vscode.l10n.t('Could not read {0}: {1}', path.basename(sourceFile), err?.message || String(err)))
+      return
     }
-    
-    debugLog(`decorateEditor: effectiveCtx=${effectiveCtx ? `localesDir=${effectiveCtx.localesDir}` : 'null'}, found ${found.length} t() calls`)
-    
-    for (const item of found) {
-      // Use per-file context for translation lookup
-      const value = effectiveCtx 
-        ? getTranslationForProject(effectiveCtx, item.key)
-        : getTranslation(item.key)
-      debugLog(`decorateEditor: key=${item.key}, value=${value ?? 'NOT FOUND'}`)
-      const textToShow = value ?? ''
-      const startOffset = editor.document.offsetAt(item.range.start)
-      const inVueTemplate = isVue && isVueTemplateTextNode(docText, startOffset)
-      const inJsxUi = isJsx && isLikelyJsxUiContext(docText, startOffset)
-      const inVueAttr = isVue && !!getAttributeContext(docText, startOffset)
-      const inJsxAttr = isJsx && !!getJsxAttributeContext(docText, startOffset)
-      const inVueScript = isVue && isInsideVueScript(docText, startOffset)
-      // Generic script contexts: non-Vue non-JSX files, or JSX outside UI/attr
-      const inGenericScript = (!isVue && !isJsx) || (isJsx && !inJsxUi && !inJsxAttr)
-      // Missing is determined against the ACTIVE locale file only (no fallback),
-      // so removing a key from the active file turns it red immediately.
-      const lang = (activePreviewLanguage || effectiveCtx?.baseLanguage || projectContext?.baseLanguage) as string
-      // Ensure locale is loaded before checking activeDirect
-      let activeDirect: any = undefined
-      if (effectiveCtx) {
-        // Determine the effective "active" language for THIS project.
-        // If global activePreviewLanguage isn't available for this project (common for orphan files),
-        // use the project's base language for missing checks.
-        const missingLang =
-          activePreviewLanguage && effectiveCtx.availableLanguages.includes(activePreviewLanguage)
-            ? activePreviewLanguage
-            : effectiveCtx.baseLanguage
 
-        // Explicitly load the locale file(s) if not already loaded
-        loadLocaleForProject(effectiveCtx, missingLang)
-        if (missingLang !== effectiveCtx.baseLanguage) {
-          loadLocaleForProject(effectiveCtx, effectiveCtx.baseLanguage)
-        }
+    // Match the file's language codes to the project's (fr-FR → fr_FR); unknown ones become new locale files
+    const norm = (lang: string) => lang.toLowerCase().replace(/_/g, '-')
+    imported = imported
+      .map((item) => ({ ...item, lang: projectLanguages.find((lang) => norm(lang) === norm(item.lang)) || item.lang }))
+      .filter((item) => item.lang !== baseLanguage)
+    if (imported.length === 0) {
+      vscode.window.showInformationMessage(
+        ignoredColumns.length > 0
+          ? vscode.l10n.t('{0} contains no translations to import. Columns that are not languages were ignored: {1}', path.basename(sourceFile), ignoredColumns.join(', '))
+          : vscode.l10n.t('{0} contains no translations to import.', path.basename(sourceFile))
+      )
+      return
+    }
 
-        const missingLangData = effectiveCtx.localeData[missingLang]
-        if (missingLangData) {
-          activeDirect = getValueByPathLoose(missingLangData, item.key)
-        }
-        // If the project doesn't have the selected language loaded, fall back to base language
-        if (!activeDirect && missingLang !== effectiveCtx.baseLanguage && effectiveCtx.localeData[effectiveCtx.baseLanguage]) {
-          activeDirect = getValueByPathLoose(effectiveCtx.localeData[effectiveCtx.baseLanguage], item.key)
-        }
-      } else if (projectContext) {
-        // Determine the effective "active" language for the global project context.
-        const missingLang = (activePreviewLanguage && localeCache[activePreviewLanguage])
-          ? activePreviewLanguage
-          : projectContext.baseLanguage
-        // Use both strict and loose matching for consistency
-        activeDirect = getValueByPath(localeCache[missingLang], item.key) || getValueByPathLoose(localeCache[missingLang], item.key)
-        if (!activeDirect && missingLang !== projectContext.baseLanguage) {
-          activeDirect =
-            getValueByPath(localeCache[projectContext.baseLanguage], item.key) ||
-            getValueByPathLoose(localeCache[projectContext.baseLanguage], item.key)
-        }
+    const unreadable = new Set<string>()
+    const review = reviewImportedTranslations(imported, baseData, (lang) => {
+      const localePath = getLocalePath(localesDir, lang)
+      if (!localePath) return null
+      try {
+        return readLocaleData(localePath)
+      } catch {
+        unreadable.add(lang)
+        return null
       }
-      const isMissing = !activeDirect && (inVueTemplate || inJsxUi || inVueAttr || inJsxAttr || inVueScript || inGenericScript)
-      // If there is no value to show (and not a missing-key case) and we're not in hidden mode, skip rendering
-      if (!textToShow && !isMissing && keyMode !== 'hidden') continue
-      // In hidden mode we want to show only the locale value and hide the original code everywhere
-      const displayLang = activePreviewLanguage || effectiveCtx?.baseLanguage || ''
-      const hover = new vscode.MarkdownString()
-      if (hoverShowsKey) hover.appendMarkdown(vscode.l10n.t('Key: {0}', `\`${item.key}\``))
-      hover.appendMarkdown('\n\n')
-      hover.appendMarkdown(vscode.l10n.t('Value ({0}): {1}', displayLang, String(value ?? '')))
-      const leaf = item.key.split('.').pop() || item.key
-      // Key+locale mode should not duplicate the key (code already shows it)
-      // Leaf mode shows a compact key prefix; Hidden mode shows only value and hides the code
-      const keyLabel = keyMode === 'leaf' ? `[${leaf}] ` : ''
-      // Expand preview/hidden range to include surrounding template/JSX braces when applicable
-      let previewRange = item.range
-      if (inVueTemplate) {
-        const must = findEnclosingMustache(docText, startOffset)
-        if (must) {
-          previewRange = new vscode.Range(
-            editor.document.positionAt(must.start),
-            editor.document.positionAt(must.end)
+    })
+    if (unreadable.size > 0) {
+      vscode.window.showErrorMessage(
+        vscode.l10n.t('Could not update {0}: the file could not be parsed.', [...unreadable].map((lang) => getLocaleFileLabel(localesDir, lang)).join(', '))
+      )
+      return
+    }
+
+    const report = () => {
+      const quote = (value: string | null) => (value === null ? '—' : JSON.stringify(value))
+      const lines = [`# ${vscode.l10n.t('Stringer import report')}`, '', sourceFile, '']
+      if (review.conflicts.length > 0) {
+        lines.push(`## ${vscode.l10n.t('Conflicts ({0})', review.conflicts.length)}`, '')
+        for (const c of review.conflicts) {
+          lines.push(
+            c.reason === 'source'
+              ? `- \`${c.lang}\` \`${c.key}\`: ${vscode.l10n.t('translated from {0}, the base value is now {1}', quote(c.source), quote(getDeepValue(baseData, splitLocaleKeyPath(baseData, c.key)) ?? null))}`
+              : `- \`${c.lang}\` \`${c.key}\`: ${quote(c.current)} → ${quote(c.value)}`
           )
         }
-      } else if (!isVue && isJsx && inJsxUi) {
-        let left = editor.document.offsetAt(item.range.start) - 1
-        while (left >= 0 && /\s/.test(docText[left])) left--
-        let right = editor.document.offsetAt(item.range.end)
-        while (right < docText.length && /\s/.test(docText[right])) right++
-        if (docText[left] === '{' && docText[right] === '}') {
-          previewRange = new vscode.Range(
-            editor.document.positionAt(left),
-            editor.document.positionAt(right + 1)
+        lines.push('')
+      }
+      if (review.unknownKeys.length > 0) {
+        lines.push(`## ${vscode.l10n.t('Unknown keys ({0})', review.unknownKeys.length)}`, '')
+        for (const u of review.unknownKeys) lines.push(`- \`${u.lang}\` \`${u.key}\`: ${quote(u.value)}`)
+        lines.push('')
+      }
+      if (ignoredColumns.length > 0) {
+        lines.push(`## ${vscode.l10n.t('Ignored columns ({0})', ignoredColumns.length)}`, '')
+        for (const name of ignoredColumns) lines.push(`- \`${name}\``)
+        lines.push('')
+      }
+      if (review.placeholderMismatches.length > 0) {
+        lines.push(`## ${vscode.l10n.t('Placeholder mismatches ({0})', review.placeholderMismatches.length)}`, '')
+        for (const m of review.placeholderMismatches) {
+          lines.push(
+            `- \`${m.lang}\` \`${m.key}\`: ${vscode.l10n.t('expected {0}, got {1}', m.expected.join(' ') || '—', m.actual.join(' ') || '—')}`
           )
         }
+        lines.push('')
       }
-
-      if (keyMode === 'hidden') {
-        // 1) Hide the original text entirely (collapsed width)
-        hiddenRanges.push({ range: previewRange })
-        // 2) Render the value via a separate decoration so opacity does not affect it
-        hiddenModeValueDecorations.push({
-          range: previewRange,
-          // Avoid duplicate hover (decoration + provider); provider will handle it
-          renderOptions: {
-            // Use `before` to ensure visibility even when the original range is fully hidden
-            before: {
-              contentText: `${truncateForPreview(isMissing ? vscode.l10n.t('Locale Key Missing!!') : textToShow)}`,
-              backgroundColor: (isMissing ? 'hsl(0, 70%, 50%)' : previewBg) as any,
-              color: '#ffffff' as any,
-              margin: '0 0 0 0.15em',
-              border: '1px solid',
-              borderColor: (isMissing ? 'hsl(0, 70%, 50%)' : previewBg) as any,
-              textDecoration: 'border-radius: 6px; padding: 0 4px;'
-            }
-          }
-        })
-      } else {
-        decorations.push({
-          range: item.range,
-          hoverMessage: hover,
-          renderOptions: {
-            after: {
-              contentText: `${keyLabel}${truncateForPreview(isMissing ? vscode.l10n.t('Locale Key Missing!!') : textToShow)}`,
-              backgroundColor: (isMissing ? 'hsl(0, 70%, 50%)' : previewBg) as any,
-              color: '#ffffff' as any,
-              margin: '0 0 0 0.15em',
-              border: '1px solid',
-              borderColor: (isMissing ? 'hsl(0, 70%, 50%)' : previewBg) as any,
-              textDecoration: 'border-radius: 6px; padding: 0 4px;'
-            }
-          }
-        })
-      }
-    }
-    // Apply decorations per mode
-    if (keyMode === 'hidden') {
-      editor.setDecorations(valueBeforeDecorationType, hiddenModeValueDecorations)
-      editor.setDecorations(hiddenTextDecorationType, hiddenRanges)
-      editor.setDecorations(decorationType, [])
-    } else {
-      editor.setDecorations(decorationType, decorations)
-      editor.setDecorations(hiddenTextDecorationType, [])
-      editor.setDecorations(valueBeforeDecorationType, [])
+      return lines.join('\n')
     }
-  }
 
-  function refreshActiveEditorDecorations() {
-    const ed = vscode.window.activeTextEditor
-    if (!ed) return
-    decorateEditor(ed)
-  }
+    const skipped = review.unknownKeys.length + review.placeholderMismatches.length
+    const summary = [
+      vscode.l10n.t('{0} new or updated translations', review.accepted.length),
+      vscode.l10n.t('{0} conflicts', review.conflicts.length),
+      vscode.l10n.t('{0} unknown keys', review.unknownKeys.length),
+      vscode.l10n.t('{0} placeholder mismatches', review.placeholderMismatches.length),
+      vscode.l10n.t('{0} unchanged', review.unchanged),
+      ...(ignoredColumns.length > 0 ? [vscode.l10n.t('Ignored columns: {0}', ignoredColumns.join(', '))] : [])
+    ].join('\n')
+    const importLabel = vscode.l10n.t('Import')
+    const overwriteLabel = vscode.l10n.t('Import and Overwrite Conflicts')
+    const keepLabel = vscode.l10n.t('Import, Keep Existing')
+    const detailsLabel = vscode.l10n.t('Show Details')
+    const actions =
+      review.conflicts.length > 0 ? [overwriteLabel, keepLabel] : review.accepted.length > 0 ? [importLabel] : []
+    if (review.conflicts.length + skipped + ignoredColumns.length > 0) actions.push(detailsLabel)
+    if (actions.length === 0) {
+      vscode.window.showInformationMessage(vscode.l10n.t('{0} matches the locale files already. Nothing to import.', path.basename(sourceFile)))
+      return
+    }
 
-  // Provide hover in any file type
-  const hoverProvider = vscode.languages.registerHoverProvider({ scheme: 'file' }, {
-    provideHover(document, position) {
-      const filePath = document.uri.fsPath
-      const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri)
-      const workspaceRoot = workspaceFolder?.uri.fsPath
-      
-      // Get per-file context for monorepo support
-      const fileCtx = getProjectContextForFile(filePath, workspaceRoot)
-      
-      const ranges = findTTupleRanges(document)
-      for (const r of ranges) {
-        if (r.range.contains(position)) {
-          // Use per-file context if available, otherwise fall back to global
-          const value = fileCtx 
-            ? getTranslationForProject(fileCtx, r.key)
-            : getTranslation(r.key)
-          const displayLang = activePreviewLanguage || fileCtx?.baseLanguage || ''
-          const md = new vscode.MarkdownString()
-          md.appendMarkdown(`Key: \`${r.key}\``)
-          if (value) md.appendMarkdown(`\n\nValue (${displayLang}): ${value}`)
-          return new vscode.Hover(md, r.range)
-        }
+    let choice: string | undefined
+    while (true) {
+      choice = await vscode.window.showWarningMessage(
+        vscode.l10n.t('Import translations from {0}?', path.basename(sourceFile)),
+        { modal: true, detail: summary },
+        ...actions
+      )
+      if (choice !== detailsLabel) break
+      const doc = await vscode.workspace.openTextDocument({ content: report(), language: 'markdown' })
+      await vscode.window.showTextDocument(doc, { preview: true })
+    }
+    if (!choice) return
+
+    const toWrite = choice === overwriteLabel ? [...review.accepted, ...review.conflicts] : review.accepted
+    if (toWrite.length === 0) return
+    const byLanguage = new Map<string, ImportedTranslation[]>()
+    for (const item of toWrite) {
+      if (!byLanguage.has(item.lang)) byLanguage.set(item.lang, [])
+      byLanguage.get(item.lang)!.push(item)
+    }
+    if (!(await waitForStringerCli())) return
+    const failed: string[] = []
+    let written = 0
+    for (const [lang, items] of byLanguage) {
+      const localePath = getLocalePath(localesDir, lang) || getNewLocalePath(localesDir, lang)
+      try {
+        const data = fs.existsSync(localePath) ? readLocaleData(localePath) : {}
+        for (const item of items) setValueByKeyPath(data, item.key, item.value)
+        writeLocaleData(localePath, data)
+        written += items.length
+      } catch {
+        failed.push(getLocaleFileLabel(localesDir, lang))
       }
-      return undefined
     }
+    await reloadLocalesAndRefresh()
+    if (failed.length > 0) {
+      vscode.window.showErrorMessage(vscode.l10n.t('Could not update {0}: the file could not be parsed.', failed.join(', ')))
+    }
+    vscode.window.showInformationMessage(
+      skipped > 0
+        ? vscode.l10n.t('Imported {0} translations into {1} languages. {2} entries were skipped.', written, byLanguage.size - failed.length, skipped)
+        : vscode.l10n.t('Imported {0} translations into {1} languages.', written, byLanguage.size - failed.length)
+    )
   })
-  context.subscriptions.push(hoverProvider)
+  context.subscriptions.push(importTranslationsCmd)
+
+  // Keep the usage index current as source files change
+  const sourceWatcher = vscode.workspace.createFileSystemWatcher(SOURCE_FILE_GLOB)
+  sourceWatcher.onDidCreate((uri) => updateKeyUsagesForFile(uri))
+  sourceWatcher.onDidChange((uri) => updateKeyUsagesForFile(uri))
+  sourceWatcher.onDidDelete((uri) => removeKeyUsagesForFile(uri))
+  context.subscriptions.push(sourceWatcher)
+  // Typing re-scans the file once it pauses, like scheduleDiagnostics
+  const usageIndexTimers = new Map<string, NodeJS.Timeout>()
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeTextDocument((e) => {
+      if (!/\.(js|jsx|ts|tsx|vue|svelte|mdx|md)$/i.test(e.document.uri.fsPath)) return
+      const id = e.document.uri.toString()
+      const pending = usageIndexTimers.get(id)
+      if (pending) clearTimeout(pending)
+      usageIndexTimers.set(
+        id,
+        setTimeout(() => {
+          usageIndexTimers.delete(id)
+          updateKeyUsagesForFile(e.document.uri, e.document.getText())
+        }, 300)
+      )
+    })
+  )
 
   async function getAvailableLocales(): Promise<string[]> {
     // Try to get locales from active editor's project first (monorepo support)
@@ -2447,14 +7516,7 @@ export async function activate(context: vscode.ExtensionContext) {
     }
     // Fall back to global context
     if (!projectContext) return []
-    try {
-      return fs
-        .readdirSync(projectContext.localesDir)
-        .filter((f) => isLocaleFileName(f))
-        .map((f) => f.replace(/\.json$/, ''))
-    } catch {
-      return []
-    }
+    return listLocaleLanguages(projectContext.localesDir)
   }
 
   async function choosePreviewLanguage(): Promise<void> {
@@ -2535,7 +7597,7 @@ export async function activate(context: vscode.ExtensionContext) {
       canSelectFolders: true,
       canSelectFiles: false,
       canSelectMany: false,
-      title: vscode.l10n.t('Select your locales folder (contains *.json locale files)'),
+      title: vscode.l10n.t('Select your locales folder (contains *.json or *.yml locale files)'),
       defaultUri: folder.uri
     })
     if (!pick || pick.length === 0) return
@@ -2604,6 +7666,7 @@ export async function activate(context: vscode.ExtensionContext) {
     await ensureProjectContext(vscode.window.activeTextEditor)
     await preloadLocales()
     refreshActiveEditorDecorations()
+    refreshDiagnostics()
   })
   context.subscriptions.push(reloadLocalesCmd)
 
@@ -2796,17 +7859,269 @@ export async function activate(context: vscode.ExtensionContext) {
     }
   })
 
-  vscode.workspace.onDidChangeConfiguration((e) => {
-    if (e.affectsConfiguration('stringerHelper')) {
+  vscode.workspace.onDidChangeConfiguration(async (e) => {
+    if (e.affectsConfiguration('stringerHelper.allowJsonComments')) {
+      // Locale files parse differently now
+      await reloadLocalesAndRefresh()
+    } else if (
+      e.affectsConfiguration('stringerHelper.translationFunctions') ||
+      e.affectsConfiguration('stringerHelper.keyExistenceFunctions')
+    ) {
+      // Different calls count as key usages now
+      resetKeyUsageIndex()
+      refreshActiveEditorDecorations()
+      refreshDiagnostics()
+    } else if (e.affectsConfiguration('stringerHelper')) {
       refreshActiveEditorDecorations()
+      refreshDiagnostics()
     }
   })
 
+  /**
+   * When the base locale already contains the exact (normalized) text, let the user reuse that key.
+   * Resolves to the chosen key, null to create a new key, or undefined when cancelled.
+   */
+  async function pickExistingKeyForText(
+    baseJson: Record<string, any>,
+    text: string,
+    keyPathPrefix: string,
+    localesDir: string,
+    baseLanguage: string,
+    scopePath = ''
+  ): Promise<string | null | undefined> {
+    // A scoped t function can only reach keys below its scope
+    const namespaced = namespacedLocaleData.has(baseJson)
+    const matches = findKeysWithValue(baseJson, text).filter((key) => !scopePath || getKeyBelowScope(key, scopePath, namespaced) !== null)
+    if (matches.length === 0) return null
+
+    const ctx = getOrCreateProjectContext(localesDir)
+    const otherLanguages = listLocaleLanguages(localesDir).filter((l) => l !== baseLanguage)
+    const items: Array<vscode.QuickPickItem & { key: string | null }> = matches.map((key) => {
+      const translations = ctx
+        ? otherLanguages
+            .map((lang) => {
+              const value = getValueByPath(loadLocaleForProject(ctx, lang), key)
+              return value ? `${lang}: ${truncateForPreview(value, 40)}` : `${lang}: —`
+            })
+            .join(' · ')
+        : ''
+      return {
+        label: vscode.l10n.t('Reuse {0}', key),
+        description: `${baseLanguage}: ${truncateForPreview(text, 40)}`,
+        detail: translations || undefined,
+        key
+      }
+    })
+    items.push({ label: vscode.l10n.t('Create new key'), description: `${keyPathPrefix}.####`, key: null })
+
+    const pick = await vscode.window.showQuickPick(items, {
+      title: vscode.l10n.t('Stringer: This text already exists in {0}', getLocaleFileLabel(localesDir, baseLanguage)),
+      placeHolder: vscode.l10n.t('Reuse an existing key or create a new one')
+    })
+    return pick ? pick.key : undefined
+  }
+
+  /**
+   * Resolve the project, base locale file and key prefix for adding keys from this editor.
+   * With `scopeOffset`, keys go below the namespace / keyPrefix of the t function in scope there.
+   * Creates an empty base locale file when missing; returns null after telling the user why it failed.
+   */
+  async function resolveAddKeyTarget(editor: vscode.TextEditor, scopeOffset?: number): Promise<{
+    projectRoot: string
+    localesDir: string
+    baseLanguage: string
+    baseLangPath: string
+    baseJson: Record<string, any>
+    keyPathPrefix: string
+    namespaced: boolean
+    scopePath: string
+  } | null> {
+    const filePath = editor.document.uri.fsPath
+    const workspaceFolders = vscode.workspace.workspaceFolders
+    const folder = vscode.workspace.getWorkspaceFolder(editor.document.uri) || (workspaceFolders && workspaceFolders[0])
+    if (!folder) {
+      await promptOpenWorkspaceFolder()
+      return null
+    }
+    const projectRoot = folder.uri.fsPath
+
+    const config = await loadCliProjectConfig(projectRoot)
+    if (!config) {
+      const ok = await ensureProjectContext(editor)
+      if (!ok || !projectContext) {
+        await promptOpenWorkspaceFolder()
+        return null
+      }
+    }
+
+    const outputDirConfigured: string = (config && config.outputDir) || projectContext?.localesDir || path.join('i18n', 'locales')
+    const localesDir = projectContext?.localesDir || path.resolve(projectRoot, outputDirConfigured)
+    ensureDir(localesDir)
+
+    const baseLanguage: string = (config && config.baseLanguage) || (projectContext?.baseLanguage || 'en')
+    const baseLangPath = getLocalePath(localesDir, baseLanguage) || getNewLocalePath(localesDir, baseLanguage)
+
+    const namespaced = isNamespacedLocalePath(baseLangPath)
+    if (namespaced) {
+      ensureDir(baseLangPath)
+    } else if (!fs.existsSync(baseLangPath)) {
+      ensureDir(path.dirname(baseLangPath))
+      fs.writeFileSync(baseLangPath, JSON.stringify({}, null, 2))
+    }
+
+    let baseJson: Record<string, any> = {}
+    try {
+      baseJson = readLocaleData(baseLangPath)
+    } catch (_e) {
+      vscode.window.showErrorMessage(
+        vscode.l10n.t(
+          'Base language file could not be parsed. Please fix it and try again. No changes were made.'
+        )
+      )
+      return null
+    }
+
+    let keyPathPrefix = generateKeyPath(filePath, projectRoot)
+    if (!keyPathPrefix) {
+      vscode.window.showErrorMessage(vscode.l10n.t('Cannot derive key path from file location.'))
+      return null
+    }
+    const keyScope =
+      scopeOffset === undefined ? '' : getKeyScopeAt(findKeyScopesInText(editor.document.getText(), filePath), 't', scopeOffset)
+    const scopePath = keyScope ? getScopeKeyPath(keyScope, baseJson) : ''
+    if (scopePath) keyPathPrefix = scopePath
+    const scopeHasNamespace = !!scopePath && (/^[^.:]+:/.test(keyScope) || scopePath.split('.')[0] in baseJson)
+    if (namespaced && !scopeHasNamespace) {
+      // New keys go into the namespace file that matches the component
+      const namespace = pickNamespaceForFile(Object.keys(baseJson), editor.document.getText(), filePath, keyPathPrefix)
+      keyPathPrefix = `${namespace}.${keyPathPrefix}`
+    }
+
+    return {
+      projectRoot,
+      localesDir,
+      baseLanguage,
+      baseLangPath,
+      baseJson,
+      keyPathPrefix,
+      namespaced,
+      scopePath: scopePath ? keyPathPrefix : ''
+    }
+  }
+
+  // Add locale file writes to a WorkspaceEdit, creating files for new namespaces. Returns the touched files.
+  async function addLocaleWritesToEdit(
+    edit: vscode.WorkspaceEdit,
+    writes: Array<{ filePath: string; text: string }>
+  ): Promise<vscode.Uri[]> {
+    const uris: vscode.Uri[] = []
+    for (const { filePath, text } of writes) {
+      const uri = vscode.Uri.file(filePath)
+      if (fs.existsSync(filePath)) {
+        // Only the changed span, so the rest of the file (and any open editor's cursor) is left alone
+        const doc = await vscode.workspace.openTextDocument(uri)
+        const change = getMinimalReplacement(doc.getText(), text)
+        if (change) edit.replace(uri, new vscode.Range(doc.positionAt(change.start), doc.positionAt(change.end)), change.text)
+      } else {
+        edit.createFile(uri, { ignoreIfExists: true })
+        edit.insert(uri, new vscode.Position(0, 0), text)
+      }
+      uris.push(uri)
+    }
+    return uris
+  }
+
+  /**
+   * Work out which source span to replace with a t() call and what to insert, based on where the text sits
+   * (Vue attribute, JSX attribute, Vue template text, JSX text or a script string literal)
+   */
+  function getTCallReplacement(
+    docText: string,
+    startOffset: number,
+    endOffset: number,
+    expr: string,
+    filePath: string
+  ): { start: number; end: number; text: string } {
+    const inVue = isVueFile(filePath)
+    const inJsx = isJsxFile(filePath)
+    const inSvelteMarkup = isSvelteFile(filePath) && isSvelteMarkup(docText, startOffset)
+    const isTplText = inVue && isVueTemplateTextNode(docText, startOffset)
+    const attrCtx = inVue ? getAttributeContext(docText, startOffset) : null
+    const jsxAttrCtx = !inVue && (inJsx || inSvelteMarkup) ? getJsxAttributeContext(docText, startOffset) : null
+
+    if (attrCtx) {
+      const { name, isBound, attrStart, valueStart, valueEnd } = attrCtx
+      if (isBound) return { start: valueStart, end: valueEnd, text: expr }
+      return { start: attrStart, end: valueEnd + 1, text: `:${name}="${expr}"` }
+    }
+    if (jsxAttrCtx) {
+      // Replace including surrounding quotes with JSX expression {t('...')}
+      return { start: jsxAttrCtx.valueStartQuote, end: jsxAttrCtx.valueEndQuote + 1, text: `{${expr}}` }
+    }
+    if (isTplText) {
+      const must = findEnclosingMustache(docText, startOffset)
+      if (!must) return { start: startOffset, end: endOffset, text: `{{ ${expr} }}` }
+      const strBounds = findEnclosingStringLiteralBounds(docText, startOffset)
+      if (strBounds) return { start: strBounds.qStart, end: strBounds.qEnd + 1, text: expr }
+      return { start: startOffset, end: endOffset, text: expr }
+    }
+    if (inJsx && isLikelyJsxUiContext(docText, startOffset)) {
+      // Wrap UI text with JSX expression
+      return { start: startOffset, end: endOffset, text: `{${expr}}` }
+    }
+    if (inSvelteMarkup) {
+      // Text nodes become {$_('...')}; inside an existing {expression} only the string literal is replaced
+      if (!findEnclosingSvelteExpression(docText, startOffset)) return { start: startOffset, end: endOffset, text: `{${expr}}` }
+      const strBounds = findEnclosingStringLiteralBounds(docText, startOffset)
+      if (strBounds) return { start: strBounds.qStart, end: strBounds.qEnd + 1, text: expr }
+      return { start: startOffset, end: endOffset, text: expr }
+    }
+    const bounds = findEnclosingStringLiteralBounds(docText, startOffset)
+    if (bounds) return { start: bounds.qStart, end: bounds.qEnd + 1, text: expr }
+    return { start: startOffset, end: endOffset, text: expr }
+  }
+
+  // Offer `stringer align` (or run it when autoAlignAfterAdd is on) when other locales exist
+  async function promptAlignAfterAdd(projectRoot: string, localesDir: string, baseLanguage: string): Promise<void> {
+    const shouldShowAlign = (() => {
+      try {
+        const others = listLocaleLanguages(localesDir).filter((l) => l !== baseLanguage)
+        return others.length > 0
+      } catch {
+        return false
+      }
+    })()
+    if (!shouldShowAlign) return
+
+    const autoAlign = vscode.workspace.getConfiguration('stringerHelper').get<boolean>('autoAlignAfterAdd', false)
+    if (autoAlign) {
+      await runAlignInTerminal(projectRoot)
+      return
+    }
+    const yes = vscode.l10n.t('Yes')
+    const no = vscode.l10n.t('No')
+    vscode.window
+      .showInformationMessage(
+        vscode.l10n.t(
+          'Your translations are out of alignment. Run "{0}" to add missing translations?',
+          'stringer align'
+        ),
+        yes,
+        no
+      )
+      .then(async (choice) => {
+        if (choice === yes) {
+          await runAlignInTerminal(projectRoot)
+        }
+      })
+  }
+
   // Initialize for current editor if any
   await ensureProjectContext(vscode.window.activeTextEditor)
   langStatusItem.text = `$(globe) Lang: ${activePreviewLanguage ?? '—'}`
   previewStatusItem.text = `$(eye) Preview: ${getPreviewModeLabel()}`
   refreshActiveEditorDecorations()
+  refreshDiagnostics()
   const disposable = vscode.commands.registerCommand('stringer.addI18nKey', async () => {
     if (isProcessingCommand) return
     isProcessingCommand = true
@@ -2827,195 +8142,217 @@ export async function activate(context: vscode.ExtensionContext) {
       
       const inVue = isVueFile(filePath)
       const inJsx = isJsxFile(filePath)
+      const inSvelte = isSvelteFile(filePath)
       const isTplText = inVue && isVueTemplateTextNode(docText, startOffset)
       
-      // Determine context for advanced normalization
+      // Determine context for advanced normalization (Svelte markup interpolates {name} like JSX)
       const normContext: 'vue-template' | 'jsx' | 'script' = 
         isTplText ? 'vue-template' : 
-        inJsx ? 'jsx' : 
+        inJsx || (inSvelte && isSvelteMarkup(docText, startOffset)) ? 'jsx' : 
         'script'
       
       // Use advanced normalization to detect dynamic values
       const advancedResult = advancedNormalizeString(selectedText, normContext)
       const selectedString = advancedResult.normalizedText
-      const params = advancedResult.params
 
-      const workspaceFolders = vscode.workspace.workspaceFolders
-      const folder = vscode.workspace.getWorkspaceFolder(editor.document.uri) || (workspaceFolders && workspaceFolders[0])
-      if (!folder) {
-        await promptOpenWorkspaceFolder()
-        return
+      const target = await resolveAddKeyTarget(editor, startOffset)
+      if (!target) return
+      const { projectRoot, localesDir, baseLanguage, baseLangPath, baseJson, keyPathPrefix, namespaced, scopePath } = target
+
+      // Reuse an existing key when the same text is already translated
+      const reusedKey = await pickExistingKeyForText(baseJson, selectedString, keyPathPrefix, localesDir, baseLanguage, scopePath)
+      if (reusedKey === undefined) return
+
+      let fullKeyPath: string
+      let updatedBase: Record<string, any> | null = null
+      if (reusedKey) {
+        fullKeyPath = reusedKey
+      } else {
+        const added = addStringToBaseLanguage(baseJson, keyPathPrefix, selectedString)
+        fullKeyPath = added.fullKeyPath
+        updatedBase = added.updated
       }
-      const projectRoot = folder.uri.fsPath
 
-      const config = await loadCliProjectConfig(projectRoot)
-      if (!config) {
-        const ok = await ensureProjectContext(editor)
-        if (!ok || !projectContext) {
-          await promptOpenWorkspaceFolder()
+      // Plan the locale writes first: when the CLI took the new leaf meanwhile, the key moves and the t() call follows
+      if (updatedBase && !(await waitForStringerCli())) return
+      let localeWrites: Array<{ filePath: string; text: string }> = []
+      if (updatedBase) {
+        try {
+          const planned = getLocaleWritesForNewKeys(baseLangPath, updatedBase, [fullKeyPath], readLocaleTextPreferOpen)
+          localeWrites = planned.writes
+          fullKeyPath = planned.renamed.get(fullKeyPath) ?? fullKeyPath
+        } catch (err: any) {
+          vscode.window.showErrorMessage(err?.message || String(err))
           return
         }
       }
 
-      const outputDirConfigured: string = (config && config.outputDir) || projectContext?.localesDir || path.join('i18n', 'locales')
-      const localesDir = projectContext?.localesDir || path.resolve(projectRoot, outputDirConfigured)
-      ensureDir(localesDir)
+      // Generate the t() call expression using advanced result; a scoped t() takes the key relative to its scope
+      const codeKey = scopePath
+        ? getKeyBelowScope(fullKeyPath, scopePath, namespaced) ?? fullKeyPath
+        : namespaced
+          ? toNamespacedKeyUsage(fullKeyPath, docText)
+          : fullKeyPath
+      const expr = generateTCallExpression(codeKey, advancedResult, inSvelte ? 'svelte' : 'default')
+      const replacement = getTCallReplacement(docText, startOffset, editor.document.offsetAt(selection.end), expr, filePath)
+      const framework = inJsx ? detectJsxFramework(projectRoot) : null
+      const sourceEdits = getSourceEdits(docText, [replacement], (text) =>
+        inVue
+          ? withVueTDeclaration(text)
+          : inSvelte
+            ? withSvelteI18nImport(text)
+            : framework === 'next'
+              ? withNextTDeclaration(text, startOffset, filePath)
+              : framework === 'react'
+                ? withReactTDeclaration(text, startOffset, filePath)
+                : text
+      )
 
-      const baseLanguage: string = (config && config.baseLanguage) || (projectContext?.baseLanguage || 'en')
-      const baseLangPath = path.join(localesDir, `${baseLanguage}.json`)
+      // The key, the t() call and the declaration go in as one edit, so a single undo reverts all of them
+      const doc = editor.document
+      const edit = new vscode.WorkspaceEdit()
+      for (const change of sourceEdits) {
+        edit.replace(doc.uri, new vscode.Range(doc.positionAt(change.start), doc.positionAt(change.end)), change.text)
+      }
+      const localeUris = await addLocaleWritesToEdit(edit, localeWrites)
+      if (!(await vscode.workspace.applyEdit(edit))) {
+        vscode.window.showErrorMessage(vscode.l10n.t('Could not add the i18n key. No changes were made.'))
+        return
+      }
+      for (const uri of localeUris) {
+        const localeDoc = vscode.workspace.textDocuments.find((d) => d.uri.toString() === uri.toString())
+        if (localeDoc) await localeDoc.save()
+      }
+      if (updatedBase) await reloadLocalesAndRefresh()
 
-      if (!fs.existsSync(baseLangPath)) {
-        ensureDir(path.dirname(baseLangPath))
-        fs.writeFileSync(baseLangPath, JSON.stringify({}, null, 2))
+      // A reused key is already translated, so there is nothing to align
+      if (!reusedKey) {
+        await promptAlignAfterAdd(projectRoot, localesDir, baseLanguage)
       }
+    } finally {
+      isProcessingCommand = false
+    }
+  })
 
-      let baseJson: Record<string, any> = {}
-      try {
-        // Strip BOM for Windows compatibility
-        baseJson = JSON.parse(stripBOM(fs.readFileSync(baseLangPath, 'utf-8')))
-      } catch (_e) {
-        vscode.window.showErrorMessage(
-          vscode.l10n.t(
-            'Base language file has invalid JSON. Please fix it and try again. No changes were made.'
-          )
-        )
+  // Convert every hardcoded UI string in the active file: checklist, then one undoable edit
+  const convertFileCmd = vscode.commands.registerCommand('stringer.convertFile', async () => {
+    if (isProcessingCommand) return
+    isProcessingCommand = true
+    try {
+      const editor = vscode.window.activeTextEditor
+      if (!editor) return
+      const doc = editor.document
+      const filePath = doc.uri.fsPath
+      const kind = isVueFile(filePath) ? 'vue' : isJsxFile(filePath) ? 'jsx' : null
+      if (!kind) {
+        vscode.window.showInformationMessage(vscode.l10n.t('Converting a whole file works in .vue, .jsx and .tsx files.'))
         return
       }
-
-      const keyPathPrefix = generateKeyPath(filePath, projectRoot)
-      if (!keyPathPrefix) {
-        vscode.window.showErrorMessage(vscode.l10n.t('Cannot derive key path from file location.'))
+      const docText = doc.getText()
+      const found = findHardcodedStrings(docText, kind)
+      if (found.length === 0) {
+        vscode.window.showInformationMessage(vscode.l10n.t('No hardcoded strings found in this file.'))
         return
       }
 
-      const { updated, fullKeyPath } = addStringToBaseLanguage(baseJson, keyPathPrefix, selectedString)
-
-      fs.writeFileSync(baseLangPath, JSON.stringify(updated, null, 2))
+      // The scope of the t function at the first string applies to the whole file
+      const target = await resolveAddKeyTarget(editor, Math.min(...found.map((item) => item.start)))
+      if (!target) return
+      const { projectRoot, localesDir, baseLanguage, baseLangPath, baseJson, keyPathPrefix, namespaced, scopePath } = target
+      const toCodeKey = (key: string) =>
+        scopePath ? getKeyBelowScope(key, scopePath, namespaced) : namespaced ? toNamespacedKeyUsage(key, docText) : key
+
+      // Propose keys on a working copy so text repeated in the file (or already in the base locale) shares one key
+      const working: Record<string, any> = cloneLocaleData(baseJson)
+      const proposals = found.map((item) => {
+        const normContext: 'vue-template' | 'jsx' | 'script' =
+          kind === 'jsx' ? 'jsx' : item.kind === 'text' ? 'vue-template' : 'script'
+        const normalized = advancedNormalizeString(item.text, normContext)
+        const existing = findKeysWithValue(working, normalized.normalizedText).find((key) => toCodeKey(key) !== null)
+        const key = existing || addStringToBaseLanguage(working, keyPathPrefix, normalized.normalizedText).fullKeyPath
+        return { item, normalized, key, created: !existing, reused: !!existing && !!getValueByPath(baseJson, existing) }
+      })
 
-      const attrCtx = inVue ? getAttributeContext(docText, startOffset) : null
-      const jsxAttrCtx = !inVue && inJsx ? getJsxAttributeContext(docText, startOffset) : null
+      const items = proposals.map((proposal) => ({
+        label: truncateForPreview(proposal.item.text, 60),
+        description: proposal.reused ? vscode.l10n.t('{0} (existing key)', proposal.key) : proposal.key,
+        detail: vscode.l10n.t('Line {0}: {1}', doc.positionAt(proposal.item.start).line + 1, proposal.normalized.normalizedText),
+        picked: true,
+        proposal
+      }))
+      const picks = await vscode.window.showQuickPick(items, {
+        title: vscode.l10n.t('Stringer: Convert {0} hardcoded strings', found.length),
+        placeHolder: vscode.l10n.t('Untick any string you want to keep as is'),
+        canPickMany: true,
+        matchOnDescription: true,
+        matchOnDetail: true
+      })
+      if (!picks || picks.length === 0) return
+      const accepted = picks.map((p) => p.proposal)
+
+      // Drop proposed keys that no accepted string ended up using
+      const usedKeys = new Set(accepted.map((p) => p.key))
+      const updatedBase: Record<string, any> = working
+      for (const proposal of proposals) {
+        if (proposal.created && !usedKeys.has(proposal.key)) {
+          deleteDeepValue(updatedBase, splitLocaleKeyPath(updatedBase, proposal.key))
+        }
+      }
 
-      // Generate the t() call expression using advanced result
-      const expr = generateTCallExpression(fullKeyPath, advancedResult)
+      // Plan the locale writes first: new leaves the CLI took meanwhile move, and their t() calls follow
+      if (!(await waitForStringerCli())) return
+      let planned: ReturnType<typeof getLocaleWritesForNewKeys>
+      try {
+        const createdKeys = accepted.filter((p) => p.created).map((p) => p.key)
+        planned = getLocaleWritesForNewKeys(baseLangPath, updatedBase, createdKeys, readLocaleTextPreferOpen)
+      } catch (err: any) {
+        vscode.window.showErrorMessage(err?.message || String(err))
+        return
+      }
 
-      await withEdit(editor, (edit) => {
-        if (attrCtx) {
-          const { name, isBound, attrStart, valueStart, valueEnd } = attrCtx
-          if (isBound) {
-            const range = new vscode.Range(
-              editor.document.positionAt(valueStart),
-              editor.document.positionAt(valueEnd)
-            )
-            edit.replace(range, expr)
-          } else {
-            const fullAttrEnd = valueEnd + 1
-            const range = new vscode.Range(
-              editor.document.positionAt(attrStart),
-              editor.document.positionAt(fullAttrEnd)
-            )
-            edit.replace(range, `:${name}="${expr}"`)
-          }
-        } else if (jsxAttrCtx) {
-          const { valueStartQuote, valueEndQuote } = jsxAttrCtx
-          // Replace including surrounding quotes with JSX expression {t('...')}
-          const range = new vscode.Range(
-            editor.document.positionAt(valueStartQuote),
-            editor.document.positionAt(valueEndQuote + 1)
-          )
-          edit.replace(range, `{${expr}}`)
-        } else if (isTplText) {
-          const must = findEnclosingMustache(docText, startOffset)
-          if (must) {
-            const strBounds = findEnclosingStringLiteralBounds(docText, startOffset)
-            if (strBounds) {
-              const range = new vscode.Range(
-                editor.document.positionAt(strBounds.qStart),
-                editor.document.positionAt(strBounds.qEnd + 1)
-              )
-              edit.replace(range, expr)
-            } else {
-              edit.replace(selection, expr)
-            }
-          } else {
-            edit.replace(selection, `{{ ${expr} }}`)
-          }
-        } else if (inJsx && isLikelyJsxUiContext(docText, startOffset)) {
-          // Wrap UI text with JSX expression
-          edit.replace(selection, `{${expr}}`)
-        } else {
-          const bounds = findEnclosingStringLiteralBounds(docText, startOffset)
-          if (bounds) {
-            const range = new vscode.Range(
-              editor.document.positionAt(bounds.qStart),
-              editor.document.positionAt(bounds.qEnd + 1)
-            )
-            edit.replace(range, expr)
-          } else {
-            edit.replace(selection, expr)
-          }
+      const replacements = accepted.map(({ item, normalized, key: proposedKey }) => {
+        const key = planned.renamed.get(proposedKey) ?? proposedKey
+        const expr = generateTCallExpression(toCodeKey(key) ?? key, normalized)
+        if (item.kind === 'text') {
+          return { start: item.start, end: item.end, text: kind === 'vue' ? `{{ ${expr} }}` : `{${expr}}` }
         }
+        return getTCallReplacement(docText, item.start, item.end, expr, filePath)
       })
+      const firstOffset = Math.min(...replacements.map((r) => r.start))
+      const framework = kind === 'jsx' ? detectJsxFramework(projectRoot) : null
+      const sourceEdits = getSourceEdits(docText, replacements, (text) =>
+        kind === 'vue'
+          ? withVueTDeclaration(text)
+          : framework === 'next'
+            ? withNextTDeclaration(text, firstOffset, filePath)
+            : withReactTDeclaration(text, firstOffset, filePath)
+      )
 
-      if (inVue) {
-        await ensureVueTDeclaration(editor)
-      } else if (inJsx) {
-        // Auto framework selection
-        const extCfg = vscode.workspace.getConfiguration('stringerHelper')
-        const framework = (extCfg.get<string>('framework', 'auto') || 'auto') as 'auto' | 'vue' | 'react' | 'next'
-        const effective: 'react' | 'next' = (() => {
-          if (framework !== 'auto') return framework as any
-          try {
-            const pkgPath = path.join(projectRoot, 'package.json')
-            const pkg = JSON.parse(fs.readFileSync(pkgPath, 'utf-8'))
-            const deps = { ...(pkg.dependencies || {}), ...(pkg.devDependencies || {}) }
-            if (deps.next) return 'next'
-            return 'react'
-          } catch { return 'react' }
-        })()
-        const selOffset = startOffset
-        if (effective === 'next') await ensureNextTDeclaration(editor, selOffset)
-        else await ensureReactTDeclaration(editor, selOffset)
-      }
-
-      const shouldShowAlign = (() => {
-        try {
-          const files = fs
-            .readdirSync(localesDir)
-            .filter((f) => f.endsWith('.json') && !f.startsWith('.'))
-          const others = files.filter((f) => f !== `${baseLanguage}.json`)
-          return others.length > 0
-        } catch {
-          return false
-        }
-      })()
+      const edit = new vscode.WorkspaceEdit()
+      for (const change of sourceEdits) {
+        edit.replace(doc.uri, new vscode.Range(doc.positionAt(change.start), doc.positionAt(change.end)), change.text)
+      }
+      const localeUris = await addLocaleWritesToEdit(edit, planned.writes)
+      const ok = await vscode.workspace.applyEdit(edit)
+      if (!ok) {
+        vscode.window.showErrorMessage(vscode.l10n.t('Could not apply the conversion. No changes were made.'))
+        return
+      }
+      for (const uri of localeUris) {
+        const localeDoc = vscode.workspace.textDocuments.find((d) => d.uri.toString() === uri.toString())
+        if (localeDoc) await localeDoc.save()
+      }
+      await reloadLocalesAndRefresh()
 
-      if (shouldShowAlign) {
-        const autoAlign = vscode.workspace.getConfiguration('stringerHelper').get<boolean>('autoAlignAfterAdd', false)
-        if (autoAlign) {
-          await runAlignInTerminal(projectRoot)
-        } else {
-          const yes = vscode.l10n.t('Yes')
-          const no = vscode.l10n.t('No')
-          vscode.window
-            .showInformationMessage(
-              vscode.l10n.t(
-                'Your translations are out of alignment. Run "{0}" to add missing translations?',
-                'stringer align'
-              ),
-              yes,
-              no
-            )
-            .then(async (choice) => {
-              if (choice === yes) {
-                await runAlignInTerminal(projectRoot)
-              }
-            })
-        }
+      vscode.window.showInformationMessage(vscode.l10n.t('Converted {0} strings to i18n keys.', accepted.length))
+      if (accepted.some((p) => !p.reused)) {
+        await promptAlignAfterAdd(projectRoot, localesDir, baseLanguage)
       }
     } finally {
       isProcessingCommand = false
     }
   })
+  context.subscriptions.push(convertFileCmd)
 
   // (Restore and delete key) feature removed
 
@@ -3075,7 +8412,8 @@ export async function activate(context: vscode.ExtensionContext) {
       } else {
         replacement = `"${escapeJsString(baseValue, '"')}"`
       }
-    } else if (inJsx) {
+    } else if (inJsx || (isSvelteFile(filePath) && isSvelteMarkup(docText, startOffset))) {
+      // Svelte markup wraps expressions in braces just like JSX
       let left = startOffset - 1
       while (left >= 0 && /\s/.test(docText[left])) left--
       let right = doc.offsetAt(hit.range.end)
@@ -3173,6 +8511,9 @@ export async function activate(context: vscode.ExtensionContext) {
   })
   context.subscriptions.push(ignoreFileCmd)
 
+  // A closed terminal cannot be writing locale files anymore
+  context.subscriptions.push(vscode.window.onDidCloseTerminal((terminal) => runningCliTerminals.delete(terminal)))
+
   // Status Bar Button
   const statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100)
   statusBarItem.text = '$(globe) Stringer'
@@ -3194,10 +8535,30 @@ export async function activate(context: vscode.ExtensionContext) {
         label: vscode.l10n.t('Convert Strings to i18n Keys'),
         description: vscode.l10n.t('Run \"stringer convert\" in the integrated terminal for this project')
       },
+      {
+        id: 'convert_file',
+        label: vscode.l10n.t('Convert Strings in This File'),
+        description: vscode.l10n.t('Review and convert every hardcoded string in the active file')
+      },
       {
         id: 'select_locales',
         label: vscode.l10n.t('Select Locales folder'),
-        description: vscode.l10n.t('Pick the folder that contains your locale *.json files')
+        description: vscode.l10n.t('Pick the folder that contains your locale *.json or *.yml files')
+      },
+      {
+        id: 'find_unused',
+        label: vscode.l10n.t('Find Unused Keys'),
+        description: vscode.l10n.t('List keys in your base language file that no source file uses')
+      },
+      {
+        id: 'export_translations',
+        label: vscode.l10n.t('Export for Translation'),
+        description: vscode.l10n.t('Write keys and translations to CSV or XLIFF for translators')
+      },
+      {
+        id: 'import_translations',
+        label: vscode.l10n.t('Import Translations'),
+        description: vscode.l10n.t('Merge a translated CSV or XLIFF file into your locale files')
       },
       { id: 'change_lang', label: vscode.l10n.t('Change Preview Language'), description: vscode.l10n.t('Switch inline preview locale') },
       { id: 'change_mode', label: vscode.l10n.t('Change Preview Mode'), description: vscode.l10n.t('Switch inline preview content') },
@@ -3259,6 +8620,26 @@ export async function activate(context: vscode.ExtensionContext) {
       return
     }
 
+    if (pick.id === 'convert_file') {
+      await vscode.commands.executeCommand('stringer.convertFile')
+      return
+    }
+
+    if (pick.id === 'find_unused') {
+      await vscode.commands.executeCommand('stringer.findUnusedKeys')
+      return
+    }
+
+    if (pick.id === 'export_translations') {
+      await vscode.commands.executeCommand('stringer.exportForTranslation')
+      return
+    }
+
+    if (pick.id === 'import_translations') {
+      await vscode.commands.executeCommand('stringer.importTranslations')
+      return
+    }
+
     if (pick.id === 'change_lang') {
       await choosePreviewLanguage()
       return